@@ -0,0 +1,116 @@
+
+import { LlmCacheEntry, LlmCacheStore } from './types/llm'
+
+// json with sorted keys: same data = same string
+export const canonicalJson = (data: any): string => {
+  return JSON.stringify(data, (key, value) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      return Object.keys(value).sort().reduce((sorted: any, k: string) => {
+        sorted[k] = value[k]
+        return sorted
+      }, {})
+    }
+    return value
+  })
+}
+
+// web crypto so that it works in node and browsers
+export const computeCacheKey = async (data: any): Promise<string> => {
+  const bytes = new TextEncoder().encode(canonicalJson(data))
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', bytes)
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+//
+// in-memory store evicting the least recently used entries
+//
+
+export class LlmMemoryCache implements LlmCacheStore {
+
+  maxEntries: number
+  private entries: Map<string, LlmCacheEntry>
+
+  constructor(maxEntries: number = 100) {
+    this.maxEntries = maxEntries
+    this.entries = new Map()
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  get(key: string): LlmCacheEntry|undefined {
+
+    // move to the end of the map = most recently used
+    const entry = this.entries.get(key)
+    if (!entry) return undefined
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+
+    // callers may alter what they get
+    return structuredClone(entry)
+
+  }
+
+  set(key: string, entry: LlmCacheEntry): void {
+    this.entries.delete(key)
+    this.entries.set(key, structuredClone(entry))
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!)
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key)
+  }
+
+  clear(): void {
+    this.entries.clear()
+  }
+
+}
+
+//
+// one json file per entry in a directory (node only)
+//
+
+export class LlmFileCache implements LlmCacheStore {
+
+  directory: string
+
+  constructor(directory: string) {
+    this.directory = directory
+  }
+
+  async get(key: string): Promise<LlmCacheEntry|undefined> {
+    const fs = await import('node:fs/promises')
+    try {
+      return JSON.parse(await fs.readFile(await this.getPath(key), 'utf-8'))
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return undefined
+      throw error
+    }
+  }
+
+  async set(key: string, entry: LlmCacheEntry): Promise<void> {
+    const fs = await import('node:fs/promises')
+    await fs.mkdir(this.directory, { recursive: true })
+    await fs.writeFile(await this.getPath(key), JSON.stringify(entry))
+  }
+
+  async delete(key: string): Promise<void> {
+    const fs = await import('node:fs/promises')
+    await fs.rm(await this.getPath(key), { force: true })
+  }
+
+  async clear(): Promise<void> {
+    const fs = await import('node:fs/promises')
+    await fs.rm(this.directory, { recursive: true, force: true })
+  }
+
+  private async getPath(key: string): Promise<string> {
+    const path = await import('node:path')
+    return path.join(this.directory, `${key}.json`)
+  }
+
+}
@@ -1,28 +1,71 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 
 import { ChatModel, EngineCreateOpts, Model, ModelCapabilities, ModelMetadata, ModelsList } from './types/index'
-import { LlmResponse, LlmCompletionOpts, LLmCompletionPayload, LlmChunk, LlmTool, LlmToolArrayItem, LlmToolCall, LlmStreamingResponse, LlmStreamingContext, LlmUsage, LlmStream, LlmToolExecutionValidationCallback, LlmToolExecutionValidationResponse, LlmChunkToolAbort } from './types/llm'
+import { LlmResponse, LlmCompletionOpts, LLmCompletionPayload, LlmChunk, LlmChunkContent, LlmChunkTool, LlmTool, LlmToolArrayItem, LlmToolCall, LlmToolCallInfo, LlmStreamingResponse, LlmStreamingContext, LlmUsage, LlmStream, LlmToolExecutionValidationCallback, LlmToolExecutionValidationResponse, LlmChunkToolAbort, LlmChunkToolLimit, LlmChunkBudgetExceeded, LlmChunkRetry, LlmMiddleware, LlmMiddlewareContext, LlmRequest, LlmSpan, LlmSpanAttributes, LlmModelPricing, LlmModelOpts, LlmStructuredOutput, LlmStructuredOutputMode, LlmToolErrorDecision, LlmToolErrorPolicy } from './types/llm'
 import { IPlugin, PluginExecutionContext, PluginExecutionUpdate, PluginParameter, PluginExecutionResult } from './types/plugin'
-import { Plugin, ICustomPlugin, MultiToolPlugin } from './plugin'
+import { Plugin, ICustomPlugin, MultiToolPlugin, ZodPlugin, runWithAbort } from './plugin'
 import Attachment from './models/attachment'
 import Message from './models/message'
 import logger from './logger'
+import { getErrorStatus, getRetryAfter, getRetryDelay, getRetryReason, sleep } from './retry'
+import { LlmStructuredOutputError, LlmToolArgumentsError, toLlmError } from './errors'
+import { countMessagesTokens } from './tokens'
+import { endSpan, setUsageAttributes } from './tracing'
+import { computeCost, findModelPricing, getModelPricing, LlmCostOpts, totalTokens } from './pricing'
+import { computeCacheKey } from './cache'
+import { getFinishReason } from './finish'
+import { getSchemaIssues, getStructuredOutputPrompt, getStructuredOutputRepairPrompt, getStructuredOutputSchema, kStructuredOutputToolName, parseStructuredOutput } from './structured'
+import { PartialJsonParser, repairJson } from './partial'
+import { validateJsonSchema } from './schema'
+import { addUsages } from './usage'
+import { zodToJsonSchema } from 'zod-to-json-schema'
+
+// executions of a failing tool call (first one included)
+const kToolMaxAttempts = 3
 
 export type LlmStreamingContextBase = {
   model: ChatModel
   thread: any[]
   opts: LlmCompletionOpts
   usage: LlmUsage
+  toolRounds?: LlmToolRounds
+  requestTrace?: LlmRequestTrace
 }
 
 export type LlmStreamingContextTools = LlmStreamingContextBase & {
   toolCalls: LlmToolCall[]
 }
 
+export type LlmToolRounds = {
+  count: number
+  signatures: string[]
+}
+
+export type LlmRequestTrace = {
+  span: LlmSpan
+  start: number
+  firstChunk: boolean
+  ended: boolean
+}
+
+export type LlmToolCallResult = {
+  toolCall: LlmToolCall
+  args: any
+  content: any
+  canceled: boolean
+}
+
 export default abstract class LlmEngine {
 
   config: EngineCreateOpts
   plugins: IPlugin[]
+  middlewares: LlmMiddleware[]
+
+  // tool rounds of non-streaming chats
+  private chatToolRounds = new WeakMap<any[], LlmToolRounds>()
+
+  // model/option pairs already reported as unsupported
+  private unsupportedOptsWarned = new Set<string>()
 
   static isConfigured = (opts: EngineCreateOpts): boolean => {
     return (opts?.apiKey != null && opts.apiKey.length > 0)
@@ -35,6 +78,7 @@ export default abstract class LlmEngine {
   constructor(config: EngineCreateOpts) {
     this.config = config
     this.plugins = []
+    this.middlewares = []
   }
 
   abstract getId(): string
@@ -99,8 +143,12 @@ export default abstract class LlmEngine {
     }
   }
 
+  abstract doStream(context: LlmStreamingContext): Promise<LlmStream>
+
   protected abstract nativeChunkToLlmChunk(chunk: any, context: LlmStreamingContext): AsyncGenerator<LlmChunk>
 
+  protected abstract addToolResultsToThread(context: LlmStreamingContext, results: LlmToolCallResult[]): void
+
   clearPlugins(): void {
     this.plugins = []
   }
@@ -110,21 +158,263 @@ export default abstract class LlmEngine {
     this.plugins.push(plugin)
   }
 
-  async complete(model: ChatModel|string, thread: Message[], opts?: LlmCompletionOpts): Promise<LlmResponse> {
+  clearMiddlewares(): void {
+    this.middlewares = []
+  }
+
+  addMiddleware(middleware: LlmMiddleware): void {
+    this.middlewares.push(middleware)
+  }
+
+  async complete<T = any>(model: ChatModel|string, thread: Message[], opts?: LlmCompletionOpts<T>): Promise<LlmResponse<T>> {
+
+    // trace the whole completion
     const chatModel = this.toModel(model)
-    const messages = this.buildPayload(chatModel, thread, opts)
-    return await this.chat(chatModel, messages, opts)
+    const context = this.getMiddlewareContext(chatModel, opts)
+    const span = this.startSpan(`complete ${chatModel.id}`, this.getSpanAttributes(chatModel), opts?.parentSpan)
+    if (span) opts = { ...opts, parentSpan: span }
+
+    try {
+      const completion = await this.completeCached(chatModel, thread, opts)
+      if (completion.usage) completion.usage = this.addUsageCost(chatModel, completion.usage)
+      const response = await this.applyResponseMiddlewares(completion, context)
+      setUsageAttributes(span, response.usage)
+      endSpan(span)
+      return response
+    } catch (error) {
+      endSpan(span, error)
+      throw error
+    }
+
+  }
+
+  private async completeCached(chatModel: ChatModel, thread: Message[], opts?: LlmCompletionOpts): Promise<LlmResponse> {
+
+    // cache hit
+    const key = await this.getCacheKey('complete', chatModel, thread, opts)
+    const cached = key ? await this.config.cache!.get(key) : undefined
+    if (cached?.response) {
+      logger.log(`[${this.getId()}] cache hit for ${chatModel.id}`)
+      if (cached.response.usage) cached.response.usage.cached = true
+      return cached.response
+    }
+
+    // we need to ask the model
+    thread = await this.trimThread(chatModel, thread, opts)
+    thread = this.addStructuredOutputInstructions(chatModel, thread, opts)
+    const completion = await this.completeStructured(chatModel, thread, opts)
+    if (key) await this.config.cache!.set(key, { response: structuredClone(completion) })
+    return completion
+
+  }
+
+  // validates structured output and asks the model to fix invalid answers
+  private async completeStructured(chatModel: ChatModel, thread: Message[], opts?: LlmCompletionOpts): Promise<LlmResponse> {
+
+    // nothing to validate
+    let completion = await this.completeThread(chatModel, thread, opts)
+    const structuredOutput = opts?.structuredOutput
+    if (!structuredOutput) {
+      return completion
+    }
+
+    const maxRepairs = structuredOutput.maxRepairs ?? 1
+    const toolCalls: LlmToolCallInfo[] = []
+    let usage = completion.usage
+    for (let repairs = 0; ; repairs++) {
+
+      // valid?
+      const result = parseStructuredOutput(completion.content, structuredOutput.structure)
+      if (result.success) {
+        return {
+          ...completion,
+          parsed: result.data,
+          toolCalls: [...toolCalls, ...completion.toolCalls ?? []],
+          ...(usage ? { usage } : {}),
+        }
+      }
+
+      // give up
+      if (repairs >= maxRepairs) {
+        throw new LlmStructuredOutputError(`[${this.getId()}] invalid structured output ${structuredOutput.name}: ${result.issues.join(', ')}`, {
+          provider: this.getId(), model: chatModel.id, content: completion.content ?? '', issues: result.issues,
+        })
+      }
+
+      // feed the errors back to the model
+      logger.log(`[${this.getId()}] invalid structured output ${structuredOutput.name}: asking for a repair (${repairs + 1}/${maxRepairs})`)
+      toolCalls.push(...completion.toolCalls ?? [])
+      thread = [
+        ...thread,
+        new Message('assistant', completion.content ?? ''),
+        new Message('user', getStructuredOutputRepairPrompt(result.issues)),
+      ]
+      completion = await this.completeThread(chatModel, thread, opts)
+      if (usage && completion.usage) usage = addUsages(usage, completion.usage)
+
+    }
+
+  }
+
+  // providers with a specific payload for non-streaming completions override this
+  protected async completeThread(model: ChatModel, thread: Message[], opts?: LlmCompletionOpts): Promise<LlmResponse> {
+    const messages = this.buildPayload(model, thread, opts)
+    return await this.chat(model, messages, opts)
   }
 
   async *generate(model: ChatModel|string, thread: Message[], opts?: LlmCompletionOpts): AsyncIterable<LlmChunk> {
 
-    // eslint-disable-next-line no-useless-catch
+    // trace the whole generation
+    const chatModel = this.toModel(model)
+    const context = this.getMiddlewareContext(chatModel, opts)
+    const span = this.startSpan(`generate ${chatModel.id}`, this.getSpanAttributes(chatModel), opts?.parentSpan)
+    if (span) opts = { ...opts, parentSpan: span }
+    const start = Date.now()
+    let firstChunk = false
+    let error: any = undefined
+
+    // budgets are checked against usage
+    if (opts?.budget && !opts.usage) {
+      opts = { ...opts, usage: true }
+    }
+
+    try {
+      for await (const chunk of this.generateStructured(chatModel, thread, opts)) {
+        if (!firstChunk && this.isFirstChunk(chunk)) {
+          span?.setAttribute('llm.time_to_first_chunk_ms', Date.now() - start)
+          firstChunk = true
+        }
+        if (chunk.type === 'usage') {
+          const usage = this.addUsageCost(chatModel, chunk.usage)
+          setUsageAttributes(span, usage)
+          yield* await this.applyChunkMiddlewares({ ...chunk, usage }, context)
+          continue
+        }
+        if (chunk.type === 'budget_exceeded') {
+          span?.setAttribute('llm.budget_exceeded', chunk.reason)
+          setUsageAttributes(span, chunk.usage)
+        }
+        yield* await this.applyChunkMiddlewares(chunk, context)
+      }
+    } catch (err) {
+      error = err
+      throw err
+    } finally {
+      endSpan(span, error)
+    }
+
+  }
+
+  // parses structured output as it streams and validates the final answer
+  private async *generateStructured(chatModel: ChatModel, thread: Message[], opts?: LlmCompletionOpts): AsyncIterable<LlmChunk> {
+
+    const structuredOutput = opts?.structuredOutput
+    if (!structuredOutput) {
+      yield* this.generateCached(chatModel, thread, opts)
+      return
+    }
+
+    let parser = new PartialJsonParser()
+    let latest: string|undefined = undefined
+    let interrupted = false
+    for await (const chunk of this.generateCached(chatModel, thread, opts)) {
+
+      yield chunk
+
+      // the answer is what follows the last tool call
+      if (chunk.type === 'tool') {
+        parser = new PartialJsonParser()
+        latest = undefined
+      }
+
+      // no final answer
+      if (chunk.type === 'budget_exceeded' || chunk.type === 'tool_abort') {
+        interrupted = true
+      }
+
+      // only notify when the object changes
+      if (chunk.type === 'content' && chunk.text) {
+        parser.push(chunk.text)
+        const object = parser.value
+        const json = JSON.stringify(object)
+        if (object !== undefined && json !== latest) {
+          latest = json
+          yield { type: 'partial_object', object, done: false }
+        }
+      }
+
+    }
+
+    // validate
+    if (interrupted || opts?.abortSignal?.aborted) {
+      return
+    }
+    const result = parseStructuredOutput(parser.text, structuredOutput.structure)
+    if (!result.success) {
+      throw new LlmStructuredOutputError(`[${this.getId()}] invalid structured output ${structuredOutput.name}: ${result.issues.join(', ')}`, {
+        provider: this.getId(), model: chatModel.id, content: parser.text, issues: result.issues,
+      })
+    }
+    yield { type: 'partial_object', object: result.data, done: true }
+
+  }
+
+  private async *generateCached(chatModel: ChatModel, thread: Message[], opts?: LlmCompletionOpts): AsyncIterable<LlmChunk> {
+
+    // cache hit: replay
+    const key = await this.getCacheKey('generate', chatModel, thread, opts)
+    const cached = key ? await this.config.cache!.get(key) : undefined
+    if (cached?.chunks) {
+      logger.log(`[${this.getId()}] cache hit for ${chatModel.id}`)
+      for (const chunk of cached.chunks) {
+        yield chunk.type === 'usage' ? { ...chunk, usage: { ...chunk.usage, cached: true } } : chunk
+      }
+      return
+    }
+
+    // no cache
+    if (!key) {
+      yield* this.generateChunks(chatModel, thread, opts)
+      return
+    }
+
+    // record (retries are not worth replaying)
+    const chunks: LlmChunk[] = []
+    let completed = false
+    let interrupted = false
+    for await (const chunk of this.generateChunks(chatModel, thread, opts)) {
+      if (chunk.type !== 'retry') chunks.push(structuredClone(chunk))
+      if (chunk.type === 'content' && chunk.done) {
+        completed = chunk.finishReason === undefined || chunk.finishReason === 'stop' || chunk.finishReason === 'length'
+      }
+      if (chunk.type === 'budget_exceeded' || chunk.type === 'tool_limit' || chunk.type === 'tool_abort') {
+        interrupted = true
+      }
+      yield chunk
+    }
+
+    // only normally completed generations are stored (no finish reason = stop)
+    if (completed && !interrupted && !opts?.abortSignal?.aborted) {
+      await this.config.cache!.set(key, { chunks })
+    }
+
+  }
+
+  private async *generateChunks(chatModel: ChatModel, thread: Message[], opts?: LlmCompletionOpts): AsyncIterable<LlmChunk> {
+
+    // each provider request is traced until its stream ends
+    let context: LlmStreamingContext = { requestTrace: this.startRequestTrace(chatModel, opts) }
+
     try {
       
       // init the streaming
-      const chatModel = this.toModel(model)
-      const response: LlmStreamingResponse = await this.stream(chatModel, thread, opts)
+      thread = await this.trimThread(chatModel, thread, opts)
+      thread = this.addStructuredOutputInstructions(chatModel, thread, opts)
+      const response: LlmStreamingResponse = yield* this.withRetry(chatModel, () => this.stream(chatModel, thread, opts), opts)
+      response.context.requestTrace = context.requestTrace
+      context = response.context
       let currentStream: LlmStream = response.stream
+      let retries = 0
 
       // now we iterate as when the model emits tool call tokens
       // we execute the tools and start a new stream with the results
@@ -133,18 +423,54 @@ export default abstract class LlmEngine {
         // out next stream
         let nextStream: LlmStream | null = null
 
+        // did we forward anything from this stream
+        let forwarded = false
+
         // iterate the native stream (getting native = user-specific chunks)
-        for await (const chunk of currentStream) {
+        const iterator = currentStream[Symbol.asyncIterator]()
+        while (true) {
 
-          // Check if abort signal has been triggered
-          if (opts?.abortSignal?.aborted) {
-            currentStream.controller?.abort(opts?.abortSignal?.reason)
-            return
+          // native stream errors can be retried as long as we did not forward anything
+          let next: IteratorResult<any>
+          try {
+            next = await iterator.next()
+          } catch (error) {
+            const retry = forwarded ? null : this.getRetryChunk(error, ++retries, opts)
+            if (!retry) throw this.mapError(error, chatModel)
+            yield retry
+            await sleep(retry.delay, opts?.abortSignal)
+            if (opts?.abortSignal?.aborted) {
+              yield this.getAbortedChunk()
+              return
+            }
+            this.nextRequestTrace(response.context, chatModel, error)
+            nextStream = yield* this.withRetry(chatModel, () => this.doStream(response.context), opts, retries)
+            break
           }
 
-          // now we convert the native chunk to LlmChunks
-          // we may have several llm chunks for one native chunk
-          const llmChunkStream = this.nativeChunkToLlmChunk(chunk, response.context)
+          // done? unless a tool round was waiting for the end of the stream
+          let llmChunkStream: AsyncIterable<LlmChunk>
+          if (next.done) {
+
+            const toolCalls: LlmToolCall[]|undefined = response.context.deferredToolCalls
+            if (!toolCalls) break
+            delete response.context.deferredToolCalls
+            llmChunkStream = this.runToolRound(response.context, toolCalls)
+
+          } else {
+
+            // Check if abort signal has been triggered
+            if (opts?.abortSignal?.aborted) {
+              currentStream.controller?.abort(opts?.abortSignal?.reason)
+              yield this.getAbortedChunk()
+              return
+            }
+
+            // now we convert the native chunk to LlmChunks
+            // we may have several llm chunks for one native chunk
+            llmChunkStream = this.nativeChunkToLlmChunk(next.value, response.context)
+
+          }
 
           try {
             for await (const msg of llmChunkStream) {
@@ -157,20 +483,46 @@ export default abstract class LlmEngine {
 
               } else {
 
+                // out of budget while the model is still generating
+                if ((msg.type === 'content' || msg.type === 'reasoning') && !msg.done) {
+                  const budgetExceeded = this.checkBudget(chatModel, response.context.usage, opts)
+                  if (budgetExceeded) {
+                    currentStream.controller?.abort()
+                    yield budgetExceeded
+                    return
+                  }
+                }
+
                 // if we are switching to a new stream make sure we don't send a done message
                 // (anthropic sends a 'message_stop' message when finishing current stream for example)
-                if (nextStream !== null && msg.type === 'content' && msg.done) {
+                if ((nextStream !== null || response.context.deferredToolCalls) && msg.type === 'content' && msg.done) {
                   msg.done = false
                 }
 
+                // time to first chunk of this request
+                const trace: LlmRequestTrace|undefined = response.context.requestTrace
+                if (trace && !trace.firstChunk && this.isFirstChunk(msg)) {
+                  trace.span.setAttribute('llm.time_to_first_chunk_ms', Date.now() - trace.start)
+                  trace.firstChunk = true
+                }
+
                 // just forward the message
+                forwarded = true
+                retries = 0
                 yield msg
 
+                // budget exceeded at the end of a round: no more tool rounds
+                if (msg.type === 'budget_exceeded') {
+                  currentStream.controller?.abort()
+                  return
+                }
+
               }
 
               // Check abort AFTER yielding (so canceled tool chunks go through)
               if (opts?.abortSignal?.aborted) {
                 currentStream.controller?.abort(opts?.abortSignal?.reason)
+                yield this.getAbortedChunk()
                 return
               }
 
@@ -195,11 +547,165 @@ export default abstract class LlmEngine {
     } catch (error) {
       // Re-throw the error to ensure it propagates to the caller
       // This is critical for async generators - errors need explicit handling
+      this.endRequestTrace(context.requestTrace, error)
       throw error
+    } finally {
+      this.endRequestTrace(context.requestTrace)
     }
 
   }
 
+  protected startSpan(name: string, attributes: LlmSpanAttributes, parent?: LlmSpan): LlmSpan|undefined {
+    return this.config?.tracer?.startSpan(name, { attributes, parent })
+  }
+
+  protected getSpanAttributes(model: ChatModel): LlmSpanAttributes {
+    return {
+      'gen_ai.system': this.getId(),
+      'gen_ai.operation.name': 'chat',
+      'gen_ai.request.model': model.id,
+    }
+  }
+
+  protected startRequestTrace(model: ChatModel, opts?: LlmCompletionOpts): LlmRequestTrace|undefined {
+    const span = this.startSpan(`chat ${model.id}`, this.getSpanAttributes(model), opts?.parentSpan)
+    return span ? { span, start: Date.now(), firstChunk: false, ended: false } : undefined
+  }
+
+  protected endRequestTrace(trace: LlmRequestTrace|undefined, error?: any): void {
+    if (!trace || trace.ended) return
+    trace.ended = true
+    endSpan(trace.span, error)
+  }
+
+  // when a streaming conversation sends a new request (tool results or retry)
+  protected nextRequestTrace(context: LlmStreamingContext, model: ChatModel, error?: any): void {
+    this.endRequestTrace(context.requestTrace, error)
+    context.requestTrace = this.startRequestTrace(model, context.opts)
+  }
+
+  // final chunk when the caller aborts the generation
+  private getAbortedChunk(): LlmChunkContent {
+    return { type: 'content', text: '', done: true, ...getFinishReason('aborted') }
+  }
+
+  private isFirstChunk(chunk: LlmChunk): boolean {
+    return ((chunk.type === 'content' || chunk.type === 'reasoning') && chunk.text.length > 0) || chunk.type === 'tool'
+  }
+
+  protected getMiddlewareContext(model: ChatModel, opts?: LlmCompletionOpts): LlmMiddlewareContext {
+    return { provider: this.getId(), model: model, opts: opts ?? {} }
+  }
+
+  /**
+   * Runs the onRequest middlewares. Providers call this right before
+   * sending a request and use the returned values for this request only:
+   * the thread is a copy so the conversation state is not altered.
+   */
+  protected async prepareRequest(model: ChatModel, thread: any[], opts?: LlmCompletionOpts): Promise<LlmRequest> {
+    let request: LlmRequest = { model, thread, opts: opts ?? {} }
+    const middlewares = this.middlewares.filter((middleware) => middleware.onRequest)
+    if (!middlewares.length) {
+      return request
+    }
+    const context = this.getMiddlewareContext(model, opts)
+    request = { model, thread: structuredClone(thread), opts: { ...request.opts } }
+    for (const middleware of middlewares) {
+      request = await middleware.onRequest!(request, context) ?? request
+    }
+    return request
+  }
+
+  protected async applyChunkMiddlewares(chunk: LlmChunk, context: LlmMiddlewareContext): Promise<LlmChunk[]> {
+    let chunks: LlmChunk[] = [chunk]
+    for (const middleware of this.middlewares) {
+      if (!middleware.onChunk) continue
+      const transformed: LlmChunk[] = []
+      for (const chunk of chunks) {
+        const result = await middleware.onChunk(chunk, context)
+        if (result === undefined) transformed.push(chunk)
+        else if (Array.isArray(result)) transformed.push(...result)
+        else if (result !== null) transformed.push(result)
+      }
+      chunks = transformed
+    }
+    return chunks
+  }
+
+  protected async applyResponseMiddlewares(response: LlmResponse, context: LlmMiddlewareContext): Promise<LlmResponse> {
+    for (const middleware of this.middlewares) {
+      if (!middleware.onResponse) continue
+      response = await middleware.onResponse(response, context) ?? response
+    }
+    return response
+  }
+
+  // maps provider sdk errors to LlmError classes
+  protected mapError(error: any, model?: ChatModel): any {
+    return toLlmError(error, this.getId(), model?.id)
+  }
+
+  protected getRetryChunk(error: any, attempt: number, opts?: LlmCompletionOpts): LlmChunkRetry|null {
+
+    // check
+    const maxRetries = this.config.maxRetries ?? 2
+    const reason = getRetryReason(error)
+    if (!reason || attempt > maxRetries || opts?.abortSignal?.aborted) {
+      return null
+    }
+
+    // build
+    const delay = getRetryDelay(attempt, this.config.retryDelay ?? 1000, this.config.retryMaxDelay ?? 30000, getRetryAfter(error))
+    logger.log(`[${this.getId()}] ${reason} error: retrying in ${delay}ms (${attempt}/${maxRetries})`)
+    return {
+      type: 'retry',
+      reason: reason,
+      attempt: attempt,
+      maxRetries: maxRetries,
+      delay: delay,
+      status: getErrorStatus(error),
+      error: error instanceof Error ? error.message : String(error),
+    }
+
+  }
+
+  /**
+   * Runs a provider request and retries it on rate limits, server errors
+   * and connection failures. Yields a retry chunk before each new attempt.
+   */
+  protected async *withRetry<T>(model: ChatModel, request: () => Promise<T>, opts?: LlmCompletionOpts, retries: number = 0): AsyncGenerator<LlmChunkRetry, T> {
+    while (true) {
+      try {
+        return await request()
+      } catch (error) {
+        const retry = this.getRetryChunk(error, ++retries, opts)
+        if (!retry) throw this.mapError(error, model)
+        yield retry
+        await sleep(retry.delay, opts?.abortSignal)
+        if (opts?.abortSignal?.aborted) throw this.mapError(error, model)
+      }
+    }
+  }
+
+  // same as withRetry for non-streaming requests
+  protected async retry<T>(model: ChatModel, request: () => Promise<T>, opts?: LlmCompletionOpts): Promise<T> {
+    const trace = this.startRequestTrace(model, opts)
+    try {
+      const attempts = this.withRetry(model, request, opts)
+      while (true) {
+        const next = await attempts.next()
+        if (next.done) {
+          this.endRequestTrace(trace)
+          return next.value
+        }
+        trace?.span.setAttribute('llm.retries', next.value.attempt)
+      }
+    } catch (error) {
+      this.endRequestTrace(trace, error)
+      throw error
+    }
+  }
+
   protected requiresVisionModelSwitch(thread: Message[], currentModel: ChatModel): boolean {
     
     // if we already have a vision
@@ -290,10 +796,23 @@ export default abstract class LlmEngine {
     }
   }
 
-  protected async getAvailableTools(): Promise<LlmTool[]> {
+  // the plugins of the request replace the ones of the engine
+  protected getPlugins(opts?: LlmCompletionOpts): IPlugin[] {
+    return opts?.plugins ?? this.plugins
+  }
+
+  // allow and deny lists apply to tool names (each tool of a multi-tool plugin)
+  protected isToolAllowed(tool: string, opts?: LlmCompletionOpts): boolean {
+    if (opts?.allowedTools && !opts.allowedTools.includes(tool)) {
+      return false
+    }
+    return !opts?.deniedTools?.includes(tool)
+  }
+
+  protected async getAvailableTools(opts?: LlmCompletionOpts): Promise<LlmTool[]> {
 
     const tools: LlmTool[] = []
-    for (const plugin of this.plugins) {
+    for (const plugin of this.getPlugins(opts)) {
 
       // needs to be enabled
       if (!plugin.isEnabled()) {
@@ -318,13 +837,26 @@ export default abstract class LlmEngine {
         tools.push(this.getPluginAsTool(plugin as Plugin))
       }
     }
-    return tools
+    return tools.filter((tool) => this.isToolAllowed(tool.function.name, opts))
   }
 
   // this is the default implementation as per OpenAI API
   // it is now almost a de facto standard and other providers
   // are following it such as MistralAI and others
   protected getPluginAsTool(plugin: Plugin): LlmTool {
+
+    // schema provided by the plugin
+    if (plugin instanceof ZodPlugin) {
+      return {
+        type: 'function',
+        function: {
+          name: plugin.getName(),
+          description: plugin.getDescription(),
+          parameters: plugin.getParametersSchema(),
+        },
+      }
+    }
+
     return {
       type: 'function',
       function: {
@@ -375,15 +907,21 @@ export default abstract class LlmEngine {
     }
   }
 
-  protected getPluginForTool(tool: string): Plugin|null {
+  protected getPluginForTool(tool: string, opts?: LlmCompletionOpts): Plugin|null {
+
+    // not for this request
+    if (!this.isToolAllowed(tool, opts)) {
+      return null
+    }
 
-    const plugin = this.plugins.find((plugin) => plugin.getName() === tool)
+    const plugins = this.getPlugins(opts)
+    const plugin = plugins.find((plugin) => plugin.getName() === tool)
     if (plugin) {
       return plugin as Plugin
     }
 
     // try multi-tools
-    for (const plugin of Object.values(this.plugins)) {
+    for (const plugin of plugins) {
       if (plugin instanceof MultiToolPlugin) {
         const multiToolPlugin = plugin as MultiToolPlugin
         if (multiToolPlugin.handlesTool(tool)) {
@@ -397,23 +935,75 @@ export default abstract class LlmEngine {
 
   }
 
-  protected getToolPreparationDescription(tool: string): string {
-    const plugin = this.getPluginForTool(tool)
+  /**
+   * How structured output is obtained from a model: through the provider
+   * response format ('native'), as the input of a forced tool call ('tool')
+   * or by adding the JSON schema to the instructions ('prompt').
+   */
+  protected getStructuredOutputMode(model: ChatModel, opts?: LlmCompletionOpts): LlmStructuredOutputMode {
+    return 'native'
+  }
+
+  // the schema goes in the system prompt when the provider cannot enforce it
+  protected addStructuredOutputInstructions(model: ChatModel, thread: Message[], opts?: LlmCompletionOpts): Message[] {
+
+    if (!opts?.structuredOutput || this.getStructuredOutputMode(model, opts) !== 'prompt') {
+      return thread
+    }
+
+    // append to existing instructions or add some
+    const instructions = getStructuredOutputPrompt(opts.structuredOutput.structure)
+    if (thread[0]?.role === 'system') {
+      return [new Message('system', `${thread[0].contentForModel}\n\n${instructions}`), ...thread.slice(1)]
+    } else {
+      return [new Message('system', instructions), ...thread]
+    }
+
+  }
+
+  // the tool a model is forced to call with the answer as input
+  protected getStructuredOutputTool(structuredOutput: LlmStructuredOutput): LlmTool {
+    return {
+      type: 'function',
+      function: {
+        name: kStructuredOutputToolName,
+        description: `Provide the final answer as ${structuredOutput.name}`,
+        parameters: getStructuredOutputSchema(structuredOutput.structure) as LlmTool['function']['parameters'],
+      },
+    }
+  }
+
+  protected isStructuredOutputTool(model: ChatModel, tool: string, opts?: LlmCompletionOpts): boolean {
+    return tool === kStructuredOutputToolName && opts?.structuredOutput !== undefined && this.getStructuredOutputMode(model, opts) === 'tool'
+  }
+
+  // options a provider or model does not support are not sent
+  // they are reported once per model so tool rounds do not repeat it
+  protected warnUnsupportedOpts(model: ChatModel, opts: LlmCompletionOpts|undefined, names: (keyof LlmModelOpts)[]): void {
+    const unsupported = names.filter((name) => opts?.[name] !== undefined && !this.unsupportedOptsWarned.has(`${model.id}:${name}`))
+    if (unsupported.length) {
+      unsupported.forEach((name) => this.unsupportedOptsWarned.add(`${model.id}:${name}`))
+      logger.log(`[${this.getId()}] ${unsupported.join(', ')} not supported by ${model.id}: ignored`)
+    }
+  }
+
+  protected getToolPreparationDescription(tool: string, opts?: LlmCompletionOpts): string {
+    const plugin = this.getPluginForTool(tool, opts)
     return plugin?.getPreparationDescription(tool) || ''
   }
   
-  protected getToolRunningDescription(tool: string, args: any): string {
-    const plugin = this.getPluginForTool(tool)
+  protected getToolRunningDescription(tool: string, args: any, opts?: LlmCompletionOpts): string {
+    const plugin = this.getPluginForTool(tool, opts)
     return plugin?.getRunningDescription(tool, args) || ''
   }
 
-  protected getToolCompletedDescription(tool: string, args: any, results: any): string|undefined {
-    const plugin = this.getPluginForTool(tool)
+  protected getToolCompletedDescription(tool: string, args: any, results: any, opts?: LlmCompletionOpts): string|undefined {
+    const plugin = this.getPluginForTool(tool, opts)
     return plugin?.getCompletedDescription(tool, args, results)
   }
 
-  protected getToolCanceledDescription(tool: string, args: any): string|undefined {
-    const plugin = this.getPluginForTool(tool)
+  protected getToolCanceledDescription(tool: string, args: any, opts?: LlmCompletionOpts): string|undefined {
+    const plugin = this.getPluginForTool(tool, opts)
     return plugin?.getCanceledDescription(tool, args)
   }
 
@@ -422,7 +1012,7 @@ export default abstract class LlmEngine {
     toolName: string,
     params: any,
     lastUpdate: PluginExecutionResult|undefined
-  ): { content: any, canceled: boolean } {
+  ): { content: any, canceled: boolean, failed: boolean } {
 
     // Validate we got a result
     if (!lastUpdate) {
@@ -433,43 +1023,486 @@ export default abstract class LlmEngine {
     const content = lastUpdate.result || { error: 'No result from tool' }
     logger.log(`[${providerId}] tool call ${toolName} => ${JSON.stringify(content).substring(0, 128)}`)
 
-    // Handle abort decision - throw immediately
-    if (lastUpdate.validation?.decision === 'abort') {
+    // Handle abort decision (validation or tool error policy) - throw immediately
+    const abortReason = lastUpdate.validation?.decision === 'abort'
+      ? lastUpdate.validation
+      : lastUpdate.error?.decision === 'abort' ? { decision: 'abort' as const, reason: lastUpdate.error.message } : undefined
+    if (abortReason) {
       const toolAbort: LlmChunkToolAbort = {
         type: 'tool_abort',
         name: toolName,
         params: params,
-        reason: lastUpdate.validation,
+        reason: abortReason,
       }
       throw toolAbort
     }
 
     // Detect cancellation (deny or explicit cancel)
     const canceled = lastUpdate.canceled === true || lastUpdate.validation?.decision === 'deny'
+    const failed = lastUpdate.error !== undefined
 
-    return { content, canceled }
+    return { content, canceled, failed }
   }
 
-  protected async *callTool(context: PluginExecutionContext, tool: string, args: any, toolExecutionValidation: LlmToolExecutionValidationCallback|undefined): AsyncGenerator<PluginExecutionUpdate> {
+  // for providers that do not return ids for tool calls
+  protected generateToolCallId(): string {
+    return `call_${Math.random().toString(36).substring(2, 12)}`
+  }
 
-    // get the plugin
-    let payload = args
-    let toolOwner = this.plugins.find((plugin) => plugin.getName() === tool)
-    if (!toolOwner) {
+  protected getToolPreparationChunk(toolCall: LlmToolCall, opts?: LlmCompletionOpts): LlmChunkTool {
+    return {
+      type: 'tool',
+      id: toolCall.id,
+      name: toolCall.function,
+      state: 'preparing',
+      status: this.getToolPreparationDescription(toolCall.function, opts),
+      done: false
+    }
+  }
 
-      // try multi-tools
-      for (const plugin of Object.values(this.plugins)) {
-        if (plugin instanceof MultiToolPlugin) {
-          const multiToolPlugin = plugin as MultiToolPlugin
-          if (multiToolPlugin.handlesTool(tool)) {
-            toolOwner = plugin
-            payload = { tool: tool, parameters: args }
-            break
+  /**
+   * Executes the tool calls extracted from the native stream, adds the
+   * results to the thread (provider format) and switches to a new stream.
+   * Providers call this from nativeChunkToLlmChunk once the model is done
+   * emitting tool calls. When a budget is set, the round only starts once
+   * the native stream has ended so that its usage is known.
+   */
+  protected async *executeToolRound(context: LlmStreamingContext, toolCalls: LlmToolCall[]): AsyncGenerator<LlmChunk> {
+
+    // with a budget, wait for the end of the stream: some providers
+    // (openai, groq, mistral) send the usage after the finish reason
+    if (context.opts?.budget) {
+      context.deferredToolCalls = toolCalls
+      return
+    }
+
+    yield* this.runToolRound(context, toolCalls)
+
+  }
+
+  private async *runToolRound(context: LlmStreamingContext, toolCalls: LlmToolCall[]): AsyncGenerator<LlmChunk> {
+
+    // the request that produced the tool calls is done
+    this.endRequestTrace(context.requestTrace)
+
+    // out of budget: do not start another round
+    const budgetExceeded = this.checkBudget(context.model, context.usage, context.opts)
+    if (budgetExceeded) {
+      yield budgetExceeded
+      return
+    }
+
+    // check limits
+    context.toolRounds ??= { count: 0, signatures: [] }
+    const toolLimit = this.checkToolRounds(context.toolRounds, context.opts, toolCalls.map((toolCall) => ({
+      name: toolCall.function,
+      args: this.parseToolCallArgs(toolCall.args),
+    })))
+    if (toolLimit) {
+
+      // answer the tool calls without executing them
+      const results = yield* this.skipToolCalls(toolCalls, toolLimit)
+      this.addToolResultsToThread(context, results)
+
+      // force a final answer (without changing the caller options object)
+      context.opts = { ...context.opts, toolChoice: { type: 'none' } }
+
+      // switch to new stream
+      this.nextRequestTrace(context, context.model)
+      yield {
+        type: 'stream',
+        stream: yield* this.withRetry(context.model, () => this.doStream(context), context.opts),
+      }
+
+      // done
+      return
+
+    }
+
+    // execute the tools
+    const results = yield* this.executeToolCalls(context, toolCalls)
+
+    // check if canceled
+    if (context.opts?.abortSignal?.aborted) {
+      return  // Stop processing
+    }
+
+    // add messages in the original order
+    this.addToolResultsToThread(context, results)
+
+    // clear force tool call to avoid infinite loop
+    if (context.opts.toolChoice?.type === 'tool') {
+      delete context.opts.toolChoice
+    }
+
+    // switch to new stream
+    this.nextRequestTrace(context, context.model)
+    yield {
+      type: 'stream',
+      stream: yield* this.withRetry(context.model, () => this.doStream(context), context.opts),
+    }
+
+  }
+
+  /**
+   * Counts tool rounds and detects identical repeated calls (same tool, same
+   * args) when maxIdenticalToolCalls is set. Returns the chunk to emit when
+   * the round should not be executed.
+   */
+  protected checkToolRounds(rounds: LlmToolRounds, opts: LlmCompletionOpts|undefined, toolCalls: { name: string, args: any }[]): LlmChunkToolLimit|null {
+
+    // max rounds
+    if (opts?.maxToolRounds !== undefined && rounds.count >= opts.maxToolRounds) {
+      logger.log(`[${this.getId()}] maximum tool rounds reached (${opts.maxToolRounds})`)
+      return { type: 'tool_limit', reason: 'max_rounds', rounds: rounds.count }
+    }
+
+    // identical calls (only when asked: polling a tool is legitimate)
+    const signatures = toolCalls.map((toolCall) => `${toolCall.name}:${JSON.stringify(toolCall.args)}`)
+    const maxIdentical = opts?.maxIdenticalToolCalls
+    const repeated = maxIdentical === undefined ? -1 : signatures.findIndex((signature) => {
+      return rounds.signatures.filter((previous) => previous === signature).length >= maxIdentical
+    })
+    if (repeated !== -1) {
+      logger.log(`[${this.getId()}] tool call loop detected on ${toolCalls[repeated].name}`)
+      return { type: 'tool_limit', reason: 'loop', rounds: rounds.count, name: toolCalls[repeated].name, params: toolCalls[repeated].args }
+    }
+
+    // record
+    rounds.count++
+    rounds.signatures.push(...signatures)
+    return null
+
+  }
+
+  /**
+   * Checks the usage of the whole generation (tool rounds included) against
+   * the budget. Returns the chunk to emit when a limit has been crossed.
+   */
+  protected checkBudget(model: ChatModel, usage: LlmUsage|undefined, opts: LlmCompletionOpts|undefined): LlmChunkBudgetExceeded|null {
+
+    // we need both
+    const budget = opts?.budget
+    if (!budget || !usage) {
+      return null
+    }
+
+    // tokens
+    const current = this.addUsageCost(model, structuredClone(usage))
+    if (budget.maxTotalTokens !== undefined && totalTokens(current, this.getCostOpts()) > budget.maxTotalTokens) {
+      logger.log(`[${this.getId()}] token budget exceeded (${budget.maxTotalTokens})`)
+      return { type: 'budget_exceeded', reason: 'tokens', usage: current }
+    }
+
+    // cost: requires pricing for the model
+    if (budget.maxCost !== undefined && current.cost && current.cost.total > budget.maxCost) {
+      logger.log(`[${this.getId()}] cost budget exceeded (${budget.maxCost})`)
+      return { type: 'budget_exceeded', reason: 'cost', usage: current }
+    }
+
+    // all good
+    return null
+
+  }
+
+  protected checkChatToolRounds(thread: any[], opts: LlmCompletionOpts|undefined, toolCalls: { name: string, args: any }[]): LlmChunkToolLimit|null {
+    let rounds = this.chatToolRounds.get(thread)
+    if (!rounds) {
+      rounds = { count: 0, signatures: [] }
+      this.chatToolRounds.set(thread, rounds)
+    }
+    return this.checkToolRounds(rounds, opts, toolCalls)
+  }
+
+  // trivially broken json is fixed, the rest is reported to the model
+  protected parseToolCallArgs(args: string): any {
+    try {
+      return args?.length ? JSON.parse(args) : {}
+    } catch {
+      return repairJson(args) ?? args
+    }
+  }
+
+  // the error the model will see for skipped tool calls
+  protected getToolLimitError(toolLimit: LlmChunkToolLimit): string {
+    return toolLimit.reason === 'loop'
+      ? 'Tool call skipped: identical call already made. Answer with the information you have.'
+      : 'Tool call skipped: maximum number of tool calls reached. Answer with the information you have.'
+  }
+
+  // answers the tool calls without executing them
+  protected async *skipToolCalls(toolCalls: LlmToolCall[], toolLimit: LlmChunkToolLimit): AsyncGenerator<LlmChunk, LlmToolCallResult[]> {
+
+    // close the pending tool calls
+    const error = this.getToolLimitError(toolLimit)
+    const results: LlmToolCallResult[] = []
+    for (const toolCall of toolCalls) {
+      const args = this.parseToolCallArgs(toolCall.args)
+      results.push({ toolCall, args, content: { error }, canceled: true })
+      yield {
+        type: 'tool',
+        id: toolCall.id,
+        name: toolCall.function,
+        state: 'canceled',
+        status: error,
+        done: true,
+        call: {
+          params: args,
+          result: { error }
+        }
+      }
+    }
+
+    // notify
+    yield toolLimit
+
+    // done
+    return results
+
+  }
+
+  protected async *executeToolCalls(context: Pick<LlmStreamingContextBase, 'model'|'opts'>, toolCalls: LlmToolCall[]): AsyncGenerator<LlmChunk, LlmToolCallResult[]> {
+
+    // parse all arguments first
+    const calls = toolCalls.map((toolCall) => {
+      logger.log(`[${this.getId()}] tool call ${toolCall.function} with ${toolCall.args}`)
+      return { toolCall, args: this.parseToolCallArgs(toolCall.args) }
+    })
+
+    // sequential by default: each tool call runs in its own generator
+    // and we interleave the chunks they yield as they come
+    const concurrency = Math.max(1, context.opts?.toolConcurrency ?? 1)
+    const results: LlmToolCallResult[] = new Array(calls.length)
+    const running = new Map<number, {
+      iterator: AsyncGenerator<LlmChunk, LlmToolCallResult|undefined>
+      next: Promise<{ index: number, item: IteratorResult<LlmChunk, LlmToolCallResult|undefined> }>
+    }>()
+    let started = 0
+
+    // parallel calls are stopped when the caller aborts or when one of them aborts the round
+    const abortController = concurrency > 1 ? new AbortController() : undefined
+    const abortRound = () => abortController?.abort(context.opts?.abortSignal?.reason)
+    if (context.opts?.abortSignal?.aborted) abortRound()
+    if (abortController) context.opts?.abortSignal?.addEventListener('abort', abortRound, { once: true })
+
+    try {
+
+      while (true) {
+
+        // start as many tool calls as allowed (unless canceled)
+        while (running.size < concurrency && started < calls.length && !context.opts?.abortSignal?.aborted) {
+          const index = started++
+          const iterator = this.executeToolCall(context, calls[index].toolCall, calls[index].args, abortController?.signal)
+          running.set(index, { iterator, next: iterator.next().then((item) => ({ index, item })) })
+        }
+
+        // all done?
+        if (running.size === 0) {
+          break
+        }
+
+        // wait for the first tool call to make progress
+        const { index, item } = await Promise.race(Array.from(running.values()).map((r) => r.next))
+        if (item.done) {
+          if (item.value) results[index] = item.value
+          running.delete(index)
+        } else {
+          const current = running.get(index)!
+          current.next = current.iterator.next().then((item) => ({ index, item }))
+          yield item.value
+        }
+
+      }
+
+    } finally {
+
+      // one call threw (tool_abort) or the caller stopped: close the others
+      context.opts?.abortSignal?.removeEventListener('abort', abortRound)
+      if (running.size) abortController?.abort()
+      for (const { iterator, next } of running.values()) {
+        next.catch(() => {})
+        iterator.return(undefined).catch(() => {})
+      }
+
+    }
+
+    // results in the original call order
+    return results.filter((result) => result !== undefined)
+
+  }
+
+  protected async *executeToolCall(context: Pick<LlmStreamingContextBase, 'model'|'opts'>, toolCall: LlmToolCall, args: any, abortSignal?: AbortSignal): AsyncGenerator<LlmChunkTool, LlmToolCallResult> {
+
+    try {
+
+      // first notify
+      yield {
+        type: 'tool',
+        id: toolCall.id,
+        name: toolCall.function,
+        state: 'running',
+        status: this.getToolRunningDescription(toolCall.function, args, context.opts),
+        call: {
+          params: args,
+          result: undefined
+        },
+        done: false
+      }
+
+      // now execute
+      let lastUpdate: PluginExecutionResult|undefined = undefined
+      for await (const update of this.callTool(
+        { model: context.model.id, abortSignal: abortSignal ?? context.opts?.abortSignal },
+        toolCall.function, args,
+        context.opts?.toolExecutionValidation,
+        context.opts?.parentSpan,
+        context.opts,
+      )) {
+
+        if (update.type === 'status') {
+          yield {
+            type: 'tool',
+            id: toolCall.id,
+            name: toolCall.function,
+            state: 'running',
+            status: update.status,
+            call: {
+              params: args,
+              result: undefined
+            },
+            done: false
+          }
+
+        } else if (update.type === 'result') {
+          lastUpdate = update
+        }
+
+      }
+
+      // process result
+      const { content, canceled, failed } = this.processToolExecutionResult(
+        this.getId(),
+        toolCall.function,
+        args,
+        lastUpdate
+      )
+
+      // done
+      yield {
+        type: 'tool',
+        id: toolCall.id,
+        name: toolCall.function,
+        state: canceled ? 'canceled' : failed ? 'error' : 'completed',
+        status: canceled
+          ? this.getToolCanceledDescription(toolCall.function, args, context.opts) || content.error || 'Tool execution was canceled'
+          : failed ? content.error : this.getToolCompletedDescription(toolCall.function, args, content, context.opts),
+        done: true,
+        call: {
+          params: args,
+          result: content
+        }
+      }
+
+      // done
+      return { toolCall, args, content, canceled }
+
+    } catch (error) {
+
+      // check if this was an abort
+      if (context.opts?.abortSignal?.aborted) {
+        yield {
+          type: 'tool',
+          id: toolCall.id,
+          name: toolCall.function,
+          state: 'canceled',
+          status: this.getToolCanceledDescription(toolCall.function, args, context.opts),
+          done: true,
+          call: {
+            params: args,
+            result: undefined
           }
         }
+        return { toolCall, args, content: undefined, canceled: true }
+      }
+
+      // re-throw non-abort errors
+      throw error
+
+    }
+
+  }
+
+  protected async *callTool(context: PluginExecutionContext, tool: string, args: any, toolExecutionValidation: LlmToolExecutionValidationCallback|undefined, parentSpan?: LlmSpan, opts?: LlmCompletionOpts): AsyncGenerator<PluginExecutionUpdate> {
+
+    // trace the execution
+    const span = this.startSpan(`execute_tool ${tool}`, {
+      'gen_ai.system': this.getId(),
+      'gen_ai.operation.name': 'execute_tool',
+      'gen_ai.request.model': context.model,
+      'gen_ai.tool.name': tool,
+    }, parentSpan)
+    if (!span) {
+      yield* this.runTool(context, tool, args, toolExecutionValidation, opts)
+      return
+    }
+
+    let error: any = undefined
+    try {
+      for await (const update of this.runTool(context, tool, args, toolExecutionValidation, opts)) {
+        if (update.type === 'result') {
+          if (update.canceled) span.setAttribute('llm.tool.canceled', true)
+          if (update.result?.error) error = new Error(update.result.error)
+        }
+        yield update
       }
+    } catch (err) {
+      error = err
+      throw err
+    } finally {
+      endSpan(span, error)
+    }
+
+  }
+
+  /**
+   * Checks tool arguments against the schema the model was given: the zod
+   * schema of a ZodPlugin (args are then the parsed values) or the JSON
+   * schema of the tool. Arguments that are not JSON are always invalid.
+   */
+  protected async validateToolArgs(plugin: IPlugin, tool: string, args: any): Promise<{ args: any }|{ issues: string[] }> {
+
+    if (typeof args === 'string') {
+      return { issues: [`(root): Invalid JSON: ${args}`] }
+    }
+
+    if (plugin instanceof ZodPlugin) {
+      const result = plugin.getSchema().safeParse(args)
+      return result.success ? { args: result.data } : { issues: getSchemaIssues(result.error) }
+    }
+
+    const schema = await this.getToolSchema(plugin, tool)
+    const issues = schema ? validateJsonSchema(args, schema) : []
+    return issues.length ? { issues } : { args }
+
+  }
 
+  // vendor-specific tools are not described to the model
+  protected async getToolSchema(plugin: IPlugin, tool: string): Promise<any> {
+    if (!plugin.serializeInTools()) {
+      return null
+    }
+    if ('getTools' in plugin) {
+      const tools = [await (plugin as ICustomPlugin).getTools()].flat()
+      return tools.find((t: LlmTool) => t?.function?.name === tool)?.function?.parameters ?? null
     }
+    return this.getPluginAsTool(plugin as Plugin).function.parameters
+  }
+
+  private async *runTool(context: PluginExecutionContext, tool: string, args: any, toolExecutionValidation: LlmToolExecutionValidationCallback|undefined, opts: LlmCompletionOpts|undefined): AsyncGenerator<PluginExecutionUpdate> {
+
+    // get the plugin
+    const toolOwner: IPlugin|null = this.getPluginForTool(tool, opts)
+    const multiTool = toolOwner instanceof MultiToolPlugin && toolOwner.getName() !== tool
 
     // check
     if (!toolOwner) {
@@ -491,6 +1524,24 @@ export default abstract class LlmEngine {
       return
     }
 
+    // the model fixes invalid arguments unless the error policy aborts
+    // (retrying with the same arguments is pointless)
+    const checked = await this.validateToolArgs(toolOwner, tool, args)
+    if ('issues' in checked) {
+      const error = new LlmToolArgumentsError(`Invalid arguments for tool ${tool}: ${checked.issues.join(', ')}`, {
+        provider: this.getId(), model: context.model, tool, args: JSON.stringify(args),
+      })
+      const decision = await this.getToolErrorDecision(opts?.toolErrorPolicy, context, tool, args, error, 1)
+      logger.log(`[${this.getId()}] ${error.message} => ${decision}`)
+      yield {
+        type: 'result',
+        result: { error: `Invalid arguments for tool ${tool}. Fix them and try again.`, issues: checked.issues },
+        error: { message: error.message, decision: decision === 'retry' ? 'continue' : decision },
+      }
+      return
+    }
+    const payload = multiTool ? { tool: tool, parameters: checked.args } : checked.args
+
     // if we have validator, call it
     let validation: LlmToolExecutionValidationResponse | undefined = undefined
     if (toolExecutionValidation) {
@@ -505,50 +1556,193 @@ export default abstract class LlmEngine {
       }
     }
 
+    // limits: completion options first, then the plugin
+    const timeout = opts?.toolTimeout ?? toolOwner.getTimeout?.()
+    const maxResultSize = opts?.toolMaxResultSize ?? toolOwner.getMaxResultSize?.()
+
     // now we can run depending on plugin implementation
-    if ('executeWithUpdates' in toolOwner) {
+    for (let attempt = 1; ; attempt++) {
 
-      for await (const update of toolOwner.executeWithUpdates!(context, payload)) {
-        if (context.abortSignal?.aborted) {
+      // the plugin sees the timeout as an abort
+      const timeoutController = new AbortController()
+      const abortExecution = () => timeoutController.abort()
+      const timer = timeout ? setTimeout(abortExecution, timeout) : undefined
+      if (timer) context.abortSignal?.addEventListener('abort', abortExecution, { once: true })
+      const executionContext = timer ? { ...context, abortSignal: timeoutController.signal } : context
+      const executionSignal = timer ? timeoutController.signal : undefined
+
+      try {
+
+        if ('executeWithUpdates' in toolOwner) {
+
+          const updates = toolOwner.executeWithUpdates!(executionContext, payload)
+          while (true) {
+            const next = await runWithAbort(updates.next(), executionSignal)
+            if (next.done) break
+            if (context.abortSignal?.aborted) {
+              await updates.return(undefined)
+              yield {
+                type: 'result',
+                result: { error: 'Operation cancelled' },
+                canceled: true,
+                ...(validation !== undefined ? { validation } : {}),
+              }
+              return
+            }
+            yield next.value.type === 'result'
+              ? { ...next.value, result: this.limitToolResult(next.value.result, maxResultSize) }
+              : next.value
+          }
+
+        } else {
+
+          const result = await runWithAbort(toolOwner.execute(executionContext, payload), executionSignal)
           yield {
             type: 'result',
-            result: { error: 'Operation cancelled' },
-            canceled: true,
-          ...(validation !== undefined ? { validation } : {}),
+            result: this.limitToolResult(result, maxResultSize),
+            ...(validation !== undefined ? { validation } : {}),
           }
-          return
+
         }
-        yield update
-      }
 
-    } else {
+        return
 
-      // now we can run
-      try {
-        const result = await toolOwner.execute(context, payload)
-        yield {
-          type: 'result',
-          result: result,
-          ...(validation !== undefined ? { validation } : {}),
-        }
       } catch (error) {
+
         // Check if this was a cancellation
-        if (context.abortSignal?.aborted || (error instanceof Error && error.message === 'Operation cancelled')) {
+        const timedOut = timer !== undefined && timeoutController.signal.aborted && !context.abortSignal?.aborted
+        if (!timedOut && (context.abortSignal?.aborted || (error instanceof Error && error.message === 'Operation cancelled'))) {
           yield {
             type: 'result',
             result: { error: 'Operation cancelled' },
             canceled: true,
-          ...(validation !== undefined ? { validation } : {}),
+            ...(validation !== undefined ? { validation } : {}),
           }
-        } else {
-          throw error
+          return
+        }
+
+        // the policy decides
+        const failure = timedOut ? new Error(`Timed out after ${timeout} ms`) : error
+        const message = failure instanceof Error ? failure.message : String(failure)
+        const decision = await this.getToolErrorDecision(opts?.toolErrorPolicy, context, tool, payload, failure, attempt)
+        logger.log(`[${this.getId()}] tool ${tool} failed (attempt ${attempt}): ${message} => ${decision}`)
+        if (decision === 'retry') {
+          continue
         }
+
+        // the model (or the caller on abort) gets the error
+        yield {
+          type: 'result',
+          result: { error: `Tool ${tool} failed: ${message}` },
+          error: { message, decision },
+          ...(validation !== undefined ? { validation } : {}),
+        }
+        return
+
+      } finally {
+        clearTimeout(timer)
+        context.abortSignal?.removeEventListener('abort', abortExecution)
       }
 
     }
 
   }
 
+  // large results are cut (with a note) before they reach the thread
+  protected limitToolResult(result: any, maxResultSize: number|undefined): any {
+    if (!maxResultSize || result === undefined) {
+      return result
+    }
+    const serialized = typeof result === 'string' ? result : JSON.stringify(result)
+    if (serialized.length <= maxResultSize) {
+      return result
+    }
+    logger.log(`[${this.getId()}] tool result truncated from ${serialized.length} to ${maxResultSize} characters`)
+    return {
+      content: serialized.slice(0, maxResultSize),
+      truncated: `Result truncated to ${maxResultSize} of ${serialized.length} characters`,
+    }
+  }
+
+  // retries are capped whatever the policy says
+  protected async getToolErrorDecision(policy: LlmToolErrorPolicy|undefined, context: PluginExecutionContext, tool: string, args: any, error: any, attempt: number): Promise<LlmToolErrorDecision> {
+    const decision = typeof policy === 'function'
+      ? await policy(context, tool, args, error instanceof Error ? error : new Error(String(error)), attempt)
+      : policy ?? 'continue'
+    return decision === 'retry' && attempt >= kToolMaxAttempts ? 'continue' : decision
+  }
+
+  /**
+   * The cache key of a request: model, payload as sent to the provider,
+   * tool definitions and options that can change the answer. Returns null
+   * when no cache store is configured or the caller bypasses it.
+   */
+  protected async getCacheKey(operation: 'complete'|'generate', model: ChatModel, thread: Message[], opts?: LlmCompletionOpts): Promise<string|null> {
+
+    // opt-in
+    if (!this.config.cache || opts?.cache === false) {
+      return null
+    }
+
+    // callbacks and per-call objects are not part of the key
+    const { abortSignal, parentSpan, toolExecutionValidation, toolErrorPolicy, contextTrimming, cache, structuredOutput, plugins, ...keyOpts } = opts ?? {}
+    return await computeCacheKey({
+      operation: operation,
+      provider: this.getId(),
+      model: model.id,
+      payload: this.buildPayload(model, thread, opts),
+      tools: opts?.tools === false ? [] : await this.getAvailableTools(opts),
+      opts: keyOpts,
+      ...(structuredOutput ? { structuredOutput: { name: structuredOutput.name, schema: zodToJsonSchema(structuredOutput.structure) } } : {}),
+    })
+
+  }
+
+  // exact if a tokenizer was provided, estimated otherwise
+  countTokens(model: ChatModel|string, thread: Message[]): number {
+    return countMessagesTokens(this.toModel(model), thread, this.config.tokenizer)
+  }
+
+  // config overrides first, then the global price table
+  getModelPricing(model: ChatModel|string): LlmModelPricing|undefined {
+    const chatModel = this.toModel(model)
+    return findModelPricing(this.config.pricing, chatModel.id) ?? getModelPricing(this.getId(), chatModel.id)
+  }
+
+  // providers not following the openai way of reporting usage override this
+  protected getCostOpts(): LlmCostOpts {
+    return {}
+  }
+
+  protected addUsageCost(model: ChatModel, usage: LlmUsage): LlmUsage {
+    const pricing = this.getModelPricing(model)
+    if (!pricing) return usage
+    return { ...usage, cost: computeCost(usage, pricing, this.getCostOpts()) }
+  }
+
+  // trimming is done before building the payload so that strategies can be async
+  protected async trimThread(model: ChatModel, thread: Message[], opts?: LlmCompletionOpts): Promise<Message[]> {
+
+    // we need a strategy and a context window
+    if (!opts?.contextTrimming || !opts.contextWindowSize) {
+      return thread
+    }
+
+    // keep room for the answer
+    const maxTokens = opts.contextWindowSize - (opts.maxTokens ?? 0)
+    const countTokens = (messages: Message[]) => this.countTokens(model, messages)
+    const tokens = countTokens(thread)
+    if (tokens <= maxTokens) {
+      return thread
+    }
+
+    // trim
+    const trimmed = await opts.contextTrimming(thread, { model, maxTokens, countTokens })
+    logger.log(`[${this.getId()}] thread trimmed from ${thread.length} to ${trimmed.length} messages (${tokens} tokens for ${maxTokens} available)`)
+    return trimmed
+
+  }
+
   protected toModel(model: string|ChatModel): ChatModel {
     if (typeof model === 'object') {
       return model
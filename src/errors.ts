@@ -1,6 +1,186 @@
+import { getErrorStatus, getRetryAfter } from './retry'
+
 export class NotYetImplemented extends Error {
   constructor(feature: string) {
     super(`${feature} not yet implemented`)
     this.name = 'NotYetImplemented'
   }
 }
+
+export type LlmErrorOpts = {
+  provider: string
+  model?: string
+  status?: number
+  retryAfter?: number
+  cause?: unknown
+}
+
+export class LlmError extends Error {
+
+  provider: string
+  model?: string
+  status?: number
+
+  // in milliseconds
+  retryAfter?: number
+
+  constructor(message: string, opts: LlmErrorOpts) {
+    super(message, { cause: opts.cause })
+    this.name = 'LlmError'
+    this.provider = opts.provider
+    this.model = opts.model
+    this.status = opts.status
+    this.retryAfter = opts.retryAfter
+  }
+
+}
+
+export class LlmAuthError extends LlmError {
+  constructor(message: string, opts: LlmErrorOpts) {
+    super(message, opts)
+    this.name = 'LlmAuthError'
+  }
+}
+
+export class LlmRateLimitError extends LlmError {
+  constructor(message: string, opts: LlmErrorOpts) {
+    super(message, opts)
+    this.name = 'LlmRateLimitError'
+  }
+}
+
+export class LlmContextLengthError extends LlmError {
+  constructor(message: string, opts: LlmErrorOpts) {
+    super(message, opts)
+    this.name = 'LlmContextLengthError'
+  }
+}
+
+export class LlmContentFilterError extends LlmError {
+  constructor(message: string, opts: LlmErrorOpts) {
+    super(message, opts)
+    this.name = 'LlmContentFilterError'
+  }
+}
+
+export class LlmModelNotFoundError extends LlmError {
+  constructor(message: string, opts: LlmErrorOpts) {
+    super(message, opts)
+    this.name = 'LlmModelNotFoundError'
+  }
+}
+
+export class LlmToolArgumentsError extends LlmError {
+
+  tool: string
+  args: string
+
+  constructor(message: string, opts: LlmErrorOpts & { tool: string, args: string }) {
+    super(message, opts)
+    this.name = 'LlmToolArgumentsError'
+    this.tool = opts.tool
+    this.args = opts.args
+  }
+
+}
+
+export class LlmStructuredOutputError extends LlmError {
+
+  content: string
+  issues: string[]
+
+  constructor(message: string, opts: LlmErrorOpts & { content: string, issues: string[] }) {
+    super(message, opts)
+    this.name = 'LlmStructuredOutputError'
+    this.content = opts.content
+    this.issues = opts.issues
+  }
+
+}
+
+export class LlmSchemaError extends LlmError {
+
+  // where in the schema (tool.property.property...)
+  path: string
+
+  constructor(message: string, opts: LlmErrorOpts & { path: string }) {
+    super(message, opts)
+    this.name = 'LlmSchemaError'
+    this.path = opts.path
+  }
+
+}
+
+const kAuthCodes = ['invalid_api_key', 'authentication_error', 'permission_error', 'UNAUTHENTICATED', 'PERMISSION_DENIED']
+const kNotFoundCodes = ['model_not_found', 'not_found_error', 'NOT_FOUND']
+const kContextLengthCodes = ['context_length_exceeded', 'string_above_max_length']
+const kContentFilterCodes = ['content_filter', 'content_policy_violation']
+
+const kAuthMessages = /api[ _-]?key not valid|invalid[ _-]?api[ _-]?key|incorrect api key|unauthorized|authentication/i
+const kContextLengthMessages = /context[ _]length|context window|maximum context|prompt is too long|too many (input )?tokens|exceeds? the (maximum|max) (number of )?tokens|input (is )?too long|reduce the length/i
+const kContentFilterMessages = /content[ _]filter|content (management )?polic|safety (system|settings)|flagged/i
+const kModelNotFoundMessages = /model .*(not found|does not exist)|(unknown|invalid) model/i
+
+// the different SDKs store the error code in different places
+const getErrorCodes = (error: any): string[] => {
+  return [
+    error?.code,
+    error?.type,
+    error?.error?.code,
+    error?.error?.type,
+    error?.error?.status,
+    error?.error?.error?.type,
+  ].filter((code) => typeof code === 'string')
+}
+
+// maps an error thrown by a provider SDK to the matching LlmError class
+export const toLlmError = (error: any, provider: string, model?: string): any => {
+
+  // already mapped or canceled: nothing to do
+  if (error instanceof LlmError || error?.name === 'AbortError' || error?.name === 'APIUserAbortError') {
+    return error
+  }
+
+  // not an sdk error
+  const status = getErrorStatus(error)
+  if (!(error instanceof Error) && status === undefined) {
+    return error
+  }
+
+  // common
+  const codes = getErrorCodes(error)
+  const message: string = error?.message ?? String(error)
+  const opts: LlmErrorOpts = {
+    provider: provider,
+    model: model,
+    status: status,
+    retryAfter: getRetryAfter(error),
+    cause: error,
+  }
+
+  // the order matters: a context length error is also a 400
+  if (status === 401 || status === 403 || codes.some((c) => kAuthCodes.includes(c)) || (status === 400 && kAuthMessages.test(message))) {
+    return new LlmAuthError(message, opts)
+  }
+  if (status === 429 || codes.includes('rate_limit_error') || codes.includes('RESOURCE_EXHAUSTED')) {
+    return new LlmRateLimitError(message, opts)
+  }
+  if (codes.some((c) => kContextLengthCodes.includes(c)) || status === 413 || kContextLengthMessages.test(message)) {
+    return new LlmContextLengthError(message, opts)
+  }
+  if (codes.some((c) => kContentFilterCodes.includes(c)) || kContentFilterMessages.test(message)) {
+    return new LlmContentFilterError(message, opts)
+  }
+  if (codes.some((c) => kNotFoundCodes.includes(c)) || status === 404 || kModelNotFoundMessages.test(message)) {
+    return new LlmModelNotFoundError(message, opts)
+  }
+
+  // other http or network errors
+  if (status !== undefined || error.constructor !== Error || error.cause !== undefined) {
+    return new LlmError(message, opts)
+  }
+
+  // plain error
+  return error
+
+}
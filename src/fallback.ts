@@ -0,0 +1,125 @@
+import LlmEngine from './engine'
+import { LlmAuthError, LlmContextLengthError, LlmError, LlmRateLimitError } from './errors'
+import logger from './logger'
+import Message from './models/message'
+import { Plugin } from './plugin'
+import { ChatModel } from './types'
+import { LlmChunk, LlmChunkProvider, LlmCompletionOpts, LlmResponse } from './types/llm'
+
+export type LlmFallbackTarget = {
+  engine: LlmEngine
+  model: string|ChatModel
+}
+
+export default class LlmFallbackModel {
+
+  targets: LlmFallbackTarget[]
+
+  constructor(targets: LlmFallbackTarget[]) {
+    if (!targets.length) {
+      throw new Error('LlmFallbackModel requires at least one engine and model')
+    }
+    this.targets = targets
+  }
+
+  get plugins() {
+    return this.targets[0].engine.plugins
+  }
+
+  clearPlugins(): void {
+    for (const engine of this.engines) {
+      engine.clearPlugins()
+    }
+  }
+
+  addPlugin(plugin: Plugin): void {
+    for (const engine of this.engines) {
+      engine.addPlugin(plugin)
+    }
+  }
+
+  async complete<T = any>(thread: Message[], opts?: LlmCompletionOpts<T>): Promise<LlmResponse<T>> {
+
+    let lastError: any = null
+    for (const [index, target] of this.targets.entries()) {
+      try {
+        const response = await target.engine.complete(target.model, thread, opts)
+        return { ...response, provider: this.getProviderInfo(target, index) }
+      } catch (error) {
+        if (!this.shouldFallback(error, index, opts)) throw error
+        this.logFallback(target, error)
+        lastError = error
+      }
+    }
+
+    // all targets failed
+    throw lastError
+
+  }
+
+  async *generate(thread: Message[], opts?: LlmCompletionOpts): AsyncIterable<LlmChunk> {
+
+    let lastError: any = null
+    for (const [index, target] of this.targets.entries()) {
+
+      // once something else than a retry notification has been
+      // yielded, the caller relies on this target so we cannot switch
+      let committed = false
+      try {
+        for await (const chunk of target.engine.generate(target.model, thread, opts)) {
+          if (!committed && chunk.type !== 'retry') {
+            committed = true
+            yield { type: 'provider', ...this.getProviderInfo(target, index) }
+          }
+          yield chunk
+        }
+        return
+      } catch (error) {
+        if (committed || !this.shouldFallback(error, index, opts)) throw error
+        this.logFallback(target, error)
+        lastError = error
+      }
+    }
+
+    // all targets failed
+    throw lastError
+
+  }
+
+  protected shouldFallback(error: any, index: number, opts?: LlmCompletionOpts): boolean {
+
+    // nothing left to try or canceled
+    if (index === this.targets.length - 1 || opts?.abortSignal?.aborted) {
+      return false
+    }
+
+    // errors the next provider may not have
+    if (error instanceof LlmAuthError || error instanceof LlmRateLimitError || error instanceof LlmContextLengthError) {
+      return true
+    }
+    if (error instanceof LlmError && error.status !== undefined && error.status >= 500 && error.status <= 599) {
+      return true
+    }
+
+    // not worth trying another provider
+    return false
+
+  }
+
+  private get engines(): LlmEngine[] {
+    return [...new Set(this.targets.map((t) => t.engine))]
+  }
+
+  private getModelId(target: LlmFallbackTarget): string {
+    return typeof target.model === 'string' ? target.model : target.model.id
+  }
+
+  private getProviderInfo(target: LlmFallbackTarget, index: number): Omit<LlmChunkProvider, 'type'> {
+    return { provider: target.engine.getId(), model: this.getModelId(target), fallbacks: index }
+  }
+
+  private logFallback(target: LlmFallbackTarget, error: any): void {
+    logger.log(`[fallback] ${target.engine.getId()}/${this.getModelId(target)} failed (${error.message}), trying next model`)
+  }
+
+}
@@ -0,0 +1,59 @@
+
+import { LlmFinishReason } from './types/llm'
+
+// raw values of all providers (lowercase)
+const kFinishReasons: Record<string, LlmFinishReason> = {
+
+  // openai and compatible, mistral, ollama
+  stop: 'stop',
+  eos: 'stop',
+  length: 'length',
+  model_length: 'length',
+  tool_calls: 'tool_calls',
+  function_call: 'tool_calls',
+  content_filter: 'content_filter',
+  error: 'error',
+
+  // openai responses api
+  completed: 'stop',
+  max_output_tokens: 'length',
+  failed: 'error',
+  cancelled: 'aborted',
+
+  // anthropic
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  pause_turn: 'stop',
+  max_tokens: 'length',
+  model_context_window_exceeded: 'length',
+  tool_use: 'tool_calls',
+  refusal: 'refusal',
+
+  // google
+  finish_reason_unspecified: 'stop',
+  safety: 'content_filter',
+  recitation: 'content_filter',
+  language: 'content_filter',
+  blocklist: 'content_filter',
+  prohibited_content: 'content_filter',
+  spii: 'content_filter',
+  image_safety: 'content_filter',
+  malformed_function_call: 'error',
+  unexpected_tool_call: 'error',
+  other: 'error',
+
+  // engine
+  aborted: 'aborted',
+
+}
+
+// unknown values are considered a normal stop
+export const normalizeFinishReason = (raw: string): LlmFinishReason => {
+  return kFinishReasons[raw.toLowerCase()] ?? 'stop'
+}
+
+// to be spread in responses and final chunks
+export const getFinishReason = (raw: string|null|undefined): { finishReason?: LlmFinishReason, rawFinishReason?: string } => {
+  if (!raw) return {}
+  return { finishReason: normalizeFinishReason(raw), rawFinishReason: raw }
+}
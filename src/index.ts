@@ -5,12 +5,23 @@ export * from './types/llm'
 import Attachment, { textFormats, imageFormats, extensionToMimeType, mimeTypeToExtension } from './models/attachment'
 import Message from './models/message'
 
-import { Plugin, CustomToolPlugin, MultiToolPlugin } from './plugin'
+import { Plugin, CustomToolPlugin, MultiToolPlugin, ZodPlugin } from './plugin'
 
 import { addUsages } from './usage'
+import { getErrorStatus, getRetryAfter, getRetryReason } from './retry'
+import { estimateTokens } from './tokens'
+import { computeCost, getModelPricing, setModelPricing, clearModelPricing, LlmCostOpts, LlmPricingTable } from './pricing'
+import { LlmMemoryCache, LlmFileCache, computeCacheKey } from './cache'
+import { normalizeFinishReason } from './finish'
+import { parseStructuredOutput, LlmStructuredOutputResult } from './structured'
+import { PartialJsonParser, parsePartialJson } from './partial'
+import { McpClient, McpPlugin, McpServer, McpStdioServer, McpHttpServer, McpTool, McpProgress, McpCallOpts } from './mcp'
+import { splitTurns, dropOldestTurns, keepLastTurns, summarizeMiddle, LlmSummarizer, LlmSummarizeMiddleOpts, LlmThreadTurns } from './trimming'
 
 import LlmEngine from './engine'
 import LlmModel from './model'
+import LlmFallbackModel, { LlmFallbackTarget } from './fallback'
+import LlmRecorder, { LlmFixture, LlmFixtureRequest } from './recorder'
 
 import Azure from './providers/azure'
 import Anthropic from './providers/anthropic'
@@ -21,12 +32,14 @@ import Groq from './providers/groq'
 import LMStudio from './providers/lmstudio'
 import Meta from './providers/meta'
 import MistralAI from './providers/mistralai'
+import MockEngine, { LlmMockChunk, LlmMockEngineOpts, LlmMockRequest, LlmMockResponse } from './providers/mock'
 import Ollama from './providers/ollama'
 import OpenAI from './providers/openai'
 import OpenRouter from './providers/openrouter'
 import XAI, { xAIBaseURL } from './providers/xai'
 
 export * from './llm'
+export * from './errors'
 
 import * as _logger from './logger'
 const logger = {
@@ -49,10 +62,17 @@ export {
   Plugin,
   CustomToolPlugin,
   MultiToolPlugin,
+  ZodPlugin,
+  McpPlugin,
+  McpClient,
   Message,
   Attachment,
   LlmEngine,
   LlmModel,
+  LlmFallbackModel,
+  LlmRecorder,
+  LlmMemoryCache,
+  LlmFileCache,
   Azure,
   Anthropic,
   Cerebras,
@@ -62,6 +82,7 @@ export {
   LMStudio,
   Meta,
   MistralAI,
+  MockEngine,
   Ollama,
   OpenAI,
   OpenRouter,
@@ -72,5 +93,44 @@ export {
   extensionToMimeType,
   mimeTypeToExtension,
   defaultCapabilities,
-  addUsages
+  addUsages,
+  getErrorStatus,
+  getRetryAfter,
+  getRetryReason,
+  estimateTokens,
+  computeCost,
+  getModelPricing,
+  setModelPricing,
+  clearModelPricing,
+  computeCacheKey,
+  normalizeFinishReason,
+  parseStructuredOutput,
+  PartialJsonParser,
+  parsePartialJson,
+  splitTurns,
+  dropOldestTurns,
+  keepLastTurns,
+  summarizeMiddle,
+}
+
+export type {
+  LlmCostOpts,
+  LlmFallbackTarget,
+  LlmFixture,
+  LlmFixtureRequest,
+  LlmMockChunk,
+  LlmMockEngineOpts,
+  LlmMockRequest,
+  LlmMockResponse,
+  LlmPricingTable,
+  LlmStructuredOutputResult,
+  LlmSummarizer,
+  LlmSummarizeMiddleOpts,
+  LlmThreadTurns,
+  McpServer,
+  McpStdioServer,
+  McpHttpServer,
+  McpTool,
+  McpProgress,
+  McpCallOpts,
 }
@@ -0,0 +1,571 @@
+import { LlmTool } from './types/llm'
+import { PluginExecutionContext, PluginExecutionUpdate } from './types/plugin'
+import { MultiToolPlugin } from './plugin'
+import logger from './logger'
+
+// spawned process speaking json-rpc on stdin/stdout (node only)
+export type McpStdioServer = {
+  type: 'stdio'
+  command: string
+  args?: string[]
+  env?: Record<string, string>
+  cwd?: string
+}
+
+// streamable http endpoint
+export type McpHttpServer = {
+  type: 'http'
+  url: string
+  headers?: Record<string, string>
+}
+
+export type McpServer = McpStdioServer | McpHttpServer
+
+export type McpTool = {
+  name: string
+  description?: string
+  inputSchema: any
+}
+
+export type McpProgress = {
+  progress: number
+  total?: number
+  message?: string
+}
+
+export type McpCallOpts = {
+  abortSignal?: AbortSignal
+  onProgress?: (progress: McpProgress) => void
+}
+
+const kMcpProtocolVersion = '2025-06-18'
+
+type JsonRpcId = number|string
+
+type JsonRpcMessage = {
+  jsonrpc: '2.0'
+  id?: JsonRpcId
+  method?: string
+  params?: any
+  result?: any
+  error?: { code: number, message: string, data?: any }
+}
+
+interface McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void
+  onclose?: (error?: Error) => void
+  onerror?: (id: JsonRpcId, error: Error) => void
+  start(): Promise<void>
+  send(message: JsonRpcMessage): Promise<void>
+  close(): Promise<void>
+}
+
+//
+// newline-delimited json over the stdio of a child process
+//
+
+class McpStdioTransport implements McpTransport {
+
+  onmessage?: (message: JsonRpcMessage) => void
+  onclose?: (error?: Error) => void
+  private server: McpStdioServer
+  private process: any
+  private buffer: string
+
+  constructor(server: McpStdioServer) {
+    this.server = server
+    this.buffer = ''
+  }
+
+  async start(): Promise<void> {
+
+    const { spawn } = await import('node:child_process')
+    this.process = spawn(this.server.command, this.server.args ?? [], {
+      cwd: this.server.cwd,
+      env: { ...process.env, ...this.server.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    })
+
+    // one message per line
+    this.process.stdout.setEncoding('utf-8')
+    this.process.stdout.on('data', (data: string) => {
+      this.buffer += data
+      let index: number
+      while ((index = this.buffer.indexOf('\n')) !== -1) {
+        const line = this.buffer.slice(0, index).trim()
+        this.buffer = this.buffer.slice(index + 1)
+        if (line) this.receive(line)
+      }
+    })
+
+    // servers log on stderr
+    this.process.stderr.on('data', (data: Buffer) => {
+      logger.log(`[mcp] ${data.toString().trim()}`)
+    })
+
+    this.process.on('close', () => this.onclose?.())
+
+    // writing to a process that exited fails with EPIPE
+    this.process.stdin.on('error', (error: Error) => this.onclose?.(error))
+
+    // fails if the command cannot be spawned
+    await new Promise<void>((resolve, reject) => {
+      this.process.once('spawn', resolve)
+      this.process.once('error', (error: Error) => {
+        this.onclose?.(error)
+        reject(error)
+      })
+    })
+
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    this.process.stdin.write(`${JSON.stringify(message)}\n`)
+  }
+
+  async close(): Promise<void> {
+    this.process?.stdin.end()
+    this.process?.kill()
+  }
+
+  private receive(line: string): void {
+    try {
+      this.onmessage?.(JSON.parse(line))
+    } catch {
+      logger.log(`[mcp] invalid message: ${line}`)
+    }
+  }
+
+}
+
+//
+// each message is POSTed: the answer is json or an event stream
+// carrying the notifications followed by the response
+//
+
+class McpHttpTransport implements McpTransport {
+
+  onmessage?: (message: JsonRpcMessage) => void
+  onclose?: (error?: Error) => void
+  onerror?: (id: JsonRpcId, error: Error) => void
+  protocolVersion?: string
+  private server: McpHttpServer
+  private sessionId?: string
+
+  constructor(server: McpHttpServer) {
+    this.server = server
+  }
+
+  async start(): Promise<void> {
+    // nothing to do: the session starts with the first post
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+
+    const response = await fetch(this.server.url, {
+      method: 'POST',
+      headers: this.getHeaders({
+        'Content-Type': 'application/json',
+        'Accept': 'application/json, text/event-stream',
+      }),
+      body: JSON.stringify(message),
+    })
+
+    // the server assigns the session on initialize
+    this.sessionId = response.headers.get('mcp-session-id') ?? this.sessionId
+    if (!response.ok) {
+      throw new Error(`MCP server returned ${response.status} ${response.statusText}`)
+    }
+
+    // a request still pending once the post is processed will never be answered
+    const unanswered = (error: Error) => {
+      if (message.id !== undefined) this.onerror?.(message.id, error)
+    }
+
+    // notifications and responses are accepted without content
+    const contentType = response.headers.get('content-type') ?? ''
+    if (response.status === 202 || !response.body) {
+      unanswered(new Error('MCP server did not answer the request'))
+      return
+    }
+
+    // the stream is read in the background: the response comes last
+    if (contentType.includes('text/event-stream')) {
+      this.readEvents(response.body).then(() => {
+        unanswered(new Error('MCP event stream ended without a response'))
+      }).catch((error) => {
+        logger.log(`[mcp] event stream error: ${error.message}`)
+        unanswered(error)
+      })
+    } else if (contentType.includes('application/json')) {
+      const messages = [await response.json()].flat()
+      messages.forEach((message) => this.onmessage?.(message))
+      unanswered(new Error('MCP server did not answer the request'))
+    } else {
+      unanswered(new Error(`MCP server returned an unsupported content type: ${contentType}`))
+    }
+
+  }
+
+  async close(): Promise<void> {
+    if (this.sessionId) {
+      await fetch(this.server.url, { method: 'DELETE', headers: this.getHeaders({}) }).catch(() => {})
+      this.sessionId = undefined
+    }
+    this.onclose?.()
+  }
+
+  private getHeaders(headers: Record<string, string>): Record<string, string> {
+    return {
+      ...this.server.headers,
+      ...headers,
+      ...(this.sessionId ? { 'Mcp-Session-Id': this.sessionId } : {}),
+      ...(this.protocolVersion ? { 'MCP-Protocol-Version': this.protocolVersion } : {}),
+    }
+  }
+
+  private async readEvents(body: ReadableStream<Uint8Array>): Promise<void> {
+
+    const reader = body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+
+    while (true) {
+
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n')
+
+      // events are separated by a blank line
+      let index: number
+      while ((index = buffer.indexOf('\n\n')) !== -1) {
+        const event = buffer.slice(0, index)
+        buffer = buffer.slice(index + 2)
+        const data = event.split('\n').filter((line) => line.startsWith('data:')).map((line) => line.slice(5).trim()).join('\n')
+        if (data) {
+          this.onmessage?.(JSON.parse(data))
+        }
+      }
+
+    }
+
+  }
+
+}
+
+//
+// minimal model context protocol client: tools only
+//
+
+export class McpClient {
+
+  server: McpServer
+  serverInfo?: { name: string, version: string }
+  instructions?: string
+  onToolsChanged?: () => void
+  private transport: McpTransport|null
+  private nextId: number
+  private pending: Map<JsonRpcId, { resolve: (result: any) => void, reject: (error: Error) => void }>
+  private progress: Map<JsonRpcId, (progress: McpProgress) => void>
+
+  constructor(server: McpServer) {
+    this.server = server
+    this.transport = null
+    this.nextId = 1
+    this.pending = new Map()
+    this.progress = new Map()
+  }
+
+  get connected(): boolean {
+    return this.transport !== null
+  }
+
+  async connect(): Promise<void> {
+
+    // transport (a transport closing late must not disconnect the next one)
+    const transport: McpTransport = this.server.type === 'stdio' ? new McpStdioTransport(this.server) : new McpHttpTransport(this.server)
+    transport.onmessage = (message) => this.receive(message)
+    transport.onclose = (error) => { if (this.transport === transport) this.disconnected(error) }
+    transport.onerror = (id, error) => this.settle(id)?.reject(error)
+    this.transport = transport
+
+    try {
+
+      // handshake
+      await transport.start()
+      const result = await this.request('initialize', {
+        protocolVersion: kMcpProtocolVersion,
+        capabilities: {},
+        clientInfo: { name: 'multi-llm-ts', version: '1.0.0' },
+      })
+      this.serverInfo = result.serverInfo
+      this.instructions = result.instructions
+      if (transport instanceof McpHttpTransport) {
+        transport.protocolVersion = result.protocolVersion
+      }
+      await this.notify('notifications/initialized')
+
+    } catch (error) {
+
+      // not connected: the next call will try again
+      if (this.transport === transport) this.transport = null
+      await transport.close().catch(() => {})
+      throw error
+
+    }
+
+  }
+
+  async close(): Promise<void> {
+    const transport = this.transport
+    this.transport = null
+    await transport?.close()
+  }
+
+  async listTools(): Promise<McpTool[]> {
+    const tools: McpTool[] = []
+    let cursor: string|undefined = undefined
+    do {
+      const result: any = await this.request('tools/list', cursor ? { cursor } : {})
+      tools.push(...result.tools)
+      cursor = result.nextCursor
+    } while (cursor)
+    return tools
+  }
+
+  // raw result: content, structuredContent and isError
+  async callTool(name: string, args: any, opts?: McpCallOpts): Promise<any> {
+    return await this.request('tools/call', { name, arguments: args ?? {} }, opts)
+  }
+
+  async request(method: string, params?: any, opts?: McpCallOpts): Promise<any> {
+
+    if (!this.transport) {
+      throw new Error('MCP client is not connected')
+    }
+
+    // progress notifications use the request id as token
+    const id = this.nextId++
+    if (opts?.onProgress) {
+      this.progress.set(id, opts.onProgress)
+      params = { ...params, _meta: { ...params?._meta, progressToken: id } }
+    }
+
+    // abort = cancel on the server side
+    const onAbort = () => {
+      this.notify('notifications/cancelled', { requestId: id, reason: 'Operation cancelled' }).catch(() => {})
+      this.settle(id)?.reject(new Error('Operation cancelled'))
+    }
+
+    try {
+      return await new Promise((resolve, reject) => {
+        if (opts?.abortSignal?.aborted) {
+          reject(new Error('Operation cancelled'))
+          return
+        }
+        this.pending.set(id, { resolve, reject })
+        opts?.abortSignal?.addEventListener('abort', onAbort, { once: true })
+        this.transport!.send({ jsonrpc: '2.0', id, method, ...(params !== undefined ? { params } : {}) }).catch((error) => {
+          this.settle(id)?.reject(error)
+        })
+      })
+    } finally {
+      opts?.abortSignal?.removeEventListener('abort', onAbort)
+      this.progress.delete(id)
+    }
+
+  }
+
+  async notify(method: string, params?: any): Promise<void> {
+    await this.transport?.send({ jsonrpc: '2.0', method, ...(params !== undefined ? { params } : {}) })
+  }
+
+  private receive(message: JsonRpcMessage): void {
+
+    // response to one of our requests
+    if (message.id !== undefined && !message.method) {
+      const pending = this.settle(message.id)
+      if (message.error) {
+        pending?.reject(new Error(`MCP error ${message.error.code}: ${message.error.message}`))
+      } else {
+        pending?.resolve(message.result)
+      }
+      return
+    }
+
+    // request from the server: only ping is supported
+    if (message.id !== undefined) {
+      this.transport?.send(message.method === 'ping'
+        ? { jsonrpc: '2.0', id: message.id, result: {} }
+        : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } }
+      ).catch(() => {})
+      return
+    }
+
+    // notifications
+    if (message.method === 'notifications/progress') {
+      const { progressToken, ...progress } = message.params ?? {}
+      this.progress.get(progressToken)?.(progress)
+    } else if (message.method === 'notifications/tools/list_changed') {
+      this.onToolsChanged?.()
+    }
+
+  }
+
+  private settle(id: JsonRpcId) {
+    const pending = this.pending.get(id)
+    this.pending.delete(id)
+    return pending
+  }
+
+  private disconnected(error?: Error): void {
+    this.transport = null
+    for (const id of Array.from(this.pending.keys())) {
+      this.settle(id)?.reject(error ?? new Error('MCP connection closed'))
+    }
+  }
+
+}
+
+//
+// the tools of an mcp server as a multi-tool plugin: the server is
+// started (or contacted) when the tools are first listed
+//
+
+export class McpPlugin extends MultiToolPlugin {
+
+  name: string
+  client: McpClient
+  private connecting: Promise<void>|null
+  private refreshing: Promise<void>|null
+  private tools: McpTool[]|null
+
+  constructor(name: string, server: McpServer) {
+    super()
+    this.name = name
+    this.client = new McpClient(server)
+    this.client.onToolsChanged = () => { this.refreshing = this.refreshTools() }
+    this.connecting = null
+    this.refreshing = null
+    this.tools = null
+  }
+
+  getName(): string {
+    return this.name
+  }
+
+  getDescription(): string {
+    return this.client.instructions || `Tools of the ${this.name} MCP server`
+  }
+
+  getRunningDescription(tool: string): string {
+    return `Running ${tool}`
+  }
+
+  async connect(): Promise<void> {
+    if (!this.client.connected) {
+      this.connecting ??= this.client.connect().finally(() => { this.connecting = null })
+      await this.connecting
+    }
+  }
+
+  async close(): Promise<void> {
+    this.tools = null
+    await this.client.close()
+  }
+
+  async getTools(): Promise<LlmTool[]> {
+    await this.connect()
+    await this.refreshing
+    this.tools ??= await this.client.listTools()
+    return this.tools.filter((tool) => this.isToolEnabled(tool.name)).map((tool) => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description ?? tool.name,
+        parameters: tool.inputSchema,
+      },
+    }))
+  }
+
+  // tools are known once listed
+  handlesTool(name: string): boolean {
+    return this.isToolEnabled(name) && (this.tools?.some((tool) => tool.name === name) ?? false)
+  }
+
+  async execute(context: PluginExecutionContext, parameters: { tool: string, parameters: any }): Promise<any> {
+    await this.connect()
+    const result = await this.client.callTool(parameters.tool, parameters.parameters, { abortSignal: context.abortSignal })
+    return this.toToolResult(result)
+  }
+
+  // progress notifications become status updates
+  async *executeWithUpdates(context: PluginExecutionContext, parameters: { tool: string, parameters: any }): AsyncGenerator<PluginExecutionUpdate> {
+
+    await this.connect()
+
+    const updates: PluginExecutionUpdate[] = []
+    let wakeUp: (() => void)|null = null
+    let failure: Error|null = null
+    let done = false
+
+    this.client.callTool(parameters.tool, parameters.parameters, {
+      abortSignal: context.abortSignal,
+      onProgress: (progress) => {
+        updates.push({ type: 'status', status: this.getProgressDescription(parameters.tool, progress) })
+        wakeUp?.()
+      },
+    }).then((result) => {
+      updates.push({ type: 'result', result: this.toToolResult(result) })
+    }).catch((error) => {
+      failure = error
+    }).finally(() => {
+      done = true
+      wakeUp?.()
+    })
+
+    while (true) {
+      if (updates.length) {
+        yield updates.shift()!
+      } else if (failure) {
+        throw failure
+      } else if (done) {
+        return
+      } else {
+        await new Promise<void>((resolve) => { wakeUp = resolve })
+        wakeUp = null
+      }
+    }
+
+  }
+
+  protected getProgressDescription(tool: string, progress: McpProgress): string {
+    if (progress.message) return progress.message
+    return progress.total ? `${tool}: ${progress.progress}/${progress.total}` : `${tool}: ${progress.progress}`
+  }
+
+  // text content is returned as is, errors are thrown
+  protected toToolResult(result: any): any {
+    const content: any[] = result?.content ?? []
+    const text = content.every((item) => item.type === 'text') ? content.map((item) => item.text).join('\n') : undefined
+    if (result?.isError) {
+      throw new Error(text || 'MCP tool call failed')
+    }
+    return result?.structuredContent ?? text ?? content
+  }
+
+  // handlesTool relies on the list so it is reloaded right away
+  private async refreshTools(): Promise<void> {
+    try {
+      this.tools = await this.client.listTools()
+    } catch (error) {
+      logger.log(`[mcp] cannot refresh the tools of ${this.name}: ${(error as Error).message}`)
+      this.tools = null
+    }
+  }
+
+  private isToolEnabled(name: string): boolean {
+    return !this.toolsEnabled || this.toolsEnabled.includes(name)
+  }
+
+}
@@ -3,7 +3,7 @@ import LlmEngine from './engine'
 import Message from './models/message'
 import { Plugin } from './plugin'
 import { ChatModel } from './types'
-import { LlmChunk, LlmCompletionOpts, LlmResponse } from './types/llm'
+import { LlmChunk, LlmCompletionOpts, LlmMiddleware, LlmModelPricing, LlmResponse } from './types/llm'
 
 export default class LlmModel {
 
@@ -27,7 +27,23 @@ export default class LlmModel {
     this.engine.addPlugin(plugin)
   }
 
-  complete(thread: Message[], opts?: LlmCompletionOpts): Promise<LlmResponse> {
+  addMiddleware(middleware: LlmMiddleware): void {
+    this.engine.addMiddleware(middleware)
+  }
+
+  clearMiddlewares(): void {
+    this.engine.clearMiddlewares()
+  }
+
+  countTokens(thread: Message[]): number {
+    return this.engine.countTokens(this.model, thread)
+  }
+
+  getPricing(): LlmModelPricing|undefined {
+    return this.engine.getModelPricing(this.model)
+  }
+
+  complete<T = any>(thread: Message[], opts?: LlmCompletionOpts<T>): Promise<LlmResponse<T>> {
     return this.engine.complete(this.model, thread, opts)
   }
 
@@ -0,0 +1,219 @@
+type PartialJsonContainer = {
+  type: 'object'|'array'
+  expect: 'key'|'colon'|'value'|'comma'
+}
+
+// a point where the text can be cut and closed into valid json
+type PartialJsonCut = {
+  index: number
+  closers: string
+}
+
+const kScalar = /^(-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null)$/
+
+//
+// incremental json parser: text is pushed as it streams and the best-effort
+// object parsed so far is available at any time. anything before the first
+// '{' or '[' (prose, code fence) and after the root value is ignored.
+//
+
+export class PartialJsonParser {
+
+  text: string
+  private position: number
+  private start: number
+  private stack: PartialJsonContainer[]
+  private inString: boolean
+  private isKey: boolean
+  private escape: boolean
+  private token: string
+  private cut: PartialJsonCut|null
+  private complete: boolean
+
+  constructor() {
+    this.text = ''
+    this.position = 0
+    this.start = -1
+    this.stack = []
+    this.inString = false
+    this.isKey = false
+    this.escape = false
+    this.token = ''
+    this.cut = null
+    this.complete = false
+  }
+
+  get done(): boolean {
+    return this.complete
+  }
+
+  push(text: string): void {
+    this.text += text
+    while (this.position < this.text.length && !this.complete) {
+      this.scan(this.text[this.position], this.position)
+      this.position++
+    }
+  }
+
+  // undefined until something can be parsed
+  get value(): any {
+
+    if (this.start < 0) {
+      return undefined
+    }
+
+    // the most complete first
+    const candidates: string[] = []
+    const closers = this.getClosers()
+    if (this.inString && !this.isKey) {
+      const text = this.text.slice(this.start, this.position).replace(/\\(u[0-9a-fA-F]{0,3})?$/, '')
+      candidates.push(`${text}"${closers}`)
+    }
+    if (this.token && kScalar.test(this.token)) {
+      candidates.push(`${this.text.slice(this.start, this.position)}${closers}`)
+    }
+    if (this.cut) {
+      candidates.push(`${this.text.slice(this.start, this.cut.index)}${this.cut.closers}`)
+    }
+
+    for (const candidate of candidates) {
+      try {
+        return JSON.parse(candidate)
+      } catch {
+        // next one
+      }
+    }
+    return undefined
+
+  }
+
+  // the json with its containers closed when it stops after a complete value
+  get closedText(): string|undefined {
+    if (this.start < 0 || !this.cut || this.inString || this.token || this.text.slice(this.cut.index).trim().length) {
+      return undefined
+    }
+    return `${this.text.slice(this.start, this.cut.index)}${this.cut.closers}`
+  }
+
+  private scan(c: string, index: number): void {
+
+    // wait for the root
+    if (this.start < 0) {
+      if (c === '{' || c === '[') {
+        this.start = index
+        this.open(c, index)
+      }
+      return
+    }
+
+    // strings
+    if (this.inString) {
+      if (this.escape) {
+        this.escape = false
+      } else if (c === '\\') {
+        this.escape = true
+      } else if (c === '"') {
+        this.inString = false
+        if (this.isKey) {
+          this.top.expect = 'colon'
+        } else {
+          this.completeValue(index + 1)
+        }
+      }
+      return
+    }
+
+    // numbers and literals end with a delimiter
+    if (this.token) {
+      if (/[\w.+-]/.test(c)) {
+        this.token += c
+        return
+      }
+      this.token = ''
+      this.completeValue(index)
+    }
+
+    if (/\s/.test(c)) {
+      return
+    }
+
+    switch (c) {
+      case '{':
+      case '[':
+        this.open(c, index)
+        break
+      case '}':
+      case ']':
+        this.stack.pop()
+        this.completeValue(index + 1)
+        break
+      case '"':
+        this.inString = true
+        this.isKey = this.top.expect === 'key'
+        break
+      case ':':
+        this.top.expect = 'value'
+        break
+      case ',':
+        this.top.expect = this.top.type === 'object' ? 'key' : 'value'
+        break
+      default:
+        this.token = c
+    }
+
+  }
+
+  private get top(): PartialJsonContainer {
+    return this.stack[this.stack.length - 1]
+  }
+
+  private open(c: string, index: number): void {
+    this.stack.push({ type: c === '{' ? 'object' : 'array', expect: c === '{' ? 'key' : 'value' })
+    this.cut = { index: index + 1, closers: this.getClosers() }
+  }
+
+  private completeValue(end: number): void {
+    if (this.stack.length === 0) {
+      this.complete = true
+    } else {
+      this.top.expect = 'comma'
+    }
+    this.cut = { index: end, closers: this.getClosers() }
+  }
+
+  private getClosers(): string {
+    return this.stack.map((container) => container.type === 'object' ? '}' : ']').reverse().join('')
+  }
+
+}
+
+export const parsePartialJson = (text: string): any => {
+  const parser = new PartialJsonParser()
+  parser.push(text)
+  return parser.value
+}
+
+// fixes trivially broken json (code fences, trailing commas, missing closing
+// brackets) and returns the parsed value or undefined if it cannot be fixed
+export const repairJson = (text: string): any => {
+
+  // code fences and trailing commas
+  const fence = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i)
+  const cleaned = (fence ? fence[1] : text).replace(/,(\s*[}\]])/g, '$1')
+  try {
+    return JSON.parse(cleaned)
+  } catch {
+    // try closing
+  }
+
+  // truncated
+  const parser = new PartialJsonParser()
+  parser.push(cleaned)
+  const closed = parser.closedText
+  try {
+    return closed ? JSON.parse(closed) : undefined
+  } catch {
+    return undefined
+  }
+
+}
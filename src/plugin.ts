@@ -1,5 +1,35 @@
-import { LlmTool } from 'types/llm'
+import { LlmTool, LlmToolOpenAI } from 'types/llm'
 import { IPlugin, PluginExecutionContext, PluginParameter } from './types/plugin'
+import { ZodType } from 'zod'
+import { zodToJsonSchema } from 'zod-to-json-schema'
+
+// races a promise against an abort signal (see Plugin.runWithAbort)
+export const runWithAbort = async <T>(operation: Promise<T>, abortSignal?: AbortSignal, onAbort?: () => void): Promise<T> => {
+
+  // Check if already aborted before starting
+  if (abortSignal?.aborted) {
+    onAbort?.()
+    throw new Error('Operation cancelled')
+  }
+
+  // If no abort signal, just return the promise
+  if (!abortSignal) {
+    return operation
+  }
+
+  // Race between completion and abort
+  // Listener cleanup is automatic via { once: true } option
+  return Promise.race([
+    operation,
+    new Promise<T>((_, reject) => {
+      abortSignal.addEventListener('abort', () => {
+        onAbort?.()
+        reject(new Error('Operation cancelled'))
+      }, { once: true })
+    })
+  ])
+
+}
 
 export interface ICustomPlugin extends IPlugin {
   getTools(): Promise<LlmTool|LlmTool[]>
@@ -47,6 +77,16 @@ export class Plugin implements IPlugin {
     throw new Error('Not implemented')
   }
 
+  // execution timeout in milliseconds (undefined for none)
+  getTimeout(): number|undefined {
+    return undefined
+  }
+
+  // maximum length of the serialized result sent to the model (undefined for none)
+  getMaxResultSize(): number|undefined {
+    return undefined
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   async execute(context: PluginExecutionContext , parameters: any): Promise<any> {
     throw new Error('Not implemented')
@@ -87,29 +127,34 @@ export class Plugin implements IPlugin {
     abortSignal?: AbortSignal,
     onAbort?: () => void
   ): Promise<T> {
+    return runWithAbort(operation, abortSignal, onAbort)
+  }
 
-    // Check if already aborted before starting
-    if (abortSignal?.aborted) {
-      onAbort?.()
-      throw new Error('Operation cancelled')
-    }
+}
 
-    // If no abort signal, just return the promise
-    if (!abortSignal) {
-      return operation
-    }
+// parameters are described by a zod object schema instead of PluginParameter:
+// nested objects, unions, bounds, defaults... args are validated against
+// the schema before execute is called with the parsed (typed) values
+export class ZodPlugin<T = any> extends Plugin {
+
+  getSchema(): ZodType<T> {
+    throw new Error('Not implemented')
+  }
 
-    // Race between completion and abort
-    // Listener cleanup is automatic via { once: true } option
-    return Promise.race([
-      operation,
-      new Promise<T>((_, reject) => {
-        abortSignal.addEventListener('abort', () => {
-          onAbort?.()
-          reject(new Error('Operation cancelled'))
-        }, { once: true })
-      })
-    ])
+  getParameters(): PluginParameter[] {
+    return []
+  }
+
+  // the schema inlined (no $ref) so that providers can convert it
+  getParametersSchema(): LlmToolOpenAI['function']['parameters'] {
+    const schema = zodToJsonSchema(this.getSchema(), { $refStrategy: 'none' }) as any
+    delete schema.$schema
+    return schema
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async execute(context: PluginExecutionContext, parameters: T): Promise<any> {
+    throw new Error('Not implemented')
   }
 
 }
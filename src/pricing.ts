@@ -0,0 +1,148 @@
+import { minimatch } from 'minimatch'
+import { LlmCost, LlmModelPricing, LlmUsage } from './types/llm'
+
+// model globs per provider: first match wins
+export type LlmPricingTable = Record<string, Record<string, LlmModelPricing>>
+
+// how the provider reports usage
+export type LlmCostOpts = {
+  cachedInPrompt?: boolean
+  reasoningInCompletion?: boolean
+}
+
+// public list prices, in USD per million tokens
+const kBuiltinPricing: LlmPricingTable = {
+  anthropic: {
+    'claude-opus-4*': { input: 15, output: 75, cachedInput: 1.5 },
+    'claude-sonnet-4*': { input: 3, output: 15, cachedInput: 0.3 },
+    'claude-haiku-4*': { input: 1, output: 5, cachedInput: 0.1 },
+    'claude-3-7-sonnet*': { input: 3, output: 15, cachedInput: 0.3 },
+    'claude-3-5-sonnet*': { input: 3, output: 15, cachedInput: 0.3 },
+    'claude-3-5-haiku*': { input: 0.8, output: 4, cachedInput: 0.08 },
+  },
+  deepseek: {
+    'deepseek-chat': { input: 0.27, output: 1.1, cachedInput: 0.07 },
+    'deepseek-reasoner': { input: 0.55, output: 2.19, cachedInput: 0.14 },
+  },
+  google: {
+    'gemini-2.5-pro*': { input: 1.25, output: 10, cachedInput: 0.31 },
+    'gemini-2.5-flash-lite*': { input: 0.1, output: 0.4, cachedInput: 0.025, audioInput: 0.3 },
+    'gemini-2.5-flash*': { input: 0.3, output: 2.5, cachedInput: 0.075, audioInput: 1 },
+    'gemini-2.0-flash-lite*': { input: 0.075, output: 0.3 },
+    'gemini-2.0-flash*': { input: 0.1, output: 0.4, cachedInput: 0.025, audioInput: 0.7 },
+  },
+  groq: {
+    'llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+    'llama-3.1-8b-instant': { input: 0.05, output: 0.08 },
+  },
+  mistralai: {
+    'mistral-large*': { input: 2, output: 6 },
+    'mistral-medium*': { input: 0.4, output: 2 },
+    'mistral-small*': { input: 0.1, output: 0.3 },
+    'codestral*': { input: 0.3, output: 0.9 },
+  },
+  openai: {
+    'gpt-5-nano*': { input: 0.05, output: 0.4, cachedInput: 0.005 },
+    'gpt-5-mini*': { input: 0.25, output: 2, cachedInput: 0.025 },
+    'gpt-5*': { input: 1.25, output: 10, cachedInput: 0.125 },
+    'gpt-4.1-nano*': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+    'gpt-4.1-mini*': { input: 0.4, output: 1.6, cachedInput: 0.1 },
+    'gpt-4.1*': { input: 2, output: 8, cachedInput: 0.5 },
+    'gpt-4o-mini-audio*': { input: 0.15, output: 0.6, audioInput: 10, audioOutput: 20 },
+    'gpt-4o-audio*': { input: 2.5, output: 10, audioInput: 40, audioOutput: 80 },
+    'gpt-4o-mini*': { input: 0.15, output: 0.6, cachedInput: 0.075 },
+    'gpt-4o*': { input: 2.5, output: 10, cachedInput: 1.25 },
+    'o4-mini*': { input: 1.1, output: 4.4, cachedInput: 0.275 },
+    'o3-mini*': { input: 1.1, output: 4.4, cachedInput: 0.55 },
+    'o3*': { input: 2, output: 8, cachedInput: 0.5 },
+    'o1*': { input: 15, output: 60, cachedInput: 7.5 },
+  },
+  xai: {
+    'grok-4*': { input: 3, output: 15, cachedInput: 0.75 },
+    'grok-3-mini*': { input: 0.3, output: 0.5, cachedInput: 0.075 },
+    'grok-3*': { input: 3, output: 15, cachedInput: 0.75 },
+  },
+}
+
+// set by the application: checked before the builtin prices
+const pricingOverrides: LlmPricingTable = {}
+
+export const findModelPricing = (prices: Record<string, LlmModelPricing>|undefined, model: string): LlmModelPricing|undefined => {
+  if (!prices) return undefined
+  const glob = Object.keys(prices).find((glob) => minimatch(model, glob))
+  return glob ? prices[glob] : undefined
+}
+
+export const getModelPricing = (provider: string, model: string): LlmModelPricing|undefined => {
+  return findModelPricing(pricingOverrides[provider], model) ?? findModelPricing(kBuiltinPricing[provider], model)
+}
+
+// null removes a previous override
+export const setModelPricing = (provider: string, model: string, pricing: LlmModelPricing|null): void => {
+  if (pricing) {
+    pricingOverrides[provider] = { [model]: pricing, ...pricingOverrides[provider] }
+  } else if (pricingOverrides[provider]) {
+    delete pricingOverrides[provider][model]
+  }
+}
+
+export const clearModelPricing = (): void => {
+  for (const provider of Object.keys(pricingOverrides)) {
+    delete pricingOverrides[provider]
+  }
+}
+
+export const zeroCost = (): LlmCost => ({
+  input: 0,
+  cachedInput: 0,
+  output: 0,
+  reasoning: 0,
+  audio: 0,
+  total: 0,
+})
+
+export const addCosts = (cost1: LlmCost|undefined, cost2: LlmCost|undefined): LlmCost => {
+  const c1 = cost1 ?? zeroCost()
+  const c2 = cost2 ?? zeroCost()
+  return {
+    input: c1.input + c2.input,
+    cachedInput: c1.cachedInput + c2.cachedInput,
+    output: c1.output + c2.output,
+    reasoning: c1.reasoning + c2.reasoning,
+    audio: c1.audio + c2.audio,
+    total: c1.total + c2.total,
+  }
+}
+
+export const totalTokens = (usage: LlmUsage, opts: LlmCostOpts = {}): number => {
+  let tokens = usage.prompt_tokens + usage.completion_tokens
+  if (opts.cachedInPrompt === false) tokens += usage.prompt_tokens_details?.cached_tokens ?? 0
+  if (opts.reasoningInCompletion === false) tokens += usage.completion_tokens_details?.reasoning_tokens ?? 0
+  return tokens
+}
+
+// by default usage is reported the openai way: cached and audio tokens
+// are part of the prompt, reasoning and audio tokens part of the completion
+export const computeCost = (usage: LlmUsage, pricing: LlmModelPricing, opts: LlmCostOpts = {}): LlmCost => {
+
+  // token counts
+  const cachedTokens = usage.prompt_tokens_details?.cached_tokens ?? 0
+  const audioInputTokens = usage.prompt_tokens_details?.audio_tokens ?? 0
+  const reasoningTokens = usage.completion_tokens_details?.reasoning_tokens ?? 0
+  const audioOutputTokens = usage.completion_tokens_details?.audio_tokens ?? 0
+  const inputTokens = Math.max(0, usage.prompt_tokens - ((opts.cachedInPrompt ?? true) ? cachedTokens : 0) - audioInputTokens)
+  const outputTokens = Math.max(0, usage.completion_tokens - ((opts.reasoningInCompletion ?? true) ? reasoningTokens : 0) - audioOutputTokens)
+
+  // now price them
+  const cost: LlmCost = {
+    input: inputTokens * pricing.input / 1e6,
+    cachedInput: cachedTokens * (pricing.cachedInput ?? pricing.input) / 1e6,
+    output: outputTokens * pricing.output / 1e6,
+    reasoning: reasoningTokens * (pricing.reasoning ?? pricing.output) / 1e6,
+    audio: (audioInputTokens * (pricing.audioInput ?? pricing.input) + audioOutputTokens * (pricing.audioOutput ?? pricing.output)) / 1e6,
+    total: 0,
+  }
+  cost.total = cost.input + cost.cachedInput + cost.output + cost.reasoning + cost.audio
+  return cost
+
+}
@@ -2,15 +2,17 @@ import Anthropic from '@anthropic-ai/sdk'
 import { ContentBlockParam, InputJSONDelta, MessageCreateParams, MessageDeltaUsage, MessageParam, RawMessageStreamEvent, RawMessageDeltaEvent, RawMessageStartEvent, TextBlock, Tool, ToolChoice, ToolUseBlock, Usage } from '@anthropic-ai/sdk/resources'
 import { BetaToolUnion, MessageCreateParamsBase } from '@anthropic-ai/sdk/resources/beta/messages/messages'
 import { minimatch } from 'minimatch'
-import LlmEngine, { LlmStreamingContextBase } from '../engine'
+import LlmEngine, { LlmStreamingContextBase, LlmToolCallResult } from '../engine'
+import { LlmCostOpts } from '../pricing'
 import logger from '../logger'
 import Attachment from '../models/attachment'
 import Message from '../models/message'
 import { Plugin } from '../plugin'
 import { ChatModel, EngineCreateOpts, ModelAnthropic, ModelCapabilities } from '../types/index'
-import { LlmChunk, LlmCompletionOpts, LLmCompletionPayload, LlmResponse, LlmStream, LlmStreamingResponse, LlmToolCall, LlmToolCallInfo, LlmUsage } from '../types/llm'
+import { LlmChunk, LlmCompletionOpts, LLmCompletionPayload, LlmResponse, LlmStream, LlmRequest, LlmStreamingResponse, LlmToolCall, LlmToolCallInfo, LlmUsage, LlmStructuredOutputMode } from '../types/llm'
 import { PluginExecutionResult } from '../types/plugin'
 import { addUsages, zeroUsage } from '../usage'
+import { getFinishReason } from '../finish'
 
 //
 // https://docs.anthropic.com/en/api/getting-started
@@ -33,6 +35,8 @@ export type AnthropicStreamingContext = LlmStreamingContextBase & {
   thinkingBlock?: string
   thinkingSignature?: string
   firstTextBlockStart: boolean
+  stopReason?: string
+  heldText?: string
 }
 
 export default class extends LlmEngine {
@@ -44,6 +48,8 @@ export default class extends LlmEngine {
     super(config)
     this.client = new Anthropic({
       apiKey: config.apiKey,
+      timeout: config.timeout,
+      maxRetries: 0, // retries are handled by LlmEngine
       dangerouslyAllowBrowser: true,
     })
     this.computerInfo = computerInfo
@@ -87,6 +93,11 @@ export default class extends LlmEngine {
 
   }
   
+  // input_tokens does not include cache reads
+  protected getCostOpts(): LlmCostOpts {
+    return { cachedInPrompt: false }
+  }
+
   getComputerUseRealModel(): string {
     return 'claude-3-5-sonnet-20241022'
   }
@@ -123,7 +134,7 @@ export default class extends LlmEngine {
 
   }
 
-  async complete(model: ChatModel, thread: Message[], opts?: LlmCompletionOpts): Promise<LlmResponse> {
+  async completeThread(model: ChatModel, thread: Message[], opts?: LlmCompletionOpts): Promise<LlmResponse> {
     return await this.chat(model, [
       thread[0],
       ...this.buildPayload(model, thread, opts)
@@ -142,18 +153,46 @@ export default class extends LlmEngine {
     
     // call
     logger.log(`[anthropic] prompting model ${model.id}`)
-    const response = await this.client.messages.create(this.cacheRequest(model, opts ?? {}, {
-      model: model.id,
-      system: thread[0].contentForModel,
-      messages: thread.slice(1) as MessageParam[],
-      ...this.getCompletionOpts(model, opts),
-      ...await this.getToolOpts(model, opts),
-    }));
+    const request = await this.prepareAnthropicRequest(model, thread[0].contentForModel, thread.slice(1), opts)
+    const response = await this.retry(model, async () => this.client.messages.create(this.cacheRequest(request.model, request.opts, {
+      model: request.model.id,
+      system: request.system,
+      messages: request.thread as MessageParam[],
+      ...this.getCompletionOpts(request.model, request.opts),
+      ...await this.getToolOpts(request.model, request.opts),
+    })), opts)
+
+    // the structured answer: prose written before the tool call is ignored
+    const structuredAnswer = response.content.find((block) => block.type === 'tool_use' && this.isStructuredOutputTool(model, block.name, opts)) as ToolUseBlock|undefined
 
     // tool call
     if (response.stop_reason === 'tool_use') {
 
-      const toolCall = response.content[response.content.length - 1] as ToolUseBlock
+      const toolCall = structuredAnswer ?? response.content[response.content.length - 1] as ToolUseBlock
+
+      // the structured answer
+      if (structuredAnswer) {
+        return {
+          type: 'text',
+          content: JSON.stringify(toolCall.input),
+          toolCalls: toolCallInfo,
+          ...(opts?.usage && response.usage ? { usage: {
+            prompt_tokens: response.usage.input_tokens,
+            completion_tokens: response.usage.output_tokens,
+          } } : {}),
+          ...getFinishReason('end_turn'),
+        }
+      }
+
+      // too many tool rounds or looping: force a final answer
+      if (this.checkChatToolRounds(thread, opts, [{ name: toolCall.name, args: toolCall.input }])) {
+        const completion = await this.chat(model, thread, { ...opts, toolChoice: { type: 'none' } })
+        if (opts?.usage && response.usage && completion.usage) {
+          completion.usage.prompt_tokens += response.usage.input_tokens
+          completion.usage.completion_tokens += response.usage.output_tokens
+        }
+        return completion
+      }
       
       // need
       logger.log(`[anthropic] tool call ${toolCall.name} with ${JSON.stringify(toolCall.input)}`)
@@ -163,7 +202,9 @@ export default class extends LlmEngine {
         for await (const update of this.callTool(
           { model: model.id, abortSignal: opts?.abortSignal },
           toolCall.name, toolCall.input,
-          opts?.toolExecutionValidation
+          opts?.toolExecutionValidation,
+          opts?.parentSpan,
+          opts,
         )) {
           if (update.type === 'result') {
             lastUpdate = update
@@ -237,16 +278,19 @@ export default class extends LlmEngine {
 
     }
 
-    // return an object
-    const content = response.content[0] as TextBlock
+    // prose instead of the structured answer is returned as is so that it goes through repair
+    const content = this.expectsStructuredOutputTool(model, opts)
+      ? response.content.map((block) => block.type === 'text' ? block.text : '').join('')
+      : (response.content[0] as TextBlock).text
     return {
       type: 'text',
-      content: content.text,
+      content: content,
       toolCalls: toolCallInfo,
       ...(opts?.usage && response.usage ? { usage: {
         prompt_tokens: response.usage.input_tokens,
         completion_tokens: response.usage.output_tokens,
       } } : {}),
+      ...getFinishReason(response.stop_reason),
     }
   }
 
@@ -289,9 +333,10 @@ export default class extends LlmEngine {
     context.requestUsage = zeroUsage()
     context.thinkingBlock = undefined
     context.thinkingSignature = ''
+    context.heldText = undefined
 
     // tools in anthropic format
-    const tools: AnthropicTool[] = (await this.getAvailableTools()).map((tool) => {
+    const tools: AnthropicTool[] = (await this.getAvailableTools(context.opts)).map((tool) => {
       return {
         name: tool.function.name,
         description: tool.function.description,
@@ -326,38 +371,49 @@ export default class extends LlmEngine {
 
   async doStreamNormal(context: AnthropicStreamingContext): Promise<LlmStream> {
     logger.log(`[anthropic] prompting model ${context.model.id}`)
-    return this.client.messages.create(this.cacheRequest(context.model, context.opts, {
-      model: context.model.id,
-      system: context.system,
-      messages: context.thread,
-      ...this.getCompletionOpts(context.model, context.opts),
-      ...await this.getToolOpts<MessageCreateParams>(context.model, context.opts),
+    const request = await this.prepareAnthropicRequest(context.model, context.system, context.thread, context.opts)
+    return this.client.messages.create(this.cacheRequest(request.model, request.opts, {
+      model: request.model.id,
+      system: request.system,
+      messages: request.thread,
+      ...this.getCompletionOpts(request.model, request.opts),
+      ...await this.getToolOpts<MessageCreateParams>(request.model, request.opts),
       stream: true,
     }))
   }
 
   async doStreamBeta(context: AnthropicStreamingContext): Promise<LlmStream> {
     logger.log(`[anthropic] prompting model ${context.model.id}`)
-    return this.client.beta.messages.create(this.cacheRequest(context.model, context.opts, {
+    const request = await this.prepareAnthropicRequest(context.model, context.system, context.thread, context.opts)
+    return this.client.beta.messages.create(this.cacheRequest(request.model, request.opts, {
       model: this.getComputerUseRealModel(),
       betas: [ 'computer-use-2024-10-22' ],
-      system: context.system,
-      messages: context.thread,
-      ...this.getCompletionOpts(context.model, context.opts),
-      ...await this.getToolOpts<MessageCreateParams>(context.model, context.opts),
+      system: request.system,
+      messages: request.thread,
+      ...this.getCompletionOpts(request.model, request.opts),
+      ...await this.getToolOpts<MessageCreateParams>(request.model, request.opts),
       stream: true,
     }))
   }
 
+  // middlewares see the system prompt as the first message of the thread
+  private async prepareAnthropicRequest(model: ChatModel, system: string, thread: any[], opts?: LlmCompletionOpts): Promise<LlmRequest & { system?: string }> {
+    const request = await this.prepareRequest(model, [{ role: 'system', content: system }, ...thread], opts)
+    const instructions = request.thread[0]?.role === 'system' ? request.thread.shift() : null
+    return { ...request, system: instructions?.content }
+  }
+
   getCompletionOpts(model: ChatModel, opts?: LlmCompletionOpts): Omit<MessageCreateParamsBase, 'model'|'messages'|'stream'|'tools'|'tool_choice'> {
 
-    const isThinkingEnabled = model.capabilities?.reasoning && opts?.reasoning !== false;
-    
+    const isThinkingEnabled = this.isThinkingEnabled(model, opts)
+    this.warnUnsupportedOpts(model, opts, ['seed', 'presencePenalty', 'frequencyPenalty'])
+
     return {
       max_tokens: opts?.maxTokens ?? this.getMaxTokens(model.id),
       ...(opts?.temperature ? { temperature: opts.temperature } : (isThinkingEnabled ? { temperature: 1.0 } : {})),
       ...(opts?.top_k ? { top_k: opts?.top_k } : {} ),
       ...(opts?.top_p ? { top_p: opts?.top_p } : {} ),
+      ...(opts?.stop ? { stop_sequences: [opts.stop].flat() } : {} ),
       ...(isThinkingEnabled ? {
         thinking: {
           type: 'enabled',
@@ -367,14 +423,24 @@ export default class extends LlmEngine {
     }
   }
 
-  async getToolOpts<T>(model: ChatModel, opts?: LlmCompletionOpts): Promise<Omit<T, 'max_tokens'|'model'|'messages'|'stream'>> {
+  private isThinkingEnabled(model: ChatModel, opts?: LlmCompletionOpts): boolean {
+    return model.capabilities?.reasoning === true && opts?.reasoning !== false
+  }
 
-    if (opts?.tools === false) {
-      return {} as T
-    }
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  getStructuredOutputMode(model: ChatModel, opts?: LlmCompletionOpts): LlmStructuredOutputMode {
+    return 'tool'
+  }
+
+  // the final answer must be a call to the structured output tool
+  private expectsStructuredOutputTool(model: ChatModel, opts?: LlmCompletionOpts): boolean {
+    return opts?.structuredOutput !== undefined && this.getStructuredOutputMode(model, opts) === 'tool'
+  }
+
+  async getToolOpts<T>(model: ChatModel, opts?: LlmCompletionOpts): Promise<Omit<T, 'max_tokens'|'model'|'messages'|'stream'>> {
 
     // tools in anthropic format
-    const tools: AnthropicTool[] = (await this.getAvailableTools()).map((tool) => {
+    const tools: AnthropicTool[] = (opts?.tools === false ? [] : await this.getAvailableTools(opts)).map((tool) => {
       return {
         name: tool.function.name,
         description: tool.function.description,
@@ -395,6 +461,27 @@ export default class extends LlmEngine {
       toolChoice = { type: 'tool', name: opts.toolChoice.name }
     }
 
+    // structured output is the input of a tool the model must call
+    // (when a final answer is forced, it is the only tool left)
+    if (opts?.structuredOutput && this.getStructuredOutputMode(model, opts) === 'tool') {
+      const tool = this.getStructuredOutputTool(opts.structuredOutput)
+      if (toolChoice.type === 'none') tools.length = 0
+      tools.push({
+        name: tool.function.name,
+        description: tool.function.description,
+        input_schema: tool.function.parameters,
+      })
+
+      // thinking does not allow forcing tool use
+      if (this.isThinkingEnabled(model, opts)) {
+        toolChoice = { type: 'auto' }
+      } else if (tools.length === 1) {
+        toolChoice = { type: 'tool', name: tool.function.name }
+      } else {
+        toolChoice = { type: 'any' }
+      }
+    }
+
     // done
     return tools.length ? {
       tool_choice: toolChoice,
@@ -477,7 +564,7 @@ export default class extends LlmEngine {
 
     // done
     if (chunk.type == 'message_stop') {
-      yield { type: 'content', text: '', done: true }
+      yield { type: 'content', text: '', done: true, ...getFinishReason(context.stopReason) }
       if (context.opts.usage) {
         context.usage = addUsages(context.usage, context.requestUsage)
         yield { type: 'usage', usage: context.usage }
@@ -489,7 +576,7 @@ export default class extends LlmEngine {
 
       if (chunk.content_block.type == 'text') {
         if (!context.firstTextBlockStart) {
-          yield { type: 'content', text: '\n\n', done: false }
+          yield* this.textChunk(context, '\n\n')
         }
         context.firstTextBlockStart = false
       }
@@ -508,14 +595,13 @@ export default class extends LlmEngine {
           args: ''
         }
 
-        // notify
-        yield {
-          type: 'tool',
-          id: context.toolCall.id,
-          name: context.toolCall.function,
-          state: 'preparing',
-          status: this.getToolPreparationDescription(context.toolCall.function),
-          done: false
+        // notify (the structured answer is not a real tool: prose before it is dropped)
+        if (this.isStructuredOutputTool(context.model, context.toolCall.function, context.opts)) {
+          context.heldText = undefined
+        } else {
+          if (context.heldText) yield { type: 'content', text: context.heldText, done: false }
+          context.heldText = undefined
+          yield this.getToolPreparationChunk(context.toolCall, context.opts)
         }
         
       } else {
@@ -530,6 +616,11 @@ export default class extends LlmEngine {
       if (context.toolCall !== undefined) {
         const toolDelta = chunk.delta as InputJSONDelta
         context.toolCall!.args += toolDelta.partial_json
+
+        // the structured answer streams as content
+        if (this.isStructuredOutputTool(context.model, context.toolCall.function, context.opts)) {
+          yield { type: 'content', text: toolDelta.partial_json, done: false }
+        }
       }
 
       // thinking
@@ -545,166 +636,35 @@ export default class extends LlmEngine {
 
       // citation
       if (context.toolCall === undefined && chunk.delta.type === 'citations_delta') {
-        yield { type: 'content', text: chunk.delta.citation.cited_text, done: false }
+        yield* this.textChunk(context, chunk.delta.citation.cited_text)
       }
       
       // text
       if (context.toolCall === undefined && chunk.delta.type === 'text_delta') {
-        yield { type: 'content', text: chunk.delta.text, done: false }
+        yield* this.textChunk(context, chunk.delta.text)
       }
 
     }
 
     // tool call?
     if (chunk.type == 'message_delta') {
-      
-      if (chunk.delta.stop_reason == 'tool_use' && context.toolCall !== undefined) {
-
-        // need
-        logger.log(`[anthropic] tool call ${context.toolCall!.function} with ${context.toolCall!.args}`)
-        const args = context.toolCall!.args?.length ? JSON.parse(context.toolCall!.args) : {}
-
-        try {
-          // first notify
-          yield {
-            type: 'tool',
-            id: context.toolCall.id,
-            name: context.toolCall.function,
-            state: 'running',
-            status: this.getToolRunningDescription(context.toolCall!.function, args),
-            call: {
-              params: args,
-              result: undefined
-            },
-            done: false
-          }
-
-          // now execute
-          let lastUpdate: PluginExecutionResult|undefined = undefined
-          for await (const update of this.callTool(
-            { model: context.model.id, abortSignal: context.opts?.abortSignal },
-            context.toolCall.function, args,
-            context.opts?.toolExecutionValidation
-          )) {
-
-            if (update.type === 'status') {
-              yield {
-                type: 'tool',
-                id: context.toolCall.id,
-                name: context.toolCall.function,
-                state: 'running',
-                status: update.status,
-                call: {
-                  params: args,
-                  result: undefined
-                },
-                done: false
-              }
-
-            } else if (update.type === 'result') {
-              lastUpdate = update
-            }
-
-          }
-
-          // process result
-          const { content, canceled: toolCallCanceled } = this.processToolExecutionResult(
-            'anthropic',
-            context.toolCall.function,
-            args,
-            lastUpdate
-          )
-
-          // done
-          yield {
-            type: 'tool',
-            id: context.toolCall.id,
-            name: context.toolCall.function,
-            state: toolCallCanceled ? 'canceled' : 'completed',
-            status: toolCallCanceled
-              ? this.getToolCanceledDescription(context.toolCall.function, args) || content.error || 'Tool execution was canceled'
-              : this.getToolCompletedDescription(context.toolCall.function, args, content),
-            done: true,
-            call: {
-              params: args,
-              result: content
-            },
-          }
-
-          // add thinking block
-          if (context.thinkingBlock) {
-            context.thread.push({
-              role: 'assistant',
-              content: [{
-                type: 'thinking',
-                thinking: context.thinkingBlock,
-                signature: context.thinkingSignature
-              }]
-            })
-          }
 
-          // add tool call message
-          context.thread.push({
-            role: 'assistant',
-            content: [{
-              type: 'tool_use',
-              id: context.toolCall!.id,
-              name: context.toolCall!.function,
-              input: args,
-            }]
-          })
-
-          // add tool response message
-          if (context.toolCall!.function === 'computer') {
-            context.thread.push({
-              role: 'user',
-              content: [{
-                type: 'tool_result',
-                tool_use_id: context.toolCall!.id,
-                ...content,
-              }]
-            })
-          } else {
-            context.thread.push({
-              role: 'user',
-              content: [{
-                type: 'tool_result',
-                tool_use_id: context.toolCall!.id,
-                content: JSON.stringify(content)
-              }]
-            })
-          }
+      // for the final chunk
+      context.stopReason = chunk.delta.stop_reason ?? undefined
 
-          // Check if canceled
-          if (context.opts?.abortSignal?.aborted) {
-            return  // Stop processing
-          }
+      // the structured answer (already streamed) is the final answer
+      if (chunk.delta.stop_reason == 'tool_use' && context.toolCall !== undefined && this.isStructuredOutputTool(context.model, context.toolCall.function, context.opts)) {
+        context.stopReason = 'end_turn'
+        return
+      }
 
-        } catch (error) {
-          
-          // Check if this was an abort
-          if (context.opts?.abortSignal?.aborted) {
-            yield {
-              type: 'tool',
-              id: context.toolCall.id,
-              name: context.toolCall.function,
-              state: 'canceled',
-              status: this.getToolCanceledDescription(context.toolCall.function, args),
-              done: true,
-              call: {
-                params: args,
-                result: undefined
-              }
-            }
-            return  // Stop processing
-          }
-          throw error  // Re-throw non-abort errors
-        }
+      // no structured answer at all: the prose is validated as the answer
+      if (chunk.delta.stop_reason != 'tool_use' && context.toolCall === undefined && context.heldText) {
+        yield { type: 'content', text: context.heldText, done: false }
+        context.heldText = undefined
+      }
 
-        // clear force tool call to avoid infinite loop
-        if (context.opts.toolChoice?.type === 'tool') {
-          delete context.opts.toolChoice
-        }
+      if (chunk.delta.stop_reason == 'tool_use' && context.toolCall !== undefined) {
 
         // add usage
         if (context.opts.usage) {
@@ -712,12 +672,70 @@ export default class extends LlmEngine {
           context.requestUsage = zeroUsage()
         }
 
-        // switch to new stream
-        yield {
-          type: 'stream',
-          stream: await this.doStream(context),
-        }
+        // execute the tool and continue
+        yield* this.executeToolRound(context, [context.toolCall])
+
+      }
+
+    }
+
+  }
+
+  // in structured output tool mode, prose is held until we know what it precedes
+  private *textChunk(context: AnthropicStreamingContext, text: string): Generator<LlmChunk> {
+    if (this.expectsStructuredOutputTool(context.model, context.opts)) {
+      context.heldText = (context.heldText ?? '') + text
+    } else {
+      yield { type: 'content', text, done: false }
+    }
+  }
+
+  addToolResultsToThread(context: AnthropicStreamingContext, results: LlmToolCallResult[]): void {
+
+    // add thinking block
+    if (context.thinkingBlock) {
+      context.thread.push({
+        role: 'assistant',
+        content: [{
+          type: 'thinking',
+          thinking: context.thinkingBlock,
+          signature: context.thinkingSignature
+        }]
+      })
+    }
+
+    for (const { toolCall, args, content } of results) {
+
+      // add tool call message
+      context.thread.push({
+        role: 'assistant',
+        content: [{
+          type: 'tool_use',
+          id: toolCall.id,
+          name: toolCall.function,
+          input: args,
+        }]
+      })
 
+      // add tool response message
+      if (toolCall.function === 'computer') {
+        context.thread.push({
+          role: 'user',
+          content: [{
+            type: 'tool_result',
+            tool_use_id: toolCall.id,
+            ...content,
+          }]
+        })
+      } else {
+        context.thread.push({
+          role: 'user',
+          content: [{
+            type: 'tool_result',
+            tool_use_id: toolCall.id,
+            content: JSON.stringify(content)
+          }]
+        })
       }
 
     }
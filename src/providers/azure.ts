@@ -12,6 +12,8 @@ export default class extends OpenAI {
       apiKey: config.apiKey,
       deployment: config.deployment,
       apiVersion: config.apiVersion,
+      timeout: config.timeout,
+      maxRetries: 0, // retries are handled by LlmEngine
       dangerouslyAllowBrowser: true,
     }) 
   }
@@ -1,20 +1,41 @@
 import { Content, Environment, FunctionCallingConfigMode, FunctionDeclaration, FunctionResponse, GenerateContentConfig, GenerateContentResponse, GoogleGenAI, Part, Schema, Type } from '@google/genai'
 import { minimatch } from 'minimatch'
 import { zodToJsonSchema } from 'zod-to-json-schema'
-import LlmEngine, { LlmStreamingContextTools } from '../engine'
+import LlmEngine, { LlmStreamingContextTools, LlmToolCallResult } from '../engine'
 import logger from '../logger'
+import { LlmCostOpts } from '../pricing'
 import Attachment from '../models/attachment'
 import Message from '../models/message'
 import { Plugin } from '../plugin'
 import { ChatModel, EngineCreateOpts, ModelCapabilities, ModelGoogle } from '../types/index'
-import { LLmCompletionPayload, LLmContentPayloadText, LlmChunk, LlmCompletionOpts, LlmResponse, LlmStream, LlmStreamingResponse, LlmToolCallInfo, LlmUsage } from '../types/llm'
+import { LLmCompletionPayload, LLmContentPayloadText, LlmChunk, LlmCompletionOpts, LlmResponse, LlmStream, LlmStreamingResponse, LlmToolCallInfo, LlmUsage, LlmStructuredOutputMode } from '../types/llm'
 import { PluginExecutionResult } from '../types/plugin'
 import { addUsages, zeroUsage } from '../usage'
+import { getFinishReason } from '../finish'
+import { LlmSchemaError } from '../errors'
 
 //
 // https://ai.google.dev/gemini-api/docs
 //
 
+const kGeminiTypes = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+  object: Type.OBJECT,
+}
+
+const kGeminiAnnotations = ['title', 'description', 'default']
+
+// formats gemini accepts
+const kGeminiFormats: Record<string, string[]> = {
+  string: ['enum', 'date-time'],
+  number: ['float', 'double'],
+  integer: ['int32', 'int64'],
+}
+
 type GoogleCompletionOpts = LlmCompletionOpts & {
   instruction?: string
 }
@@ -36,10 +57,14 @@ export default class extends LlmEngine {
   client: GoogleGenAI
   computerInfo: GoogleComputerToolInfo|null = null
 
+  // tools whose loose schema was already reported
+  private looseSchemaTools = new Set<string>()
+
   constructor(config: EngineCreateOpts, computerInfo: GoogleComputerToolInfo|null = null) {
     super(config)
     this.client = new GoogleGenAI({
       apiKey: config.apiKey!,
+      ...(config.timeout ? { httpOptions: { timeout: config.timeout } } : {}),
     })
     this.computerInfo = computerInfo
   }
@@ -93,6 +118,11 @@ export default class extends LlmEngine {
     
   }
 
+  // thoughts are not part of candidatesTokenCount
+  protected getCostOpts(): LlmCostOpts {
+    return { reasoningInCompletion: false }
+  }
+
   isComputerUseModel(model: string): boolean {
     return ['gemini-2.5-computer-use-preview-10-2025'].includes(model)
   }
@@ -131,7 +161,7 @@ export default class extends LlmEngine {
 
   }
 
-  async complete(model: ChatModel, thread: Message[], opts?: LlmCompletionOpts): Promise<LlmResponse> {
+  async completeThread(model: ChatModel, thread: Message[], opts?: LlmCompletionOpts): Promise<LlmResponse> {
     const messages = this.threadToHistory(thread, model, opts)
     const instruction = this.getInstructions(model, thread)
     return await this.chat(model, messages, {
@@ -147,16 +177,29 @@ export default class extends LlmEngine {
 
     // call
     logger.log(`[google] prompting model ${model.id}`)
-    const response = await this.client.models.generateContent({
-      model: model.id,
-      contents: thread,
-      config: await this.getGenerationConfig(model, opts),
-    })
+    const request = await this.prepareRequest(model, thread, opts)
+    const response = await this.retry(model, async () => this.client.models.generateContent({
+      model: request.model.id,
+      contents: request.thread,
+      config: await this.getGenerationConfig(request.model, request.opts),
+    }), opts)
 
     // check for tool calls
     const toolCalls = response.functionCalls
     if (toolCalls?.length) {
 
+      // too many tool rounds or looping: force a final answer
+      if (this.checkChatToolRounds(thread, opts, toolCalls.map((tc) => ({ name: tc.name!, args: tc.args })))) {
+        const completion = await this.chat(model, thread, { ...opts, toolChoice: { type: 'none' } })
+        if (opts?.usage && response.usageMetadata && completion.usage) {
+          completion.usage.prompt_tokens += response.usageMetadata.promptTokenCount ?? 0
+          completion.usage.completion_tokens += response.usageMetadata.candidatesTokenCount ?? 0
+          completion.usage.completion_tokens += response.usageMetadata.toolUsePromptTokenCount ?? 0
+          completion.usage.completion_tokens_details!.reasoning_tokens! += response.usageMetadata.thoughtsTokenCount ?? 0
+        }
+        return completion
+      }
+
       // results
       const results: FunctionResponse[] = []
 
@@ -167,7 +210,7 @@ export default class extends LlmEngine {
 
         // now execute
         let lastUpdate: PluginExecutionResult|undefined = undefined
-        for await (const update of this.callTool({ model: model.id, abortSignal: opts?.abortSignal }, toolCall.name!, toolCall.args, opts?.toolExecutionValidation)) {
+        for await (const update of this.callTool({ model: model.id, abortSignal: opts?.abortSignal }, toolCall.name!, toolCall.args, opts?.toolExecutionValidation, opts?.parentSpan, opts)) {
           if (update.type === 'result') {
             lastUpdate = update
           }
@@ -235,6 +278,7 @@ export default class extends LlmEngine {
       content: response.text,
       toolCalls: toolCallInfo,
       ...(opts?.usage && response.usageMetadata ? response.usageMetadata : {}),
+      ...getFinishReason(response.candidates?.[0]?.finishReason),
     }
   }
 
@@ -279,10 +323,11 @@ export default class extends LlmEngine {
     context.requestUsage = zeroUsage()
 
     logger.log(`[google] prompting model ${context.model.id}`)
+    const request = await this.prepareRequest(context.model, context.content, context.opts)
     const response = await this.client.models.generateContentStream({
-      model: context.model.id,
-      contents: context.content,
-      config: await this.getGenerationConfig(context.model, context.opts),
+      model: request.model.id,
+      contents: request.thread,
+      config: await this.getGenerationConfig(request.model, request.opts),
     })
 
     // done
@@ -298,16 +343,158 @@ export default class extends LlmEngine {
     return ['gemini'].some((m) => model.id.includes(m))
   }
 
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  getStructuredOutputMode(model: ChatModel, opts?: LlmCompletionOpts): LlmStructuredOutputMode {
+    return this.supportsStructuredOutput(model) ? 'native' : 'prompt'
+  }
+
   private getInstructions(model: ChatModel, thread: Message[]): string|undefined {
     return (this.supportsInstructions(model) && thread.length > 1 && thread[0].role === 'system') ? thread[0].content : undefined  
   }
 
-  private typeToSchemaType(type: string, properties?: any): Type {
-    if (type === 'string') return Type.STRING
-    if (type === 'number') return Type.NUMBER
-    if (type === 'boolean') return Type.BOOLEAN
-    if (type === 'array') return Type.ARRAY
-    return properties ? Type.OBJECT : Type.STRING
+  /**
+   * Converts a JSON schema (tool parameters) to a Gemini Schema. Nothing is
+   * dropped: constructs Gemini cannot express throw a LlmSchemaError with the
+   * path of the offending property. Unsupported string formats are moved to
+   * the description as they are only hints for the model. Loose schemas
+   * Gemini would reject get a default instead: no type and array items
+   * without type are strings, objects without properties are JSON strings.
+   * Their paths are added to loose so that the caller can report them.
+   */
+  toGeminiSchema(schema: any, path: string, loose: string[] = []): Schema {
+
+    const fail = (reason: string): never => {
+      throw new LlmSchemaError(`[google] ${path}: ${reason} cannot be expressed in a Gemini schema`, { provider: 'google', path })
+    }
+
+    if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+      fail('a schema that is not an object')
+    }
+
+    // keywords without a gemini equivalent
+    for (const keyword of ['$ref', 'allOf', 'oneOf', 'not', 'if', 'then', 'else', 'patternProperties', 'propertyNames', 'dependentRequired', 'dependentSchemas', 'prefixItems', 'contains', 'uniqueItems', 'multipleOf']) {
+      if (schema[keyword] !== undefined) fail(keyword)
+    }
+    if (Array.isArray(schema.items)) fail('tuple items')
+    if (typeof schema.additionalProperties === 'object') fail('additionalProperties with a schema')
+    if (typeof schema.type === 'string' && !(schema.type in kGeminiTypes)) fail(`type ${schema.type}`)
+
+    // annotations
+    const annotations: Schema = {
+      ...(schema.title !== undefined ? { title: schema.title } : {}),
+      ...(schema.description !== undefined ? { description: schema.description } : {}),
+      ...(schema.default !== undefined ? { default: schema.default } : {}),
+    }
+
+    // several types: nullable and/or alternatives
+    if (Array.isArray(schema.type)) {
+      const types: string[] = schema.type.filter((type: string) => type !== 'null')
+      const nullable = types.length < schema.type.length ? { nullable: true } : {}
+      if (types.length === 0) fail('type null alone')
+      if (types.length === 1) {
+        return { ...this.toGeminiSchema({ ...schema, type: types[0] }, path, loose), ...nullable }
+      }
+      const rest = Object.fromEntries(Object.entries(schema).filter(([key]) => !kGeminiAnnotations.includes(key)))
+      return {
+        anyOf: types.map((type) => this.toGeminiSchema({ ...rest, type }, path, loose)),
+        ...annotations, ...nullable,
+      }
+    }
+
+    // alternatives (null alternatives are nullable)
+    if (schema.anyOf !== undefined) {
+      const { anyOf, ...rest } = schema
+      if (Object.keys(rest).some((key) => !kGeminiAnnotations.includes(key))) fail('anyOf mixed with other keywords')
+      const options: any[] = anyOf.filter((option: any) => option?.type !== 'null')
+      const nullable = options.length < anyOf.length ? { nullable: true } : {}
+      if (options.length === 0) fail('anyOf with only null')
+      if (options.length === 1) {
+        return { ...this.toGeminiSchema(options[0], path, loose), ...annotations, ...nullable }
+      }
+      return {
+        anyOf: options.map((option, index) => this.toGeminiSchema(option, `${path}.anyOf[${index}]`, loose)),
+        ...annotations, ...nullable,
+      }
+    }
+
+    // the type may be implied
+    let type: string = schema.type
+    if (type === undefined) {
+      if (schema.properties) type = 'object'
+      else if (schema.items) type = 'array'
+      else if (schema.enum || schema.const !== undefined) type = 'string'
+      else {
+        loose.push(path)
+        type = 'string'
+      }
+    }
+
+    // free-form objects are rejected by gemini
+    if (type === 'object' && Object.keys(schema.properties ?? {}).length === 0) {
+      loose.push(path)
+      return {
+        type: Type.STRING,
+        ...annotations,
+        description: `${annotations.description ? `${annotations.description} ` : ''}(JSON object)`,
+      }
+    }
+    const gemini: Schema = { type: kGeminiTypes[type as keyof typeof kGeminiTypes], ...annotations }
+
+    // enums are strings only
+    const values = schema.const !== undefined ? [schema.const] : schema.enum
+    if (values !== undefined) {
+      if (type !== 'string' || values.some((value: any) => typeof value !== 'string')) fail('enum of non-string values')
+      gemini.enum = values
+    }
+
+    // strings
+    if (schema.format !== undefined) {
+      if (kGeminiFormats[type]?.includes(schema.format)) {
+        gemini.format = schema.format
+      } else {
+        gemini.description = `${gemini.description ? `${gemini.description} ` : ''}(format: ${schema.format})`
+      }
+    }
+    if (schema.pattern !== undefined) gemini.pattern = schema.pattern
+    if (schema.minLength !== undefined) gemini.minLength = String(schema.minLength)
+    if (schema.maxLength !== undefined) gemini.maxLength = String(schema.maxLength)
+
+    // numbers (exclusive bounds are exact for integers only)
+    if (schema.minimum !== undefined) gemini.minimum = schema.minimum
+    if (schema.maximum !== undefined) gemini.maximum = schema.maximum
+    if (schema.exclusiveMinimum !== undefined) {
+      if (type !== 'integer' || typeof schema.exclusiveMinimum !== 'number') fail('exclusiveMinimum')
+      gemini.minimum = Math.max(schema.exclusiveMinimum + 1, gemini.minimum ?? -Infinity)
+    }
+    if (schema.exclusiveMaximum !== undefined) {
+      if (type !== 'integer' || typeof schema.exclusiveMaximum !== 'number') fail('exclusiveMaximum')
+      gemini.maximum = Math.min(schema.exclusiveMaximum - 1, gemini.maximum ?? Infinity)
+    }
+
+    // arrays
+    if (type === 'array') {
+      if (schema.items === undefined) {
+        loose.push(`${path}[]`)
+        gemini.items = { type: Type.STRING }
+      } else {
+        gemini.items = this.toGeminiSchema(schema.items, `${path}[]`, loose)
+      }
+      if (schema.minItems !== undefined) gemini.minItems = String(schema.minItems)
+      if (schema.maxItems !== undefined) gemini.maxItems = String(schema.maxItems)
+    }
+
+    // objects (ordering is kept as gemini sorts properties otherwise)
+    if (type === 'object') {
+      const properties: Record<string, any> = schema.properties
+      gemini.properties = Object.fromEntries(Object.entries(properties).map(([name, property]) => [name, this.toGeminiSchema(property, `${path}.${name}`, loose)]))
+      gemini.propertyOrdering = Object.keys(properties)
+      if (schema.required?.length) gemini.required = schema.required
+      if (schema.minProperties !== undefined) gemini.minProperties = String(schema.minProperties)
+      if (schema.maxProperties !== undefined) gemini.maxProperties = String(schema.maxProperties)
+    }
+
+    return gemini
+
   }
 
   protected async getGenerationConfig(model: ChatModel, opts?: GoogleCompletionOpts): Promise<GenerateContentConfig|undefined> {
@@ -317,6 +504,10 @@ export default class extends LlmEngine {
       ...(opts?.temperature ? { temperature: opts?.temperature } : {} ),
       ...(opts?.top_k ? { topK: opts?.top_k } : {} ),
       ...(opts?.top_p ? { topP: opts?.top_p } : {} ),
+      ...(opts?.stop ? { stopSequences: [opts.stop].flat() } : {} ),
+      ...(opts?.seed !== undefined ? { seed: opts.seed } : {} ),
+      ...(opts?.presencePenalty !== undefined ? { presencePenalty: opts.presencePenalty } : {} ),
+      ...(opts?.frequencyPenalty !== undefined ? { frequencyPenalty: opts.frequencyPenalty } : {} ),
     }
 
     // add instructions
@@ -350,39 +541,27 @@ export default class extends LlmEngine {
     // add tools
     else if (opts?.tools !== false && model.capabilities.tools) {
 
-      const tools = await this.getAvailableTools();
+      const tools = await this.getAvailableTools(opts);
       if (tools.length) {
 
         const functionDeclarations: FunctionDeclaration[] = [];
 
         for (const tool of tools) {
 
-          const googleProps: { [k: string]: Schema } = {};
-          for (const name of Object.keys(tool.function.parameters.properties)) {
-            const props = tool.function.parameters.properties[name]
-            googleProps[name] = {
-              type: this.typeToSchemaType(props.type),
-              description: props.description,
-              ...(props.enum ? { enum: props.enum } : {}),
-              ...(props.items ? { items: {
-                  type: this.typeToSchemaType(props.items.type, props.items?.properties),
-                  properties: props.items?.properties
-                }
-              } : {}),
-            } as Schema
-          }
-
+          const loose: string[] = []
           functionDeclarations.push({
             name: tool.function.name,
             description: tool.function.description,
-            ...(Object.keys(tool.function.parameters.properties).length == 0 ? {} : {
-              parameters: {
-                type: Type.OBJECT,
-                properties: googleProps,
-                required: tool.function.parameters!.required,
-              }
+            ...(Object.keys(tool.function.parameters?.properties ?? {}).length == 0 ? {} : {
+              parameters: this.toGeminiSchema(tool.function.parameters, tool.function.name, loose),
             })
           })
+
+          // reported once per tool
+          if (loose.length && !this.looseSchemaTools.has(tool.function.name)) {
+            this.looseSchemaTools.add(tool.function.name)
+            logger.log(`[google] ${tool.function.name}: loose schema at ${loose.join(', ')} sent with defaults`)
+          }
         }
 
         // done
@@ -460,6 +639,26 @@ export default class extends LlmEngine {
     //await stream?.controller?.abort()
   }
    
+  addToolResultsToThread(context: GoogleStreamingContext, results: LlmToolCallResult[]): void {
+
+    // function call
+    context.content.push({
+      role: 'assistant',
+      parts: results[0]?.toolCall.message,
+    })
+
+    // send
+    context.content.push({
+      role: 'tool',
+      parts: results.map(({ toolCall, content }) => ({ functionResponse: {
+        id: toolCall.id,
+        name: toolCall.function,
+        response: content
+      } })),
+    })
+
+  }
+
   async *nativeChunkToLlmChunk(chunk: GenerateContentResponse, context: GoogleStreamingContext): AsyncGenerator<LlmChunk> {
 
     // debug
@@ -481,139 +680,15 @@ export default class extends LlmEngine {
       context.toolCalls = toolCalls.filter(tc => tc.name).map((tc) => {
         return {
           id: tc.id || tc.name!,
-          message: '',
+          message: chunk.candidates![0].content!.parts,
           function: tc.name!,
           args: JSON.stringify(tc.args),
         }
       })
 
-      // results
-      const results: FunctionResponse[] = []
-
-      // call
+      // first notify
       for (const toolCall of context.toolCalls) {
-
-        // first notify
-        yield {
-          type: 'tool',
-          id: toolCall.id,
-          name: toolCall.function,
-          state: 'preparing',
-          status: this.getToolPreparationDescription(toolCall.function),
-          done: false
-        }
-
-        // need
-        logger.log(`[google] tool call ${toolCall.function} with ${toolCall.args}`)
-        const args = JSON.parse(toolCall.args)
-
-        try {
-          // first notify
-          yield {
-            type: 'tool',
-            id: toolCall.id,
-            name: toolCall.function,
-            state: 'running',
-            status: this.getToolRunningDescription(toolCall.function, args),
-            call: {
-              params: args,
-              result: undefined
-            },
-            done: false
-          }
-
-          // now execute
-          let lastUpdate: PluginExecutionResult|undefined = undefined
-          for await (const update of this.callTool({ model: context.model.id, abortSignal: context.opts?.abortSignal }, toolCall.function, args, context.opts?.toolExecutionValidation)) {
-
-            if (update.type === 'status') {
-              yield {
-                type: 'tool',
-                id: toolCall.id,
-                name: toolCall.function,
-                state: 'running',
-                status: update.status,
-                call: {
-                  params: args,
-                  result: undefined
-                },
-                done: false
-              }
-
-            } else if (update.type === 'result') {
-              lastUpdate = update
-            }
-
-          }
-
-          // process result using helper method
-          const { content, canceled: toolCallCanceled } = this.processToolExecutionResult('google', toolCall.function, args, lastUpdate)
-
-          // done
-          yield {
-            type: 'tool',
-            id: toolCall.id,
-            name: toolCall.function,
-            state: toolCallCanceled ? 'canceled' : 'completed',
-            status: toolCallCanceled
-              ? this.getToolCanceledDescription(toolCall.function, args) || content.error || 'Tool execution was canceled'
-              : this.getToolCompletedDescription(toolCall.function, args, content),
-            done: true,
-            call: {
-              params: args,
-              result: content
-            }
-          }
-
-          // send
-          results.push({
-            id: toolCall.id,
-            name: toolCall.function,
-            response: content
-          })
-
-          // Check if canceled
-          if (context.opts?.abortSignal?.aborted) {
-            return  // Stop processing
-          }
-
-        } catch (error) {
-          // Check if this was an abort
-          if (context.opts?.abortSignal?.aborted) {
-            yield {
-              type: 'tool',
-              id: toolCall.id,
-              name: toolCall.function,
-              state: 'canceled',
-              status: this.getToolCanceledDescription(toolCall.function, args),
-              done: true,
-              call: {
-                params: args,
-                result: undefined
-              }
-            }
-            return  // Stop processing
-          }
-          throw error  // Re-throw non-abort errors
-        }
-
-      }
-
-      // function call
-      context.content.push({
-        role: 'assistant',
-        parts: chunk.candidates![0].content!.parts,
-      })
-
-      // send
-      context.content.push({
-        role: 'tool',
-        parts: results.map((r) => ({ functionResponse: r }) ),
-      })
-
-      // clear force tool call to avoid infinite loop
-      if (context.opts.toolChoice?.type === 'tool') {
-        delete context.opts.toolChoice
+        yield this.getToolPreparationChunk(toolCall, context.opts)
       }
 
       // add usage
@@ -622,29 +697,35 @@ export default class extends LlmEngine {
         context.requestUsage = zeroUsage()
       }
 
-      // switch to new stream
-      yield {
-        type: 'stream',
-        stream: await this.doStream(context),
-      }
-      
+      // execute the tools and continue
+      yield* this.executeToolRound(context, context.toolCalls)
+
       // done
       return
 
     }
 
     // iterate on candidates
-    const done = !!chunk.candidates?.[0].finishReason
+    const finishReason = chunk.candidates?.[0].finishReason
+    const done = !!finishReason
+    let parts = 0
     for (const candidate of chunk.candidates || []) {
       for (const part of candidate.content?.parts || []) {
+        parts++
         yield {
           type: part.thought ? 'reasoning' : 'content',
           text: part.text || '',
-          done: done
+          done: done,
+          ...getFinishReason(finishReason),
         }
       }
     }
 
+    // blocked answers have no parts
+    if (done && !parts) {
+      yield { type: 'content', text: '', done: true, ...getFinishReason(finishReason) }
+    }
+
     // usage
     if (done && context.opts.usage) {
       context.usage = addUsages(context.usage, context.requestUsage)
@@ -2,13 +2,14 @@ import Groq from 'groq-sdk'
 import { ChatCompletionChunk, ChatCompletionMessageParam } from 'groq-sdk/resources/chat'
 import { ChatCompletionCreateParamsBase } from 'groq-sdk/resources/chat/completions'
 import { minimatch } from 'minimatch'
-import LlmEngine, { LlmStreamingContextTools } from '../engine'
+import LlmEngine, { LlmStreamingContextTools, LlmToolCallResult } from '../engine'
 import logger from '../logger'
 import Message from '../models/message'
 import { ChatModel, EngineCreateOpts, ModelCapabilities, ModelGroq } from '../types/index'
-import { LLmCompletionPayload, LlmChunk, LlmCompletionOpts, LlmResponse, LlmStream, LlmStreamingResponse, LlmToolCall, LlmToolCallInfo } from '../types/llm'
+import { LLmCompletionPayload, LlmChunk, LlmCompletionOpts, LlmResponse, LlmStream, LlmStreamingResponse, LlmToolCall, LlmToolCallInfo, LlmStructuredOutputMode } from '../types/llm'
 import { PluginExecutionResult } from '../types/plugin'
 import { zeroUsage } from '../usage'
+import { getFinishReason } from '../finish'
 
 //
 // https://console.groq.com/docs/api-reference#chat-create
@@ -23,7 +24,8 @@ export default class extends LlmEngine {
     this.client = new Groq({
       apiKey: config.apiKey || '',
       dangerouslyAllowBrowser: true,
-      maxRetries: config.maxRetries
+      timeout: config.timeout,
+      maxRetries: 0, // retries are handled by LlmEngine
     })
   }
 
@@ -73,12 +75,13 @@ export default class extends LlmEngine {
     
     // call
     logger.log(`[groq] prompting model ${model.id}`)
-    const response = await this.client.chat.completions.create({
-      model: model.id,
-      messages: thread as ChatCompletionMessageParam[],
-      ...this.getCompletionOpts(model, opts),
-      ...await this.getToolOpts(model, opts),
-    });
+    const request = await this.prepareRequest(model, thread, opts)
+    const response = await this.retry(model, async () => this.client.chat.completions.create({
+      model: request.model.id,
+      messages: request.thread as ChatCompletionMessageParam[],
+      ...this.getCompletionOpts(request.model, request.opts),
+      ...await this.getToolOpts(request.model, request.opts),
+    }), opts)
 
     // get choice
     const choice = response.choices?.[0]
@@ -87,22 +90,28 @@ export default class extends LlmEngine {
     if (choice?.finish_reason === 'tool_calls') {
 
       const toolCalls = choice.message.tool_calls!
+
+      // too many tool rounds or looping: force a final answer
+      if (this.checkChatToolRounds(thread, opts, toolCalls.map((tc) => ({ name: tc.function.name, args: this.parseToolCallArgs(tc.function.arguments) })))) {
+        const completion = await this.chat(model, thread, { ...opts, toolChoice: { type: 'none' } })
+        if (opts?.usage && response.usage && completion.usage) {
+          completion.usage.prompt_tokens += response.usage.prompt_tokens
+          completion.usage.completion_tokens += response.usage.completion_tokens
+        }
+        return completion
+      }
+
       for (const toolCall of toolCalls) {
 
         // log
         logger.log(`[groq] tool call ${toolCall.function.name} with ${toolCall.function.arguments}`)
 
-        // this can error
-        let args = null
-        try {
-          args = JSON.parse(toolCall.function.arguments)
-        } catch (err) {
-          throw new Error(`[groq] tool call ${toolCall.function.name} with invalid JSON args: "${toolCall.function.arguments}"`, { cause: err })
-        }
+        // invalid args are reported to the model
+        const args = this.parseToolCallArgs(toolCall.function.arguments)
         
         // now execute
         let lastUpdate: PluginExecutionResult|undefined = undefined
-        for await (const update of this.callTool({ model: model.id, abortSignal: opts?.abortSignal }, toolCall.function.name, args, opts?.toolExecutionValidation)) {
+        for await (const update of this.callTool({ model: model.id, abortSignal: opts?.abortSignal }, toolCall.function.name, args, opts?.toolExecutionValidation, opts?.parentSpan, opts)) {
           if (update.type === 'result') {
             lastUpdate = update
           }
@@ -176,6 +185,7 @@ export default class extends LlmEngine {
       content: response.choices?.[0].message.content || '',
       toolCalls: toolCallInfo,
       ...(opts?.usage && response.usage ? { usage: response.usage } : {}),
+      ...getFinishReason(response.choices?.[0].finish_reason),
     }
   }
 
@@ -208,11 +218,12 @@ export default class extends LlmEngine {
 
     // call
     logger.log(`[groq] prompting model ${context.model.id}`)
+    const request = await this.prepareRequest(context.model, context.thread, context.opts)
     const stream = this.client.chat.completions.create({
-      model: context.model.id,
-      messages: context.thread as ChatCompletionMessageParam[],
-      ...this.getCompletionOpts(context.model, context.opts),
-      ...await this.getToolOpts(context.model, context.opts),
+      model: request.model.id,
+      messages: request.thread as ChatCompletionMessageParam[],
+      ...this.getCompletionOpts(request.model, request.opts),
+      ...await this.getToolOpts(request.model, request.opts),
       stream: true,
     })
 
@@ -221,12 +232,22 @@ export default class extends LlmEngine {
 
   }
 
+  // json mode does not take a schema
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  getStructuredOutputMode(model: ChatModel, opts?: LlmCompletionOpts): LlmStructuredOutputMode {
+    return 'prompt'
+  }
+
   getCompletionOpts(model: ChatModel, opts?: LlmCompletionOpts): Omit<ChatCompletionCreateParamsBase, 'model'|'messages'|'stream'> {
     return {
       ...(opts?.maxTokens ? { max_tokens: opts?.maxTokens } : {} ),
       ...(opts?.temperature ? { temperature: opts?.temperature } : {} ),
       //...(opts?.top_k ? { logprobs: true, top_logprobs: opts?.top_k } : {} ),
       ...(opts?.top_p ? { top_p: opts?.top_p } : {} ),
+      ...(opts?.stop ? { stop: opts.stop } : {} ),
+      ...(opts?.seed !== undefined ? { seed: opts.seed } : {} ),
+      ...(opts?.presencePenalty !== undefined ? { presence_penalty: opts.presencePenalty } : {} ),
+      ...(opts?.frequencyPenalty !== undefined ? { frequency_penalty: opts.frequencyPenalty } : {} ),
       ...(opts?.structuredOutput ? { response_format: { type: 'json_object' } } : {} ),
     }
   }
@@ -239,7 +260,7 @@ export default class extends LlmEngine {
     }
 
     // tools
-    const tools = await this.getAvailableTools()
+    const tools = await this.getAvailableTools(opts)
     return tools.length ? {
       tools: tools,
       tool_choice: opts?.toolChoice?.type === 'tool' ? {
@@ -254,6 +275,29 @@ export default class extends LlmEngine {
     stream.controller?.abort()
   }
 
+  addToolResultsToThread(context: LlmStreamingContextTools, results: LlmToolCallResult[]): void {
+
+    for (const { toolCall, content } of results) {
+
+      // add tool call message
+      context.thread.push({
+        role: 'assistant',
+        content: '',
+        tool_calls: toolCall.message
+      })
+
+      // add tool response message
+      context.thread.push({
+        role: 'tool',
+        tool_call_id: toolCall.id,
+        name: toolCall.function,
+        content: JSON.stringify(content)
+      })
+
+    }
+
+  }
+
   async *nativeChunkToLlmChunk(chunk: ChatCompletionChunk, context: LlmStreamingContextTools): AsyncGenerator<LlmChunk> {
 
     // debug
@@ -288,14 +332,7 @@ export default class extends LlmEngine {
         context.toolCalls.push(toolCall)
 
         // first notify
-        yield {
-          type: 'tool',
-          id: toolCall.id,
-          name: toolCall.function,
-          state: 'preparing',
-          status: this.getToolPreparationDescription(toolCall.function),
-          done: false
-        }
+        yield this.getToolPreparationChunk(toolCall, context.opts)
 
         // done
         //return
@@ -317,132 +354,8 @@ export default class extends LlmEngine {
     // now tool calling
     if (['tool_calls', 'function_call', 'stop'].includes(chunk.choices[0]?.finish_reason|| '') && context.toolCalls?.length) {
 
-      // iterate on tools
-      for (const toolCall of context.toolCalls) {
-
-        // log
-        logger.log(`[groq] tool call ${toolCall.function} with ${toolCall.args}`)
-        const args = JSON.parse(toolCall.args)
-
-        try {
-          // first notify
-          yield {
-            type: 'tool',
-            id: toolCall.id,
-            name: toolCall.function,
-            state: 'running',
-            status: this.getToolRunningDescription(toolCall.function, args),
-            call: {
-              params: args,
-              result: undefined
-            },
-            done: false
-          }
-
-          // now execute
-          let lastUpdate: PluginExecutionResult|undefined = undefined
-          for await (const update of this.callTool({ model: context.model.id, abortSignal: context.opts?.abortSignal }, toolCall.function, args, context.opts?.toolExecutionValidation)) {
-
-            if (update.type === 'status') {
-              yield {
-                type: 'tool',
-                id: toolCall.id,
-                name: toolCall.function,
-                state: 'running',
-                status: update.status,
-                call: {
-                  params: args,
-                  result: undefined
-                },
-                done: false
-              }
-
-            } else if (update.type === 'result') {
-              lastUpdate = update
-            }
-
-          }
-
-          // process result
-          const { content, canceled: toolCallCanceled } = this.processToolExecutionResult(
-            'groq',
-            toolCall.function,
-            args,
-            lastUpdate
-          )
-
-          // log
-          logger.log(`[groq] tool call ${toolCall.function} => ${JSON.stringify(content).substring(0, 128)}`)
-
-
-          // done
-          yield {
-            type: 'tool',
-            id: toolCall.id,
-            name: toolCall.function,
-            state: toolCallCanceled ? 'canceled' : 'completed',
-            status: toolCallCanceled
-              ? this.getToolCanceledDescription(toolCall.function, args) || content.error || 'Tool execution was canceled'
-              : this.getToolCompletedDescription(toolCall.function, args, content),
-            done: true,
-            call: {
-              params: args,
-              result: content
-            }
-          }
-
-          // add tool call message
-          context.thread.push({
-            role: 'assistant',
-            content: '',
-            tool_calls: toolCall.message
-          })
-
-          // add tool response message
-          context.thread.push({
-            role: 'tool',
-            tool_call_id: toolCall.id,
-            name: toolCall.function,
-            content: JSON.stringify(content)
-          })
-
-          // Check if canceled
-          if (context.opts?.abortSignal?.aborted) {
-            return  // Stop processing
-          }
-
-        } catch (error) {
-          // Check if this was an abort
-          if (context.opts?.abortSignal?.aborted) {
-            yield {
-              type: 'tool',
-              id: toolCall.id,
-              name: toolCall.function,
-              state: 'canceled',
-              status: this.getToolCanceledDescription(toolCall.function, args),
-              done: true,
-              call: {
-                params: args,
-                result: undefined
-              }
-            }
-            return  // Stop processing
-          }
-          throw error  // Re-throw non-abort errors
-        }
-
-      }
-
-      // clear force tool call to avoid infinite loop
-      if (context.opts.toolChoice?.type === 'tool') {
-        delete context.opts.toolChoice
-      }
-
-      // switch to new stream
-      yield {
-        type: 'stream',
-        stream: await this.doStream(context),
-      }
+      // execute the tools and continue
+      yield* this.executeToolRound(context, context.toolCalls)
 
       // done
       return
@@ -469,10 +382,10 @@ export default class extends LlmEngine {
     }
 
     // normal content
-    if (['stop', 'length'].includes(chunk.choices[0].finish_reason || '')) {
+    if (['stop', 'length', 'content_filter'].includes(chunk.choices[0].finish_reason || '')) {
 
       // done
-      yield { type: 'content', text: '', done: true }
+      yield { type: 'content', text: '', done: true, ...getFinishReason(chunk.choices[0].finish_reason) }
 
       // usage?
       if (context.opts?.usage) {
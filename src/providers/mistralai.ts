@@ -1,13 +1,14 @@
 import { Mistral } from '@mistralai/mistralai'
 import { AssistantMessage, ChatCompletionStreamRequest, CompletionEvent, SystemMessage, ToolMessage, UserMessage } from '@mistralai/mistralai/models/components'
-import LlmEngine, { LlmStreamingContextTools } from '../engine'
+import LlmEngine, { LlmStreamingContextTools, LlmToolCallResult } from '../engine'
 import logger from '../logger'
 import Attachment from '../models/attachment'
 import Message from '../models/message'
 import { ChatModel, EngineCreateOpts, ModelCapabilities, ModelMistralAI } from '../types/index'
-import { LlmChunk, LlmCompletionOpts, LLmCompletionPayload, LlmResponse, LlmStream, LlmStreamingResponse, LlmToolCall, LlmToolCallInfo } from '../types/llm'
+import { LlmChunk, LlmCompletionOpts, LLmCompletionPayload, LlmResponse, LlmStream, LlmStreamingResponse, LlmToolCall, LlmToolCallInfo, LlmStructuredOutputMode } from '../types/llm'
 import { PluginExecutionResult } from '../types/plugin'
 import { zeroUsage } from '../usage'
+import { getFinishReason } from '../finish'
 
 type MistralMessages = Array<
 | (SystemMessage & { role: "system" })
@@ -27,7 +28,8 @@ export default class extends LlmEngine {
   constructor(config: EngineCreateOpts) {
     super(config)
     this.client = new Mistral({
-      apiKey: config.apiKey || ''
+      apiKey: config.apiKey || '',
+      timeoutMs: config.timeout,
     })
   }
 
@@ -68,12 +70,13 @@ export default class extends LlmEngine {
     
     // call
     logger.log(`[mistralai] prompting model ${model.id}`)
-    const response = await this.client.chat.complete({
-      model: model.id,
-      messages: thread as MistralMessages,
-      ...this.getCompletionOpts(model, opts),
-      ...await this.getToolOpts(model, opts),
-    });
+    const request = await this.prepareRequest(model, thread, opts)
+    const response = await this.retry(model, async () => this.client.chat.complete({
+      model: request.model.id,
+      messages: request.thread as MistralMessages,
+      ...this.getCompletionOpts(request.model, request.opts),
+      ...await this.getToolOpts(request.model, request.opts),
+    }), opts)
 
     // get choice
     const choice = response.choices?.[0]
@@ -82,14 +85,31 @@ export default class extends LlmEngine {
     if (choice?.finishReason === 'tool_calls') {
 
       const toolCalls = choice.message.toolCalls!
+
+      // too many tool rounds or looping: force a final answer
+      if (this.checkChatToolRounds(thread, opts, toolCalls.map((tc) => ({
+        name: tc.function.name,
+        args: typeof tc.function.arguments === 'string' ? this.parseToolCallArgs(tc.function.arguments) : tc.function.arguments,
+      })))) {
+        const completion = await this.chat(model, thread, { ...opts, toolChoice: { type: 'none' } })
+        if (opts?.usage && response.usage && completion.usage) {
+          completion.usage.prompt_tokens += response.usage.promptTokens ?? 0
+          completion.usage.completion_tokens += response.usage.completionTokens ?? 0
+        }
+        return completion
+      }
+
       for (const toolCall of toolCalls) {
 
         // log
         logger.log(`[mistralai] tool call ${toolCall.function.name} with ${toolCall.function.arguments}`)
 
+        // invalid args are reported to the model
+        const args = typeof toolCall.function.arguments === 'string' ? this.parseToolCallArgs(toolCall.function.arguments) : toolCall.function.arguments
+
         // now execute
         let lastUpdate: PluginExecutionResult|undefined = undefined
-        for await (const update of this.callTool({ model: model.id, abortSignal: opts?.abortSignal }, toolCall.function.name, toolCall.function.arguments, opts?.toolExecutionValidation)) {
+        for await (const update of this.callTool({ model: model.id, abortSignal: opts?.abortSignal }, toolCall.function.name, args, opts?.toolExecutionValidation, opts?.parentSpan, opts)) {
           if (update.type === 'result') {
             lastUpdate = update
           }
@@ -99,7 +119,7 @@ export default class extends LlmEngine {
         const { content, canceled } = this.processToolExecutionResult(
           'mistralai',
           toolCall.function.name,
-          toolCall.function.arguments,
+          args,
           lastUpdate
         )
 
@@ -122,7 +142,7 @@ export default class extends LlmEngine {
         // save tool call info
         toolCallInfo.push({
           name: toolCall.function.name,
-          params: toolCall.function.arguments,
+          params: args,
           result: content
         })
       }
@@ -156,6 +176,7 @@ export default class extends LlmEngine {
         prompt_tokens: response.usage.promptTokens ?? 0,
         completion_tokens: response.usage.completionTokens ?? 0,
       } } : {}),
+      ...getFinishReason(response.choices?.[0].finishReason),
     }
   }
 
@@ -188,11 +209,12 @@ export default class extends LlmEngine {
 
     // call
     logger.log(`[mistralai] prompting model ${context.model.id}`)
+    const request = await this.prepareRequest(context.model, context.thread, context.opts)
     const stream = this.client.chat.stream({
-      model: context.model.id,
-      messages: context.thread,
-      ...this.getCompletionOpts(context.model, context.opts),
-      ...await this.getToolOpts(context.model, context.opts),
+      model: request.model.id,
+      messages: request.thread,
+      ...this.getCompletionOpts(request.model, request.opts),
+      ...await this.getToolOpts(request.model, request.opts),
     })
 
     // done
@@ -200,11 +222,21 @@ export default class extends LlmEngine {
 
   }
 
+  // json mode does not take a schema
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  getStructuredOutputMode(model: ChatModel, opts?: LlmCompletionOpts): LlmStructuredOutputMode {
+    return 'prompt'
+  }
+
   getCompletionOpts(model: ChatModel, opts?: LlmCompletionOpts): Omit<ChatCompletionStreamRequest, 'model'|'messages'|'stream'> {
     return {
       maxTokens: opts?.maxTokens,
       temperature: opts?.temperature,
       topP: opts?.top_p,
+      ...(opts?.stop ? { stop: opts.stop } : {} ),
+      ...(opts?.seed !== undefined ? { randomSeed: opts.seed } : {} ),
+      ...(opts?.presencePenalty !== undefined ? { presencePenalty: opts.presencePenalty } : {} ),
+      ...(opts?.frequencyPenalty !== undefined ? { frequencyPenalty: opts.frequencyPenalty } : {} ),
       ...(opts?.structuredOutput ? { responseFormat: { type: 'json_object' } } : {} ),
     }
   }
@@ -217,7 +249,7 @@ export default class extends LlmEngine {
     }
 
     // tools
-    const tools = await this.getAvailableTools()
+    const tools = await this.getAvailableTools(opts)
     return tools.length ? {
       tools: tools,
       toolChoice: opts?.toolChoice?.type === 'tool' ? {
@@ -232,6 +264,28 @@ export default class extends LlmEngine {
   }
 
    
+  addToolResultsToThread(context: LlmStreamingContextTools, results: LlmToolCallResult[]): void {
+
+    for (const { toolCall, content } of results) {
+
+      // add tool call message
+      context.thread.push({
+        role: 'assistant',
+        toolCalls: toolCall.message
+      })
+
+      // add tool response message
+      context.thread.push({
+        role: 'tool',
+        toolCallId: toolCall.id,
+        name: toolCall.function,
+        content: JSON.stringify(content)
+      })
+
+    }
+
+  }
+
   async *nativeChunkToLlmChunk(chunk: CompletionEvent, context: LlmStreamingContextTools): AsyncGenerator<LlmChunk> {
 
     // debug
@@ -265,14 +319,7 @@ export default class extends LlmEngine {
         context.toolCalls.push(toolCall)
 
         // first notify
-        yield {
-          type: 'tool',
-          id: toolCall.id,
-          name: toolCall.function,
-          state: 'preparing',
-          status: this.getToolPreparationDescription(toolCall.function),
-          done: false
-        }
+        yield this.getToolPreparationChunk(toolCall, context.opts)
 
       } else {
 
@@ -290,127 +337,8 @@ export default class extends LlmEngine {
       // debug
       //logger.log('[mistralai] tool calls:', context.toolCalls)
 
-      // add tools
-      for (const toolCall of context.toolCalls) {
-
-        // log
-        logger.log(`[mistralai] tool call ${toolCall.function} with ${toolCall.args}`)
-        const args = JSON.parse(toolCall.args)
-
-        try {
-          // first notify
-          yield {
-            type: 'tool',
-            id: toolCall.id,
-            name: toolCall.function,
-            state: 'running',
-            status: this.getToolRunningDescription(toolCall.function, args),
-            call: {
-              params: args,
-              result: undefined
-            },
-            done: false
-          }
-
-          // now execute
-          let lastUpdate: PluginExecutionResult|undefined = undefined
-          for await (const update of this.callTool({ model: context.model.id, abortSignal: context.opts?.abortSignal }, toolCall.function, args, context.opts?.toolExecutionValidation)) {
-
-            if (update.type === 'status') {
-              yield {
-                type: 'tool',
-                id: toolCall.id,
-                name: toolCall.function,
-                state: 'running',
-                status: update.status,
-                call: {
-                  params: args,
-                  result: undefined
-                },
-                done: false
-              }
-
-            } else if (update.type === 'result') {
-              lastUpdate = update
-            }
-
-          }
-
-          // process result
-          const { content, canceled: toolCallCanceled } = this.processToolExecutionResult(
-            'mistralai',
-            toolCall.function,
-            args,
-            lastUpdate
-          )
-
-          // done
-          yield {
-            type: 'tool',
-            id: toolCall.id,
-            name: toolCall.function,
-            state: toolCallCanceled ? 'canceled' : 'completed',
-            status: toolCallCanceled
-              ? this.getToolCanceledDescription(toolCall.function, args) || content.error || 'Tool execution was canceled'
-              : this.getToolCompletedDescription(toolCall.function, args, content),
-            done: true,
-            call: {
-              params: args,
-              result: content
-            }
-          }
-
-          // add tool call message
-          context.thread.push({
-            role: 'assistant',
-            toolCalls: toolCall.message
-          })
-
-          // add tool response message
-          context.thread.push({
-            role: 'tool',
-            toolCallId: toolCall.id,
-            name: toolCall.function,
-            content: JSON.stringify(content)
-          })
-
-          // Check if canceled
-          if (context.opts?.abortSignal?.aborted) {
-            return  // Stop processing
-          }
-
-        } catch (error) {
-          // Check if this was an abort
-          if (context.opts?.abortSignal?.aborted) {
-            yield {
-              type: 'tool',
-              id: toolCall.id,
-              name: toolCall.function,
-              state: 'canceled',
-              status: this.getToolCanceledDescription(toolCall.function, args),
-              done: true,
-              call: {
-                params: args,
-                result: undefined
-              }
-            }
-            return  // Stop processing
-          }
-          throw error  // Re-throw non-abort errors
-        }
-
-      }
-
-      // clear force tool call to avoid infinite loop
-      if (context.opts.toolChoice?.type === 'tool') {
-        delete context.opts.toolChoice
-      }
-
-      // switch to new stream
-      yield {
-        type: 'stream',
-        stream: await this.doStream(context),
-      }
+      // execute the tools and continue
+      yield* this.executeToolRound(context, context.toolCalls)
 
       // done
       return
@@ -421,7 +349,8 @@ export default class extends LlmEngine {
     yield {
       type: 'content',
       text: chunk.data.choices[0].delta.content as string || '',
-      done: chunk.data.choices[0].finishReason != null
+      done: chunk.data.choices[0].finishReason != null,
+      ...getFinishReason(chunk.data.choices[0].finishReason),
     }
 
     // usage
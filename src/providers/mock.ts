@@ -0,0 +1,311 @@
+import LlmEngine, { LlmStreamingContextTools, LlmToolCallResult } from '../engine'
+import logger from '../logger'
+import Message from '../models/message'
+import { ChatModel, EngineCreateOpts, ModelCapabilities, ModelGeneric } from '../types/index'
+import { LLmCompletionPayload, LlmChunk, LlmCompletionOpts, LlmResponse, LlmStream, LlmStreamingResponse, LlmToolCall, LlmToolCallInfo, LlmUsage } from '../types/llm'
+import { zeroUsage } from '../usage'
+import { getFinishReason } from '../finish'
+
+//
+// scripted engine for offline tests: each call to the model
+// (including the ones following tool calls) plays the next response
+//
+
+export type LlmMockChunk = {
+  type: 'content'|'reasoning'
+  text: string
+} | {
+  type: 'tool_call'
+  name: string
+  args?: any
+  id?: string
+} | {
+  type: 'usage'
+  prompt_tokens: number
+  completion_tokens: number
+} | {
+  type: 'finish'
+  reason: string
+} | {
+  type: 'error'
+  error: any
+}
+
+// a plain string is a single content chunk
+export type LlmMockResponse = string | LlmMockChunk[]
+
+export type LlmMockRequest = {
+  model: string
+  thread: any[]
+  tools: string[]
+}
+
+export type LlmMockEngineOpts = EngineCreateOpts & {
+  responses?: LlmMockResponse[]
+  capabilities?: Partial<ModelCapabilities>
+  delay?: number
+}
+
+type MockNativeChunk = LlmMockChunk | { type: 'done', reason?: string }
+
+export default class extends LlmEngine {
+
+  responses: LlmMockResponse[]
+  requests: LlmMockRequest[]
+
+  constructor(config: LlmMockEngineOpts = {}) {
+    super(config)
+    this.responses = [...config.responses ?? []]
+    this.requests = []
+  }
+
+  getId(): string {
+    return 'mock'
+  }
+
+  getModelCapabilities(): ModelCapabilities {
+    return {
+      tools: true,
+      vision: false,
+      reasoning: false,
+      caching: false,
+      ...(this.config as LlmMockEngineOpts).capabilities,
+    }
+  }
+
+  async getModels(): Promise<ModelGeneric[]> {
+    return [{ id: 'mock', name: 'Mock' }]
+  }
+
+  addResponse(...responses: LlmMockResponse[]): void {
+    this.responses.push(...responses)
+  }
+
+  async chat(model: ChatModel, thread: any[], opts?: LlmCompletionOpts): Promise<LlmResponse> {
+
+    // play the next response
+    logger.log(`[mock] prompting model ${model.id}`)
+    const request = await this.prepareRequest(model, thread, opts)
+    const response = await this.retry(model, async () => {
+      const chunks = await this.nextResponse(request.model, request.thread, request.opts)
+      const error = chunks.find((chunk) => chunk.type === 'error')
+      if (error) throw error.error
+      return chunks
+    }, opts)
+
+    // aggregate
+    let content = ''
+    let finish: string|undefined = undefined
+    let usage = zeroUsage()
+    const toolCalls: LlmToolCall[] = []
+    for (const chunk of response) {
+      if (chunk.type === 'content') content += chunk.text
+      if (chunk.type === 'finish') finish = chunk.reason
+      if (chunk.type === 'tool_call') toolCalls.push(this.toToolCall(chunk))
+      usage = this.addUsage(usage, chunk)
+    }
+
+    // tool calls
+    if (toolCalls.length) {
+
+      // too many tool rounds or looping: force a final answer
+      if (this.checkChatToolRounds(thread, opts, toolCalls.map((tc) => ({ name: tc.function, args: this.parseToolCallArgs(tc.args) })))) {
+        const completion = await this.chat(model, thread, { ...opts, toolChoice: { type: 'none' } })
+        return this.addCompletionUsage(completion, usage, opts)
+      }
+
+      // execute
+      const tools = this.executeToolCalls({ model, opts: opts ?? {} }, toolCalls)
+      let next = await tools.next()
+      while (!next.done) {
+        next = await tools.next()
+      }
+      const results = next.value
+
+      // for non-streaming, throw immediately on cancel
+      if (results.some((result) => result.canceled)) {
+        throw new Error('Tool execution was canceled')
+      }
+
+      // add to the thread and prompt again
+      this.addToolResultsToThread({ thread }, results)
+      const completion = await this.chat(model, thread, opts)
+      completion.toolCalls = [
+        ...results.map((result): LlmToolCallInfo => ({ name: result.toolCall.function, params: result.args, result: result.content })),
+        ...completion.toolCalls ?? [],
+      ]
+      return this.addCompletionUsage(completion, usage, opts)
+
+    }
+
+    // done
+    return {
+      type: 'text',
+      content: content,
+      toolCalls: [],
+      ...(opts?.usage ? { usage } : {}),
+      ...getFinishReason(finish),
+    }
+
+  }
+
+  async stream(model: ChatModel, thread: Message[], opts?: LlmCompletionOpts): Promise<LlmStreamingResponse> {
+
+    // context
+    const context: LlmStreamingContextTools = {
+      model: model,
+      thread: this.buildPayload(model, thread, opts),
+      opts: opts || {},
+      toolCalls: [],
+      usage: zeroUsage(),
+    }
+
+    // do it
+    return {
+      stream: await this.doStream(context),
+      context: context
+    }
+
+  }
+
+  async doStream(context: LlmStreamingContextTools): Promise<LlmStream> {
+
+    // reset
+    context.toolCalls = []
+
+    // play the next response
+    logger.log(`[mock] prompting model ${context.model.id}`)
+    const request = await this.prepareRequest(context.model, context.thread, context.opts)
+    const chunks = await this.nextResponse(request.model, request.thread, request.opts)
+    const delay = (this.config as LlmMockEngineOpts).delay ?? 0
+    const controller = new AbortController()
+
+    // native stream
+    const stream = (async function* (): AsyncGenerator<MockNativeChunk> {
+      let finish: string|undefined = undefined
+      for (const chunk of chunks) {
+        if (delay) await new Promise((resolve) => setTimeout(resolve, delay))
+        if (controller.signal.aborted) return
+        if (chunk.type === 'error') throw chunk.error
+        if (chunk.type === 'finish') finish = chunk.reason
+        else yield chunk
+      }
+      yield { type: 'done', reason: finish }
+    })()
+
+    // done
+    return Object.assign(stream, { controller })
+
+  }
+
+  async stop(stream: LlmStream): Promise<void> {
+    stream.controller?.abort()
+  }
+
+  addToolResultsToThread(context: Pick<LlmStreamingContextTools, 'thread'>, results: LlmToolCallResult[]): void {
+
+    // one assistant message with all the tool calls
+    context.thread.push({
+      role: 'assistant',
+      content: '',
+      tool_calls: results.map((result) => result.toolCall.message),
+    })
+
+    // and the results
+    for (const { toolCall, content } of results) {
+      context.thread.push({
+        role: 'tool',
+        tool_call_id: toolCall.id,
+        name: toolCall.function,
+        content: JSON.stringify(content),
+      })
+    }
+
+  }
+
+  async *nativeChunkToLlmChunk(chunk: MockNativeChunk, context: LlmStreamingContextTools): AsyncGenerator<LlmChunk> {
+
+    // text
+    if (chunk.type === 'content' || chunk.type === 'reasoning') {
+      yield { type: chunk.type, text: chunk.text, done: false }
+      return
+    }
+
+    // tool call
+    if (chunk.type === 'tool_call') {
+      const toolCall = this.toToolCall(chunk)
+      context.toolCalls.push(toolCall)
+      yield this.getToolPreparationChunk(toolCall, context.opts)
+      return
+    }
+
+    // usage
+    if (chunk.type === 'usage') {
+      context.usage = this.addUsage(context.usage, chunk)
+      return
+    }
+
+    // end of response: execute the tools and continue
+    if (context.toolCalls.length) {
+      yield* this.executeToolRound(context, context.toolCalls)
+      return
+    }
+
+    // done
+    yield { type: 'content', text: '', done: true, ...getFinishReason(chunk.type === 'done' ? chunk.reason : undefined) }
+    if (context.opts?.usage) {
+      yield { type: 'usage', usage: context.usage }
+    }
+
+  }
+
+  private async nextResponse(model: ChatModel, thread: LLmCompletionPayload[], opts?: LlmCompletionOpts): Promise<LlmMockChunk[]> {
+
+    // record the request
+    this.requests.push({
+      model: model.id,
+      thread: JSON.parse(JSON.stringify(thread)),
+      tools: (await this.getAvailableTools(opts)).map((tool) => tool.function.name),
+    })
+
+    // we need something to play
+    const response = this.responses.shift()
+    if (response === undefined) {
+      throw new Error('[mock] no scripted response left')
+    }
+
+    // normalize
+    return typeof response === 'string' ? [{ type: 'content', text: response }] : response
+
+  }
+
+  private toToolCall(chunk: LlmMockChunk & { type: 'tool_call' }): LlmToolCall {
+    const id = chunk.id ?? this.generateToolCallId()
+    // strings are sent as is to simulate malformed arguments
+    const args = typeof chunk.args === 'string' ? chunk.args : JSON.stringify(chunk.args ?? {})
+    return {
+      id: id,
+      message: { id: id, type: 'function', function: { name: chunk.name, arguments: args } },
+      function: chunk.name,
+      args: args,
+    }
+  }
+
+  private addUsage(usage: LlmUsage, chunk: LlmMockChunk): LlmUsage {
+    if (chunk.type !== 'usage') return usage
+    return {
+      ...usage,
+      prompt_tokens: usage.prompt_tokens + chunk.prompt_tokens,
+      completion_tokens: usage.completion_tokens + chunk.completion_tokens,
+    }
+  }
+
+  private addCompletionUsage(completion: LlmResponse, usage: LlmUsage, opts?: LlmCompletionOpts): LlmResponse {
+    if (opts?.usage && completion.usage) {
+      completion.usage.prompt_tokens += usage.prompt_tokens
+      completion.usage.completion_tokens += usage.completion_tokens
+    }
+    return completion
+  }
+
+}
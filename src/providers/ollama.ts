@@ -1,10 +1,11 @@
-import LlmEngine, { LlmStreamingContextTools } from '../engine'
+import LlmEngine, { LlmStreamingContextTools, LlmToolCallResult } from '../engine'
 import logger from '../logger'
 import Attachment from '../models/attachment'
 import Message from '../models/message'
 import { ChatModel, EngineCreateOpts, ModelCapabilities, ModelOllama, ModelsList } from '../types/index'
 import { LLmCompletionPayload, LlmChunk, LlmCompletionOpts, LlmResponse, LlmStream, LlmStreamingResponse, LlmToolCall, LlmToolCallInfo, LlmUsage } from '../types/llm'
 import { PluginExecutionResult } from '../types/plugin'
+import { getFinishReason } from '../finish'
 
 import { minimatch } from 'minimatch'
 import { ChatRequest, ChatResponse, Ollama, ProgressResponse, ShowResponse } from 'ollama/dist/browser.cjs'
@@ -182,19 +183,30 @@ export default class extends LlmEngine {
     
     // call
     logger.log(`[ollama] prompting model ${model.id}`)
-    const response = await this.client.chat({
+    const request = await this.prepareRequest(model, thread, opts)
+    const response = await this.retry(model, async () => this.client.chat({
       ...this.buildChatOptions({
-        model: model.id,
-        messages: thread,
-        opts: opts || null,
+        model: request.model.id,
+        messages: request.thread,
+        opts: request.opts,
       }),
-      ...await this.getToolOpts(model, opts || {}),
+      ...await this.getToolOpts(request.model, request.opts),
       stream: false,
-    })
+    }), opts)
 
     // tool class
     if (response.message.tool_calls?.length) {
 
+      // too many tool rounds or looping: force a final answer
+      if (this.checkChatToolRounds(thread, opts, response.message.tool_calls.map((tc) => ({ name: tc.function.name, args: tc.function.arguments })))) {
+        const completion = await this.chat(model, thread, { ...opts, toolChoice: { type: 'none' } })
+        if (opts?.usage && completion.usage) {
+          completion.usage.prompt_tokens += response.prompt_eval_count ?? 0
+          completion.usage.completion_tokens += response.eval_count ?? 0
+        }
+        return completion
+      }
+
       // iterate on each tool
       for (const toolCall of response.message.tool_calls) {
 
@@ -203,7 +215,7 @@ export default class extends LlmEngine {
 
         // now execute
         let lastUpdate: PluginExecutionResult|undefined = undefined
-        for await (const update of this.callTool({ model: model.id, abortSignal: opts?.abortSignal }, toolCall.function.name, toolCall.function.arguments, opts?.toolExecutionValidation)) {
+        for await (const update of this.callTool({ model: model.id, abortSignal: opts?.abortSignal }, toolCall.function.name, toolCall.function.arguments, opts?.toolExecutionValidation, opts?.parentSpan, opts)) {
           if (update.type === 'result') {
             lastUpdate = update
           }
@@ -262,7 +274,8 @@ export default class extends LlmEngine {
       ...(opts?.usage ?  { usage: {
         prompt_tokens: response.prompt_eval_count,
         completion_tokens: response.eval_count,
-      } } : {})
+      } } : {}),
+      ...getFinishReason(response.done_reason),
     }
   }
 
@@ -296,13 +309,14 @@ export default class extends LlmEngine {
 
     // call
     logger.log(`[ollama] prompting model ${context.model.id}`)
+    const request = await this.prepareRequest(context.model, context.thread, context.opts)
     const stream = this.client.chat({
       ...this.buildChatOptions({
-        model: context.model.id,
-        messages: context.thread,
-        opts: context.opts
+        model: request.model.id,
+        messages: request.thread,
+        opts: request.opts
       }),
-      ...await this.getToolOpts(context.model, context.opts || {}),
+      ...await this.getToolOpts(request.model, request.opts),
       stream: true,
     })
 
@@ -334,6 +348,18 @@ export default class extends LlmEngine {
     if (opts?.top_p) {
       chatOptions.options!.top_p = opts.top_p
     }
+    if (opts?.stop) {
+      chatOptions.options!.stop = [opts.stop].flat()
+    }
+    if (opts?.seed !== undefined) {
+      chatOptions.options!.seed = opts.seed
+    }
+    if (opts?.presencePenalty !== undefined) {
+      chatOptions.options!.presence_penalty = opts.presencePenalty
+    }
+    if (opts?.frequencyPenalty !== undefined) {
+      chatOptions.options!.frequency_penalty = opts.frequencyPenalty
+    }
     if (opts?.structuredOutput) {
       chatOptions.format = zodToJsonSchema(opts.structuredOutput.structure, { name: opts.structuredOutput.name })
     }
@@ -348,13 +374,13 @@ export default class extends LlmEngine {
 
   async getToolOpts(model: ChatModel, opts?: LlmCompletionOpts): Promise<Omit<ChatRequest, 'model'>> {
 
-    // disabled?
-    if (opts?.tools === false || !model.capabilities.tools) {
+    // disabled? (ollama does not support tool_choice)
+    if (opts?.tools === false || opts?.toolChoice?.type === 'none' || !model.capabilities.tools) {
       return {}
     }
 
     // tools
-    const tools = await this.getAvailableTools()
+    const tools = await this.getAvailableTools(opts)
     return tools.length ? {
       tools: tools,
       //tool_choice: 'auto',
@@ -366,6 +392,23 @@ export default class extends LlmEngine {
     await this.client.abort()
   }
 
+  addToolResultsToThread(context: OllamaStreamingContext, results: LlmToolCallResult[]): void {
+
+    // add tool call message
+    if (results.length) {
+      context.thread.push(results[0].toolCall.message)
+    }
+
+    // add tool response messages
+    for (const { content } of results) {
+      context.thread.push({
+        role: 'tool',
+        content: JSON.stringify(content)
+      })
+    }
+
+  }
+
   async *nativeChunkToLlmChunk(chunk: ChatResponse, context: OllamaStreamingContext): AsyncGenerator<LlmChunk> {
 
     // debug
@@ -388,131 +431,20 @@ export default class extends LlmEngine {
 
         // record the tool call
         const toolCall: LlmToolCall = {
-          id: `${context.toolCalls.length}`,
-          message: tool,
+          id: this.generateToolCallId(),
+          message: chunk.message,
           function: tool.function.name,
           args: JSON.stringify(tool.function.arguments || ''),
         }
         context.toolCalls.push(toolCall)
 
         // first notify prep
-        yield {
-          type: 'tool',
-          id: toolCall.id,
-          name: toolCall.function,
-          state: 'preparing',
-          status: this.getToolPreparationDescription(toolCall.function),
-          done: false
-        }
-
-        // log
-        logger.log(`[ollama] tool call ${toolCall.function} with ${tool}`)
-        const args = JSON.parse(toolCall.args)
-
-        try {
-          // now notify running
-          yield {
-            type: 'tool',
-            id: toolCall.id,
-            name: toolCall.function,
-            state: 'running',
-            status: this.getToolRunningDescription(toolCall.function, args),
-            call: {
-              params: args,
-              result: undefined
-            },
-            done: false
-          }
-
-          // now execute
-          let lastUpdate: PluginExecutionResult|undefined = undefined
-          for await (const update of this.callTool({ model: context.model.id, abortSignal: context.opts?.abortSignal }, toolCall.function, args, context.opts?.toolExecutionValidation)) {
-
-            if (update.type === 'status') {
-              yield {
-                type: 'tool',
-                id: toolCall.id,
-                name: toolCall.function,
-                state: 'running',
-                status: update.status,
-                call: {
-                  params: args,
-                  result: undefined
-                },
-                done: false
-              }
-
-            } else if (update.type === 'result') {
-              lastUpdate = update
-            }
-
-          }
-
-          // process result
-          const { content, canceled: toolCallCanceled } = this.processToolExecutionResult('ollama', toolCall.function, args, lastUpdate)
-
-          // done
-          yield {
-            type: 'tool',
-            id: toolCall.id,
-            name: toolCall.function,
-            state: toolCallCanceled ? 'canceled' : 'completed',
-            status: toolCallCanceled
-              ? this.getToolCanceledDescription(toolCall.function, args) || content.error || 'Tool execution was canceled'
-              : this.getToolCompletedDescription(toolCall.function, args, content),
-            done: true,
-            call: {
-              params: args,
-              result: content
-            }
-          }
-
-          // add tool call message
-          context.thread.push(chunk.message)
-
-          // add tool response message
-          context.thread.push({
-            role: 'tool',
-            content: JSON.stringify(content)
-          })
-
-          // Check if canceled
-          if (context.opts?.abortSignal?.aborted) {
-            return  // Stop processing
-          }
-
-        } catch (error) {
-          // Check if this was an abort
-          if (context.opts?.abortSignal?.aborted) {
-            yield {
-              type: 'tool',
-              id: toolCall.id,
-              name: toolCall.function,
-              state: 'canceled',
-              status: this.getToolCanceledDescription(toolCall.function, args),
-              done: true,
-              call: {
-                params: args,
-                result: undefined
-              }
-            }
-            return  // Stop processing
-          }
-          throw error  // Re-throw non-abort errors
-        }
+        yield this.getToolPreparationChunk(toolCall, context.opts)
 
       }
 
-      // clear force tool call to avoid infinite loop
-      if (context.opts.toolChoice?.type === 'tool') {
-        delete context.opts.toolChoice
-      }
-
-      // switch to new stream
-      yield {
-        type: 'stream',
-        stream: await this.doStream(context),
-      }
+      // execute the tools and continue
+      yield* this.executeToolRound(context, context.toolCalls)
 
       // done
       return
@@ -542,7 +474,8 @@ export default class extends LlmEngine {
       yield {
         type: context.thinking ? 'reasoning' : 'content',
         text: chunk.message.content || '',
-        done: chunk.done
+        done: chunk.done,
+        ...(chunk.done ? getFinishReason(chunk.done_reason) : {}),
       }
     }
 
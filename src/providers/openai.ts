@@ -4,13 +4,14 @@ import { zodResponseFormat } from 'openai/helpers/zod'
 import { CompletionUsage } from 'openai/resources'
 import { ChatCompletionCreateParamsBase, ChatCompletionMessageFunctionToolCall } from 'openai/resources/chat/completions'
 import { Response, ResponseCreateParams, ResponseFunctionToolCall, ResponseInputItem, ResponseOutputMessage, ResponseStreamEvent, ResponseUsage, Tool, ToolChoiceFunction, ToolChoiceOptions } from 'openai/resources/responses/responses'
-import LlmEngine, { LlmStreamingContextTools } from '../engine'
+import LlmEngine, { LlmStreamingContextTools, LlmToolCallResult, LlmToolRounds } from '../engine'
 import logger from '../logger'
 import Message from '../models/message'
 import { ChatModel, EngineCreateOpts, ModelCapabilities, ModelMetadata, ModelOpenAI } from '../types/index'
-import { LLmCompletionPayload, LLmContentPayloadImageOpenai, LlmChunk, LlmCompletionOpts, LlmContentPayload, LlmResponse, LlmRole, LlmStream, LlmTool, LlmToolCall, LlmToolCallInfo, LlmToolChoice, LlmUsage } from '../types/llm'
+import { LLmCompletionPayload, LLmContentPayloadImageOpenai, LlmChunk, LlmCompletionOpts, LlmContentPayload, LlmResponse, LlmRole, LlmStream, LlmTool, LlmToolCall, LlmToolCallInfo, LlmToolChoice, LlmUsage, LlmStructuredOutputMode } from '../types/llm'
 import { PluginExecutionResult } from '../types/plugin'
 import { zeroUsage } from '../usage'
+import { getFinishReason } from '../finish'
 
 type OpenAIToolOpts = Omit<ChatCompletionCreateParamsBase, 'model' | 'messages' | 'stream'>
 
@@ -41,6 +42,7 @@ export default class extends LlmEngine {
       apiKey: opts?.apiKey || config.apiKey,
       baseURL: opts?.baseURL || config.baseURL || defaultBaseUrl,
       timeout: opts?.timeout || config.timeout || undefined,
+      maxRetries: 0, // retries are handled by LlmEngine
       dangerouslyAllowBrowser: true
     })
   }
@@ -105,6 +107,19 @@ export default class extends LlmEngine {
     return !model.capabilities.reasoning
   }
 
+  modelSupportsStop(model: ChatModel): boolean {
+    return !model.capabilities.reasoning
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  modelSupportsSeed(model: ChatModel): boolean {
+    return true
+  }
+
+  modelSupportsPenalties(model: ChatModel): boolean {
+    return !model.capabilities.reasoning
+  }
+
   modelSupportsReasoningEffort(model: ChatModel): boolean {
     return model.capabilities.reasoning
   }
@@ -122,6 +137,11 @@ export default class extends LlmEngine {
     return true
   }
 
+  // the responses api payload has no response format
+  getStructuredOutputMode(model: ChatModel, opts?: LlmCompletionOpts): LlmStructuredOutputMode {
+    return this.modelSupportsStructuredOutput(model) && !this.shouldUseResponsesApi(model, opts) ? 'native' : 'prompt'
+  }
+
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   doesNotSendToolCallFinishReason(model: ChatModel): boolean {
     return false
@@ -202,12 +222,13 @@ export default class extends LlmEngine {
 
     // call
     logger.log(`[${this.getName()}] prompting model ${model.id}`)
-    const response = await this.client.chat.completions.create({
-      model: model.id,
-      messages: thread,
-      ...this.getCompletionOpts(model, opts),
-      ...await this.getToolsOpts(model, opts),
-    });
+    const request = await this.prepareRequest(model, thread, opts)
+    const response = await this.retry(model, async () => this.client.chat.completions.create({
+      model: request.model.id,
+      messages: request.thread,
+      ...this.getCompletionOpts(request.model, request.opts),
+      ...await this.getToolsOpts(request.model, request.opts),
+    }), opts)
 
     // get choice
     const choice = response.choices?.[0]
@@ -215,6 +236,19 @@ export default class extends LlmEngine {
     // tool call
     if (choice.message.tool_calls && (choice?.finish_reason === 'tool_calls' || this.doesNotSendToolCallFinishReason(model))) {
 
+      // too many tool rounds or looping: force a final answer
+      const functionToolCalls = choice.message.tool_calls.filter((tool_call) => 'function' in tool_call) as ChatCompletionMessageFunctionToolCall[]
+      if (this.checkChatToolRounds(thread, opts, functionToolCalls.map((tool_call) => ({
+        name: tool_call.function.name,
+        args: this.parseToolCallArgs(tool_call.function.arguments),
+      })))) {
+        const completion = await this.chat(model, thread, { ...opts, toolChoice: { type: 'none' } })
+        if (opts?.usage && response.usage && completion.usage) {
+          this.accumulateUsage(completion.usage, response.usage)
+        }
+        return completion
+      }
+
       // add tool call message
       thread.push(choice.message)
 
@@ -228,13 +262,8 @@ export default class extends LlmEngine {
         const functionToolCall: ChatCompletionMessageFunctionToolCall = tool_call
         logger.log(`[openai] tool call ${functionToolCall.function.name} with ${functionToolCall.function.arguments}`)
 
-        // this can error
-        let args = null
-        try {
-          args = JSON.parse(functionToolCall.function.arguments)
-        } catch (err) {
-          throw new Error(`[openai] tool call ${functionToolCall.function.name} with invalid JSON args: "${functionToolCall.function.arguments}"`, { cause: err })
-        }
+        // invalid args are reported to the model
+        const args = this.parseToolCallArgs(functionToolCall.function.arguments)
 
         // now execute
         let lastUpdate: PluginExecutionResult|undefined = undefined
@@ -242,6 +271,8 @@ export default class extends LlmEngine {
           { model: model.id, abortSignal: opts?.abortSignal },
           functionToolCall.function.name, args,
           opts?.toolExecutionValidation,
+          opts?.parentSpan,
+          opts,
         )) {
           if (update.type === 'result') {
             lastUpdate = update
@@ -309,6 +340,7 @@ export default class extends LlmEngine {
       content: choice.message.content || '',
       toolCalls: toolCallInfo,
       ...(opts?.usage && response.usage ? { usage: response.usage } : {}),
+      ...getFinishReason(choice.message.refusal ? 'refusal' : choice.finish_reason),
     }
 
   }
@@ -351,11 +383,12 @@ export default class extends LlmEngine {
 
     // call
     logger.log(`[${this.getName()}] prompting model ${context.model.id}`)
+    const request = await this.prepareRequest(context.model, context.thread, context.opts)
     const stream = this.client.chat.completions.create({
-      model: context.model.id,
-      messages: context.thread,
-      ...this.getCompletionOpts(context.model, context.opts),
-      ...await this.getToolsOpts(context.model, context.opts),
+      model: request.model.id,
+      messages: request.thread,
+      ...this.getCompletionOpts(request.model, request.opts),
+      ...await this.getToolsOpts(request.model, request.opts),
       stream_options: { include_usage: context.opts.usage || false },
       stream: true,
     })
@@ -366,11 +399,20 @@ export default class extends LlmEngine {
   }
 
   getCompletionOpts(model: ChatModel, opts?: LlmCompletionOpts): Omit<ChatCompletionCreateParamsBase, 'model' | 'messages' | 'stream'> {
+    this.warnUnsupportedOpts(model, opts, [
+      ...(this.modelSupportsStop(model) ? [] : ['stop'] as const),
+      ...(this.modelSupportsSeed(model) ? [] : ['seed'] as const),
+      ...(this.modelSupportsPenalties(model) ? [] : ['presencePenalty', 'frequencyPenalty'] as const),
+    ])
     return {
       ...(this.modelSupportsMaxTokens(model) && opts?.maxTokens ? { max_completion_tokens: opts?.maxTokens } : {}),
       ...(this.modelSupportsTemperature(model) && opts?.temperature ? { temperature: opts?.temperature } : {}),
       ...(this.modelSupportsTopK(model) && opts?.top_k ? { logprobs: true, top_logprobs: opts?.top_k } : {}),
       ...(this.modelSupportsTopP(model) && opts?.top_p ? { top_p: opts?.top_p } : {}),
+      ...(this.modelSupportsStop(model) && opts?.stop ? { stop: opts.stop } : {}),
+      ...(this.modelSupportsSeed(model) && opts?.seed !== undefined ? { seed: opts.seed } : {}),
+      ...(this.modelSupportsPenalties(model) && opts?.presencePenalty !== undefined ? { presence_penalty: opts.presencePenalty } : {}),
+      ...(this.modelSupportsPenalties(model) && opts?.frequencyPenalty !== undefined ? { frequency_penalty: opts.frequencyPenalty } : {}),
       ...(this.modelSupportsReasoningEffort(model) && opts?.reasoningEffort ? { reasoning_effort: opts?.reasoningEffort } : {}),
       ...(this.modelSupportsVerbosity(model) && opts?.verbosity ? { verbosity: opts.verbosity } : {}),
       ...(this.modelSupportsStructuredOutput(model) && opts?.structuredOutput ? {
@@ -389,7 +431,7 @@ export default class extends LlmEngine {
     }
 
     // tools
-    const tools = await this.getAvailableTools()
+    const tools = await this.getAvailableTools(opts)
     if (!tools.length) return {}
 
     // default chat-completions style
@@ -407,6 +449,29 @@ export default class extends LlmEngine {
     stream?.controller?.abort()
   }
 
+  addToolResultsToThread(context: OpenAIStreamingContext, results: LlmToolCallResult[]): void {
+
+    for (const { toolCall, content } of results) {
+
+      // add tool call message
+      context.thread.push({
+        role: 'assistant',
+        content: '',
+        tool_calls: toolCall.message
+      })
+
+      // add tool response message
+      context.thread.push({
+        role: 'tool',
+        tool_call_id: toolCall.id,
+        name: toolCall.function,
+        content: JSON.stringify(content)
+      })
+
+    }
+
+  }
+
   async *nativeChunkToLlmChunk(chunk: any, context: OpenAIStreamingContext): AsyncGenerator<LlmChunk> {
 
     // response api events have already been translated to LLmChunk's
@@ -461,14 +526,7 @@ export default class extends LlmEngine {
             context.toolCalls.push(toolCall)
 
             // first notify
-            yield {
-              type: 'tool',
-              id: toolCall.id,
-              name: toolCall.function,
-              state: 'preparing',
-              status: this.getToolPreparationDescription(toolCall.function),
-              done: false
-            }
+            yield this.getToolPreparationChunk(toolCall, context.opts)
 
           }
 
@@ -498,139 +556,8 @@ export default class extends LlmEngine {
     // now tool calling
     if (['tool_calls', 'function_call', 'stop'].includes(chunk.choices[0]?.finish_reason || '') && context.toolCalls?.length) {
 
-      // iterate on tools
-      for (const toolCall of context.toolCalls) {
-
-        // log
-        logger.log(`[openai] tool call ${toolCall.function} with ${toolCall.args}`)
-
-        // this can error
-        let args = null
-        try {
-          args = JSON.parse(toolCall.args)
-        } catch (err) {
-          throw new Error(`[openai] tool call ${toolCall.function} with invalid JSON args: "${toolCall.args}"`, { cause: err })
-        }
-
-        try {
-          // first notify
-          yield {
-            type: 'tool',
-            id: toolCall.id,
-            name: toolCall.function,
-            state: 'running',
-            status: this.getToolRunningDescription(toolCall.function, args),
-            call: {
-              params: args,
-              result: undefined
-            },
-            done: false
-          }
-
-          // now execute
-          let lastUpdate: PluginExecutionResult|undefined = undefined
-          for await (const update of this.callTool(
-            { model: context.model.id, abortSignal: context.opts?.abortSignal },
-            toolCall.function, args,
-            context.opts?.toolExecutionValidation,
-          )) {
-
-            if (update.type === 'status') {
-              yield {
-                type: 'tool',
-                id: toolCall.id,
-                name: toolCall.function,
-                state: 'running',
-                status: update.status,
-                call: {
-                  params: args,
-                  result: undefined
-                },
-                done: false
-              }
-
-            } else if (update.type === 'result') {
-              lastUpdate = update
-            }
-
-          }
-
-          // process result
-          const { content, canceled: toolCallCanceled } = this.processToolExecutionResult(
-            'openai',
-            toolCall.function,
-            args,
-            lastUpdate
-          )
-
-          // done
-          yield {
-            type: 'tool',
-            id: toolCall.id,
-            name: toolCall.function,
-            state: toolCallCanceled ? 'canceled' : 'completed',
-            status: toolCallCanceled
-              ? this.getToolCanceledDescription(toolCall.function, args) || content.error || 'Tool execution was canceled'
-              : this.getToolCompletedDescription(toolCall.function, args, content),
-            done: true,
-            call: {
-              params: args,
-              result: content
-            }
-          }
-
-          // add tool call message
-          context.thread.push({
-            role: 'assistant',
-            content: '',
-            tool_calls: toolCall.message
-          })
-
-          // add tool response message
-          context.thread.push({
-            role: 'tool',
-            tool_call_id: toolCall.id,
-            name: toolCall.function,
-            content: JSON.stringify(content)
-          })
-
-          // Check if canceled
-          if (context.opts?.abortSignal?.aborted) {
-            return  // Stop processing
-          }
-
-        } catch (error) {
-          // Check if this was an abort
-          if (context.opts?.abortSignal?.aborted) {
-            yield {
-              type: 'tool',
-              id: toolCall.id,
-              name: toolCall.function,
-              state: 'canceled',
-              status: this.getToolCanceledDescription(toolCall.function, args),
-              done: true,
-              call: {
-                params: args,
-                result: undefined
-              }
-            }
-            return  // Stop processing remaining tools
-          }
-          throw error  // Re-throw non-abort errors
-        }
-
-      }
-
-      // clear force tool call to avoid infinite loop
-      if (context.opts.toolChoice?.type === 'tool') {
-        delete context.opts.toolChoice
-      }
-
-      // switch to new stream
-      yield {
-        type: 'stream',
-        stream: await this.doStream(context),
-      }
+      // execute the tools and continue
+      yield* this.executeToolRound(context, context.toolCalls)
 
       // done
       return
@@ -658,7 +585,8 @@ export default class extends LlmEngine {
       yield {
         type: context.thinking ? 'reasoning' : 'content',
         text: chunk.choices?.[0]?.delta?.content || '',
-        done: done
+        done: done,
+        ...(done ? getFinishReason(chunk.choices[0].finish_reason) : {}),
       }
     }
 
@@ -709,7 +637,8 @@ export default class extends LlmEngine {
     logger.log(`[${this.getName()}] prompting model ${model.id}`)
 
     // Build request for Responses API
-    const request = await this.buildResponsesRequest(model, thread, opts, false)
+    const prepared = await this.prepareRequest(model, thread, opts)
+    const request = await this.buildResponsesRequest(prepared.model, prepared.thread, prepared.opts, false)
 
     // init stuff
     let text = ''
@@ -720,7 +649,7 @@ export default class extends LlmEngine {
     logger.debug('[responses] REQUEST', JSON.stringify(request, null, 2))
 
     // call
-    let response: Response = await this.client.responses.create(request) as Response
+    let response: Response = await this.retry(model, () => this.client.responses.create(request) as Promise<Response>, opts)
 
     // we can loop several times calling tools
     while (true) {
@@ -747,26 +676,43 @@ export default class extends LlmEngine {
       const toolCalls = response.output?.filter((o: any) => o.type === 'function_call') as ResponseFunctionToolCall[]
       if (toolCalls.length) {
 
+        // too many tool rounds or looping: answer the calls and force a final answer
+        const toolLimit = this.checkChatToolRounds(thread, opts, toolCalls.map((toolCall) => ({
+          name: toolCall.name,
+          args: this.parseToolCallArgs(toolCall.arguments),
+        })))
+        if (toolLimit) {
+          response = await this.retry(model, () => this.client.responses.create({
+            model: model.id,
+            previous_response_id: response.id,
+            input: toolCalls.map((toolCall) => ({
+              type: 'function_call_output',
+              call_id: toolCall.call_id,
+              output: JSON.stringify({ error: this.getToolLimitError(toolLimit) }),
+            })),
+            tool_choice: 'none',
+            stream: false,
+          }), opts)
+          continue
+        }
+
         const followReqInput: any[] = []
         for (const toolCall of toolCalls) {
 
           // log
           logger.log(`[openai] tool call ${toolCall.name} with ${toolCall.arguments}`)
 
-          // this can error
-          let args = null
-          try {
-            args = JSON.parse(toolCall.arguments)
-          } catch (err) {
-            throw new Error(`[openai] tool call ${toolCall.name} with invalid JSON args: "${toolCall.arguments}"`, { cause: err })
-          }
+          // invalid args are reported to the model
+          const args = this.parseToolCallArgs(toolCall.arguments)
 
           // now execute
           let lastUpdate: PluginExecutionResult|undefined = undefined
           for await (const update of this.callTool(
             { model: model.id, abortSignal: opts?.abortSignal },
             toolCall.name, args,
-            opts?.toolExecutionValidation
+            opts?.toolExecutionValidation,
+            opts?.parentSpan,
+            opts,
           )) {
             if (update.type === 'result') {
               lastUpdate = update
@@ -827,7 +773,7 @@ export default class extends LlmEngine {
         logger.debug('[responses] FOLLOW-UP REQUEST', JSON.stringify(followUpReq, null, 2))
 
         // continue
-        response = await this.client.responses.create(followUpReq)
+        response = await this.retry(model, () => this.client.responses.create(followUpReq), opts)
         continue
       }
 
@@ -838,6 +784,7 @@ export default class extends LlmEngine {
         toolCalls: toolCallInfo,
         openAIResponseId: response?.id,
         ...(opts?.usage ? { usage: usage } : {}),
+        ...getFinishReason(this.getResponsesFinishReason(response)),
       }
     }
   }
@@ -847,7 +794,8 @@ export default class extends LlmEngine {
     // log
     logger.log(`[${this.getName()}] prompting model ${model.id}`)
 
-    const request = await this.buildResponsesRequestFromMessages(model, thread, opts, true)
+    const prepared = await this.prepareRequest(model, this.buildPayload(model, thread, opts), opts)
+    const request = await this.buildResponsesRequest(prepared.model, prepared.thread, prepared.opts, true)
     const stream = await this.client.responses.create(request) as AsyncIterable<ResponseStreamEvent>
     logger.debug('[responsesStream] subscribed')
 
@@ -860,6 +808,12 @@ export default class extends LlmEngine {
       // we need to accumulate usage
       const usage: LlmUsage = zeroUsage()
 
+      // how the last response ended
+      let finishReason: string|undefined = undefined
+
+      // we need to track tool rounds
+      const toolRounds: LlmToolRounds = { count: 0, signatures: [] }
+
       // We may need to run multiple streaming passes if the model calls tools.
       let currentStream: AsyncIterable<ResponseStreamEvent> | null = stream
       while (true) {
@@ -884,10 +838,12 @@ export default class extends LlmEngine {
               }
               break
 
-            case 'response.completed': {
+            case 'response.completed':
+            case 'response.incomplete': {
               if (opts?.usage && ev.response.usage) {
                 this.accumulateResponsesUsage(usage, ev.response.usage)
               }
+              finishReason = this.getResponsesFinishReason(ev.response)
               break
             }
 
@@ -908,14 +864,7 @@ export default class extends LlmEngine {
                   pendingCalls.push(ev.item)
 
                   // first notify
-                  yield {
-                    type: 'tool',
-                    id: ev.item.id,
-                    name: ev.item.name,
-                    state: 'preparing',
-                    status: this.getToolPreparationDescription(ev.item.name),
-                    done: false
-                  }
+                  yield this.getToolPreparationChunk({ id: ev.item.id!, message: ev.item, function: ev.item.name, args: '' }, opts)
 
                   // done
                   break
@@ -964,119 +913,49 @@ export default class extends LlmEngine {
           if (opts?.usage) {
             yield { type: 'usage', usage: usage }
           }
-          yield { type: 'content', text: '', done: true }
+          yield { type: 'content', text: '', done: true, ...getFinishReason(finishReason) }
           break
         }
 
-        // run tool calls
-        const followReqInput: any[] = []
-        for (const toolCall of pendingCalls) {
-
-          // this can error
-          let args = null
-          try {
-            args = JSON.parse(toolCall.arguments)
-          } catch (err) {
-            throw new Error(`[openai] tool call ${toolCall.name} with invalid JSON args: "${args}"`, { cause: err })
-          }
-
-          try {
-            // first notify
-            yield {
-              type: 'tool',
-              id: toolCall.id,
-              name: toolCall.name,
-              state: 'running',
-              status: this.getToolRunningDescription(toolCall.name, args),
-              call: {
-                params: args,
-                result: undefined
-              },
-              done: false
-            }
-
-            // now execute
-            let lastUpdate: PluginExecutionResult|undefined = undefined
-            for await (const update of this.callTool({ model: model.id, abortSignal: opts?.abortSignal }, toolCall.name, args, opts?.toolExecutionValidation)) {
-
-              if (update.type === 'status') {
-                yield {
-                  type: 'tool',
-                  id: toolCall.id,
-                  name: toolCall.name,
-                  state: 'running',
-                  status: update.status,
-                  call: {
-                    params: args,
-                    result: undefined
-                  },
-                  done: false
-                }
-
-              } else if (update.type === 'result') {
-                lastUpdate = update
-              }
-
-            }
-
-            // process result
-            const { content, canceled: toolCallCanceled } = this.processToolExecutionResult(
-              'openai',
-              toolCall.name,
-              args,
-              lastUpdate
-            )
-
-            // done
-            yield {
-              type: 'tool',
-              id: toolCall.id,
-              name: toolCall.name,
-              state: toolCallCanceled ? 'canceled' : 'completed',
-              status: toolCallCanceled
-                ? this.getToolCanceledDescription(toolCall.name, args) || content.error || 'Tool execution was canceled'
-                : this.getToolCompletedDescription(toolCall.name, args, content),
-              done: true,
-              call: {
-                params: args,
-                result: content
-              }
-            }
-
-            // if canceled, stop processing
-            if (toolCallCanceled) {
-              return  // Stop processing remaining tools
-            }
+        // out of budget: do not start another round
+        const budgetExceeded = this.checkBudget(model, usage, opts)
+        if (budgetExceeded) {
+          yield budgetExceeded
+          return
+        }
 
-            // store
-            followReqInput.push({
-              type: 'function_call_output',
-              call_id: toolCall.call_id,
-              output: typeof content === 'string' ? content : JSON.stringify(content),
-            })
+        // too many tool rounds or looping: answer the calls and force a final answer
+        const toolCalls: LlmToolCall[] = pendingCalls.map((toolCall) => ({
+          id: toolCall.id!,
+          message: toolCall,
+          function: toolCall.name,
+          args: toolCall.arguments,
+        }))
+        const toolLimit = this.checkToolRounds(toolRounds, opts, toolCalls.map((toolCall) => ({
+          name: toolCall.function,
+          args: this.parseToolCallArgs(toolCall.args),
+        })))
+        if (toolLimit) {
+          request.tool_choice = 'none'
+        }
 
-          } catch (error) {
-            // Check if this was an abort
-            if (opts?.abortSignal?.aborted) {
-              yield {
-                type: 'tool',
-                id: toolCall.id,
-                name: toolCall.name,
-                state: 'canceled',
-                status: this.getToolCanceledDescription(toolCall.name, args),
-                done: true,
-                call: {
-                  params: args,
-                  result: undefined
-                }
-              }
-              return  // Stop processing remaining tools
-            }
-            throw error  // Re-throw non-abort errors
-          }
+        // run tool calls
+        const results: LlmToolCallResult[] = toolLimit
+          ? yield* this.skipToolCalls(toolCalls, toolLimit)
+          : yield* this.executeToolCalls({ model, opts: opts || {} }, toolCalls)
 
+        // if canceled, stop processing
+        if (opts?.abortSignal?.aborted || (!toolLimit && results.some((result) => result.canceled))) {
+          return
         }
 
+        // store
+        const followReqInput: any[] = results.map(({ toolCall, content }) => ({
+          type: 'function_call_output',
+          call_id: toolCall.message.call_id,
+          output: typeof content === 'string' ? content : JSON.stringify(content),
+        }))
+
         // now we can build the follow-up request
         const followReq: ResponseCreateParams = {
           model: model.id,
@@ -1091,7 +970,7 @@ export default class extends LlmEngine {
         logger.debug('[responsesStream] FOLLOW-UP STREAM REQ', JSON.stringify(followReq, null, 2))
 
         // switch stream
-        currentStream = await this.client.responses.create(followReq) as AsyncIterable<ResponseStreamEvent>
+        currentStream = yield* this.withRetry(model, () => this.client.responses.create(followReq), opts)
 
       }
 
@@ -1105,8 +984,13 @@ export default class extends LlmEngine {
     }
   }
 
-  private async buildResponsesRequestFromMessages(model: ChatModel, thread: Message[], opts: LlmCompletionOpts | undefined, stream: boolean): Promise<ResponseCreateParams> {
-    return this.buildResponsesRequest(model, this.buildPayload(model, thread, opts), opts, stream)
+  // raw finish reason of a responses api response
+  protected getResponsesFinishReason(response: Response): string|undefined {
+    if (response.status === 'incomplete') {
+      return response.incomplete_details?.reason ?? 'length'
+    }
+    const refusal = response.output?.some((o: any) => o.type === 'message' && o.content?.some((c: any) => c.type === 'refusal'))
+    return refusal ? 'refusal' : response.status
   }
 
   private async buildResponsesRequest(model: ChatModel, payload: LLmCompletionPayload[], opts: LlmCompletionOpts | undefined, stream: boolean): Promise<ResponseCreateParams> {
@@ -1219,6 +1103,9 @@ export default class extends LlmEngine {
       }
     }
 
+    // not available in the responses api
+    this.warnUnsupportedOpts(model, opts, ['stop', 'seed', 'presencePenalty', 'frequencyPenalty'])
+
     const req: ResponseCreateParams = {
       model: model.id,
       ...(instructions ? { instructions } : {}),
@@ -1246,7 +1133,7 @@ export default class extends LlmEngine {
     }
 
     // tools
-    const tools = await this.getAvailableTools()
+    const tools = await this.getAvailableTools(opts)
     if (!tools.length) return []
 
     // convert schema for Responses API
@@ -1267,12 +1154,9 @@ export default class extends LlmEngine {
             additionalProperties: false
           }
         
-        // now we need to add additionalProperties: false to items properties
-        for (const value of Object.values(parameters.properties) as any) {
-          if (value.type === 'array' && value.items && typeof value.items === 'object' && value.items.type === 'object') {
-            value.items.required = Object.keys(value.items.properties)
-            value.items.additionalProperties = false
-          }
+        // now we need to add additionalProperties: false to nested objects
+        for (const value of Object.values(parameters.properties)) {
+          this.toStrictSchema(value)
         }
 
         // done
@@ -1295,6 +1179,24 @@ export default class extends LlmEngine {
 
   }
 
+  // strict mode wants every object closed with all its properties required
+  private toStrictSchema(schema: any): void {
+    if (!schema || typeof schema !== 'object') {
+      return
+    }
+    if (schema.type === 'object' && schema.properties) {
+      schema.required = Object.keys(schema.properties)
+      schema.additionalProperties = false
+      for (const value of Object.values(schema.properties)) {
+        this.toStrictSchema(value)
+      }
+    }
+    this.toStrictSchema(schema.items)
+    for (const option of schema.anyOf ?? []) {
+      this.toStrictSchema(option)
+    }
+  }
+
   private getResponsesToolChoice(toolChoice?: LlmToolChoice): ToolChoiceOptions|ToolChoiceFunction {
 
     if (!toolChoice) {
@@ -1,12 +1,15 @@
 import Message from '../models/message'
 import { ChatModel, EngineCreateOpts, ModelCapabilities, ModelOpenRouter } from '../types/index'
-import { LlmRole } from '../types/llm'
+import { LlmModelPricing, LlmRole } from '../types/llm'
 import OpenAI from './openai'
 
 //
 // https://openrouter.ai/docs/quick-start
 //
 
+// prices of the models listed so far: used when only the model id is known
+const kListedPricing = new Map<string, ModelOpenRouter['pricing']>()
+
 export default class extends OpenAI {
 
   constructor(config: EngineCreateOpts) {
@@ -21,7 +24,11 @@ export default class extends OpenAI {
   }
 
   async getModels(): Promise<ModelOpenRouter[]> {
-    return await super.getModels() as ModelOpenRouter[]
+    const models = await super.getModels() as ModelOpenRouter[]
+    for (const model of models) {
+      if (model.pricing) kListedPricing.set(model.id, model.pricing)
+    }
+    return models
   }
 
   getModelCapabilities(model: ModelOpenRouter): ModelCapabilities {
@@ -45,6 +52,27 @@ export default class extends OpenAI {
     return meta?.supported_parameters?.includes('response_format') ?? false
   }
 
+  // openrouter prices are per token strings
+  getModelPricing(model: ChatModel|string): LlmModelPricing|undefined {
+    const pricing = super.getModelPricing(model)
+    if (pricing) return pricing
+    const id = typeof model === 'object' ? model.id : model
+    const meta = typeof model === 'object' ? (model.meta as ModelOpenRouter)?.pricing : undefined
+    const prices = meta ?? kListedPricing.get(id)
+    if (!prices) return undefined
+    const input = parseFloat(prices.prompt)
+    const output = parseFloat(prices.completion)
+    if (isNaN(input) || isNaN(output)) return undefined
+    const reasoning = parseFloat(prices.internal_reasoning)
+    const cachedInput = parseFloat(prices.input_cache_read ?? '')
+    return {
+      input: input * 1e6,
+      output: output * 1e6,
+      ...(cachedInput >= 0 ? { cachedInput: cachedInput * 1e6 } : {}),
+      ...(reasoning > 0 ? { reasoning: reasoning * 1e6 } : {}),
+    }
+  }
+
   get systemRole(): LlmRole {
     return 'system'
   }
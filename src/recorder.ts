@@ -0,0 +1,176 @@
+import LlmEngine from './engine'
+import Message from './models/message'
+import { LlmMockChunk, LlmMockResponse } from './providers/mock'
+import { ChatModel } from './types/index'
+import { LlmChunk, LlmCompletionOpts, LlmMiddleware, LlmResponse } from './types/llm'
+
+export type LlmFixtureRequest = {
+  model: string
+  thread: any[]
+}
+
+export type LlmFixture = {
+  provider: string
+  model: string
+  requests: LlmFixtureRequest[]
+  chunks?: LlmChunk[]
+  response?: LlmResponse
+}
+
+// tool results in a provider payload: chat completions messages,
+// anthropic blocks, gemini parts and responses api items
+const countToolResults = (value: any): number => {
+  if (Array.isArray(value)) {
+    return value.reduce((count: number, item: any) => count + countToolResults(item), 0)
+  }
+  if (!value || typeof value !== 'object') {
+    return 0
+  }
+  if (value.role === 'tool' || value.type === 'tool_result' || value.type === 'function_call_output' || value.functionResponse) {
+    return 1
+  }
+  return countToolResults(value.content ?? value.parts)
+}
+
+//
+// wraps a real engine to capture what is sent to the provider
+// and what is received so that it can be replayed with MockEngine.
+// only one request should run at a time on the wrapped engine.
+//
+
+export default class LlmRecorder {
+
+  engine: LlmEngine
+  fixtures: LlmFixture[]
+  private current: LlmFixture|null
+  private middleware: LlmMiddleware
+
+  constructor(engine: LlmEngine) {
+    this.engine = engine
+    this.fixtures = []
+    this.current = null
+    this.middleware = {
+      onRequest: (request) => this.record(request.model, request.thread),
+    }
+  }
+
+  // node only
+  async save(path: string): Promise<void> {
+    const fs = await import('node:fs/promises')
+    await fs.writeFile(path, JSON.stringify(this.fixtures, null, 2))
+  }
+
+  // node only
+  static async load(path: string): Promise<LlmFixture[]> {
+    const fs = await import('node:fs/promises')
+    return JSON.parse(await fs.readFile(path, 'utf-8'))
+  }
+
+  async complete<T = any>(model: ChatModel|string, thread: Message[], opts?: LlmCompletionOpts<T>): Promise<LlmResponse<T>> {
+    const fixture = this.start(model)
+    try {
+      fixture.response = await this.engine.complete(model, thread, opts)
+      return fixture.response
+    } finally {
+      this.stop()
+    }
+  }
+
+  async *generate(model: ChatModel|string, thread: Message[], opts?: LlmCompletionOpts): AsyncIterable<LlmChunk> {
+    const fixture = this.start(model)
+    fixture.chunks = []
+    try {
+      for await (const chunk of this.engine.generate(model, thread, opts)) {
+        fixture.chunks.push(chunk)
+        yield chunk
+      }
+    } finally {
+      this.stop()
+    }
+  }
+
+  toJSON(): LlmFixture[] {
+    return this.fixtures
+  }
+
+  // converts a recorded fixture to responses MockEngine can play
+  static toMockResponses(fixture: LlmFixture): LlmMockResponse[] {
+
+    // non-streaming: the tool calls of each round then the final answer
+    if (fixture.response) {
+      const toolCalls = (fixture.response.toolCalls ?? []).map((toolCall): LlmMockChunk => ({ type: 'tool_call', name: toolCall.name, args: toolCall.params }))
+      const answer: LlmMockChunk[] = [{ type: 'content', text: fixture.response.content ?? '' }]
+      if (fixture.response.usage) {
+        answer.push({ type: 'usage', prompt_tokens: fixture.response.usage.prompt_tokens, completion_tokens: fixture.response.usage.completion_tokens })
+      }
+
+      // the tool results each request adds tell how many calls the previous round made
+      const responses: LlmMockResponse[] = []
+      let start = 0
+      for (let i = 1; i < fixture.requests.length && start < toolCalls.length; i++) {
+        const count = countToolResults(fixture.requests[i].thread) - countToolResults(fixture.requests[i - 1].thread)
+        if (count > 0) {
+          responses.push(toolCalls.slice(start, start + count))
+          start += count
+        }
+      }
+
+      // payloads we cannot read: one round
+      if (start < toolCalls.length) {
+        responses.push(toolCalls.slice(start))
+      }
+      return [...responses, answer]
+    }
+
+    // streaming: a new response starts with the first text following tool calls
+    const responses: LlmMockChunk[][] = [[]]
+    let toolCalls = false
+    for (const chunk of fixture.chunks ?? []) {
+      if ((chunk.type === 'content' || chunk.type === 'reasoning') && chunk.text) {
+        if (toolCalls) {
+          responses.push([])
+          toolCalls = false
+        }
+        responses[responses.length - 1].push({ type: chunk.type, text: chunk.text })
+      } else if (chunk.type === 'tool' && chunk.done && chunk.call) {
+        responses[responses.length - 1].push({ type: 'tool_call', id: chunk.id, name: chunk.name, args: chunk.call.params })
+        toolCalls = true
+      } else if (chunk.type === 'usage') {
+        responses[responses.length - 1].push({ type: 'usage', prompt_tokens: chunk.usage.prompt_tokens, completion_tokens: chunk.usage.completion_tokens })
+      }
+    }
+    if (toolCalls) {
+      responses.push([])
+    }
+    return responses
+
+  }
+
+  private start(model: ChatModel|string): LlmFixture {
+
+    // requests are captured once transformed by the other middlewares
+    this.engine.middlewares = [...this.engine.middlewares, this.middleware]
+
+    this.current = {
+      provider: this.engine.getId(),
+      model: typeof model === 'string' ? model : model.id,
+      requests: [],
+    }
+    this.fixtures.push(this.current)
+    return this.current
+
+  }
+
+  private stop(): void {
+    this.current = null
+    this.engine.middlewares = this.engine.middlewares.filter((middleware) => middleware !== this.middleware)
+  }
+
+  private record(model: ChatModel, thread: any[]): void {
+    this.current?.requests.push({
+      model: model.id,
+      thread: JSON.parse(JSON.stringify(thread)),
+    })
+  }
+
+}
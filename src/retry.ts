@@ -0,0 +1,131 @@
+import { LlmRetryReason } from './types/llm'
+
+// error codes of network failures worth retrying
+const kConnectionErrorCodes = [
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE',
+  'EAI_AGAIN', 'ENETUNREACH', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT',
+]
+
+// error names used by the SDKs for network failures
+const kConnectionErrorNames = [
+  'APIConnectionError', 'APIConnectionTimeoutError', 'ConnectionError',
+  'RequestTimeoutError', 'FetchError',
+]
+
+// SDKs do not agree on where they store the status code
+export const getErrorStatus = (error: any): number|undefined => {
+  const status = error?.status ?? error?.statusCode ?? error?.status_code ?? error?.response?.status ?? error?.rawResponse?.status
+  return typeof status === 'number' ? status : undefined
+}
+
+const getErrorHeader = (error: any, name: string): string|undefined => {
+  const headers = error?.headers ?? error?.response?.headers ?? error?.rawResponse?.headers
+  if (!headers) return undefined
+  const value = typeof headers.get === 'function' ? headers.get(name) : headers[name]
+  return value ?? undefined
+}
+
+// returns the delay requested by the server in milliseconds
+export const getRetryAfter = (error: any): number|undefined => {
+
+  // already computed
+  if (typeof error?.retryAfter === 'number') {
+    return error.retryAfter
+  }
+
+  // some providers (openai) send milliseconds
+  const retryAfterMs = parseFloat(getErrorHeader(error, 'retry-after-ms') ?? '')
+  if (!isNaN(retryAfterMs) && retryAfterMs >= 0) {
+    return retryAfterMs
+  }
+
+  // standard header: seconds or http date
+  const retryAfter = getErrorHeader(error, 'retry-after')
+  if (retryAfter === undefined) {
+    return undefined
+  }
+  const seconds = Number(retryAfter)
+  if (retryAfter.trim() !== '' && !isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+  const date = Date.parse(retryAfter)
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now())
+  }
+
+  // invalid
+  return undefined
+
+}
+
+const isConnectionError = (error: any): boolean => {
+  for (let depth = 0; error && depth < 4; depth++, error = error.cause) {
+    if (kConnectionErrorCodes.includes(error.code) || kConnectionErrorNames.includes(error.name)) {
+      return true
+    }
+    if (error instanceof TypeError && error.message === 'fetch failed') {
+      return true
+    }
+  }
+  return false
+}
+
+// null if the error should not be retried
+export const getRetryReason = (error: any): LlmRetryReason|null => {
+
+  // never retry a cancellation
+  if (error?.name === 'AbortError' || error?.name === 'APIUserAbortError') {
+    return null
+  }
+
+  // http errors (no need to retry when the quota is exhausted)
+  const status = getErrorStatus(error)
+  if (status === 429 && error?.code !== 'insufficient_quota') {
+    return 'rate_limit'
+  }
+  if (status !== undefined && status >= 500 && status <= 599) {
+    return 'server_error'
+  }
+
+  // anthropic can report overload inside the stream
+  if (error?.error?.type === 'overloaded_error' || error?.error?.error?.type === 'overloaded_error') {
+    return 'server_error'
+  }
+
+  // network
+  if (status === undefined && isConnectionError(error)) {
+    return 'connection'
+  }
+
+  // not retryable
+  return null
+
+}
+
+// exponential backoff with jitter unless the server told us how long to wait
+// (capped as well so that a far away retry-after does not stall the caller)
+export const getRetryDelay = (attempt: number, initialDelay: number, maxDelay: number, retryAfter?: number): number => {
+  if (retryAfter !== undefined) {
+    return Math.min(maxDelay, retryAfter)
+  }
+  const delay = Math.min(maxDelay, initialDelay * Math.pow(2, attempt - 1))
+  return Math.round(delay / 2 + Math.random() * delay / 2)
+}
+
+export const sleep = (delay: number, abortSignal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve) => {
+    if (abortSignal?.aborted) {
+      resolve()
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      resolve()
+    }
+    const timer = setTimeout(() => {
+      abortSignal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, delay)
+    abortSignal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
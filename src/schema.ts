@@ -0,0 +1,113 @@
+//
+// minimal json schema validation for tool arguments: the subset used
+// by tool definitions (types, required, enum, nesting, bounds, unions).
+// unknown keywords are ignored. returns one issue per line as
+// "path: message" like zod issues so that the model can fix them.
+//
+
+const typeOf = (value: any): string => {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer'
+  return typeof value
+}
+
+const matchesType = (value: any, type: string): boolean => {
+  const actual = typeOf(value)
+  return actual === type || (type === 'number' && actual === 'integer')
+}
+
+const validate = (value: any, schema: any, path: string[], issues: string[]): void => {
+
+  if (!schema || typeof schema !== 'object') {
+    return
+  }
+
+  const at = path.length ? path.join('.') : '(root)'
+  const issue = (message: string) => issues.push(`${at}: ${message}`)
+
+  // null is accepted for nullable schemas
+  if (value === null && schema.nullable) {
+    return
+  }
+
+  // unions: one alternative must match
+  const alternatives = schema.anyOf ?? schema.oneOf
+  if (Array.isArray(alternatives)) {
+    if (!alternatives.some((alternative: any) => {
+      const alternativeIssues: string[] = []
+      validate(value, alternative, path, alternativeIssues)
+      return alternativeIssues.length === 0
+    })) {
+      issue('Does not match any of the allowed schemas')
+    }
+    return
+  }
+
+  // type
+  if (schema.type !== undefined) {
+    const types: string[] = [schema.type].flat()
+    if (!types.some((type) => matchesType(value, type))) {
+      issue(`Expected ${types.join(' or ')}, received ${typeOf(value)}`)
+      return
+    }
+  }
+
+  // values
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    issue(`Expected ${JSON.stringify(schema.const)}`)
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: any) => JSON.stringify(option) === JSON.stringify(value))) {
+    issue(`Expected one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}, received ${JSON.stringify(value)}`)
+  }
+
+  // bounds
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) issue(`Must be greater than or equal to ${schema.minimum}`)
+    if (schema.maximum !== undefined && value > schema.maximum) issue(`Must be less than or equal to ${schema.maximum}`)
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) issue(`Must be greater than ${schema.exclusiveMinimum}`)
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) issue(`Must be less than ${schema.exclusiveMaximum}`)
+  }
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) issue(`Must contain at least ${schema.minLength} character(s)`)
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) issue(`Must contain at most ${schema.maxLength} character(s)`)
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) issue(`Must match pattern ${schema.pattern}`)
+  }
+
+  // arrays
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) issue(`Must contain at least ${schema.minItems} item(s)`)
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) issue(`Must contain at most ${schema.maxItems} item(s)`)
+    if (schema.items && !Array.isArray(schema.items)) {
+      value.forEach((item, index) => validate(item, schema.items, [...path, String(index)], issues))
+    }
+  }
+
+  // objects
+  if (typeOf(value) === 'object') {
+    const properties = schema.properties ?? {}
+    for (const name of schema.required ?? []) {
+      if (value[name] === undefined) {
+        issues.push(`${[...path, name].join('.')}: Required`)
+      }
+    }
+    for (const [name, property] of Object.entries(value)) {
+      if (property === undefined) {
+        continue
+      } else if (properties[name]) {
+        validate(property, properties[name], [...path, name], issues)
+      } else if (schema.additionalProperties === false) {
+        issues.push(`${[...path, name].join('.')}: Unrecognized property`)
+      } else if (typeof schema.additionalProperties === 'object') {
+        validate(property, schema.additionalProperties, [...path, name], issues)
+      }
+    }
+  }
+
+}
+
+export const validateJsonSchema = (value: any, schema: any): string[] => {
+  const issues: string[] = []
+  validate(value, schema, [], issues)
+  return issues
+}
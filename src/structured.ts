@@ -0,0 +1,61 @@
+
+import { ZodError, ZodType } from 'zod'
+import { zodToJsonSchema } from 'zod-to-json-schema'
+
+// tool used by engines that emulate structured output with a forced tool call
+export const kStructuredOutputToolName = 'structured_output'
+
+export type LlmStructuredOutputResult<T> = {
+  success: true
+  data: T
+} | {
+  success: false
+  issues: string[]
+}
+
+// models sometimes wrap json in markdown code fences
+const stripCodeFences = (content: string): string => {
+  const match = content.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i)
+  return match ? match[1] : content.trim()
+}
+
+// one line per issue: path and message
+export const getSchemaIssues = (error: ZodError): string[] => {
+  return error.issues.map((issue) => `${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`)
+}
+
+export const parseStructuredOutput = <T>(content: string|undefined, structure: ZodType<T>): LlmStructuredOutputResult<T> => {
+
+  // json first
+  let json: any = undefined
+  try {
+    json = JSON.parse(stripCodeFences(content ?? ''))
+  } catch (error) {
+    return { success: false, issues: [`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`] }
+  }
+
+  // now the schema
+  const result = structure.safeParse(json)
+  if (result.success) {
+    return { success: true, data: result.data }
+  }
+  return { success: false, issues: getSchemaIssues(result.error) }
+
+}
+
+// the message sent to the model to fix its previous answer
+export const getStructuredOutputRepairPrompt = (issues: string[]): string => {
+  return `Your previous answer does not match the expected JSON schema:\n${issues.map((issue) => `- ${issue}`).join('\n')}\n\nAnswer again with valid JSON only, fixing these errors.`
+}
+
+// the structure as a plain JSON schema (usable as tool parameters)
+export const getStructuredOutputSchema = (structure: ZodType): Record<string, any> => {
+  const schema = zodToJsonSchema(structure) as Record<string, any>
+  delete schema.$schema
+  return schema
+}
+
+// the instructions added when the provider cannot enforce the schema itself
+export const getStructuredOutputPrompt = (structure: ZodType): string => {
+  return `Answer only with a JSON object matching this JSON schema, without any other text:\n${JSON.stringify(getStructuredOutputSchema(structure))}`
+}
@@ -0,0 +1,50 @@
+import { ChatModel } from './types/index'
+import { LlmTokenizer } from './types/llm'
+import Message from './models/message'
+
+// per message formatting tokens (role, separators) as per openai cookbook
+const kMessageTokens = 4
+
+// every reply is primed with the assistant role
+const kReplyTokens = 3
+
+// a high detail 1024x1024 image for openai, in the same range for other providers
+const kImageTokens = 765
+
+// cjk, hangul and emojis are roughly one token per character
+const kWideCharacters = /[\u1100-\u11ff\u2e80-\u9fff\uac00-\ud7af\uf900-\ufaff\uff00-\uffef]|[\ud800-\udbff][\udc00-\udfff]/g
+
+// heuristic used when no exact tokenizer is available:
+// about 4 characters per token for latin scripts
+export const estimateTokens: LlmTokenizer = (text: string): number => {
+  if (!text) return 0
+  const wide = text.match(kWideCharacters)?.length ?? 0
+  const narrow = text.replace(kWideCharacters, '').length
+  return wide + Math.ceil(narrow / 4)
+}
+
+export const countMessagesTokens = (model: ChatModel, thread: Message[], tokenizer: LlmTokenizer = estimateTokens): number => {
+
+  let tokens = kReplyTokens
+  for (const message of thread) {
+
+    // the message itself
+    tokens += kMessageTokens + tokenizer(message.contentForModel ?? '')
+
+    // attachments the same way buildPayload adds them
+    const attachments = Array.isArray(message.attachments) ? message.attachments : []
+    for (const attachment of attachments) {
+      if (attachment.content === null || attachment.content === undefined) continue
+      if (attachment.isText()) {
+        tokens += tokenizer(attachment.content)
+      } else if (attachment.isImage() && model.capabilities.vision) {
+        tokens += kImageTokens
+      }
+    }
+
+  }
+
+  // done
+  return tokens
+
+}
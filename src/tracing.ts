@@ -0,0 +1,32 @@
+import { LlmSpan, LlmUsage } from './types/llm'
+
+// opentelemetry SpanStatusCode values
+export const kSpanStatusOk = 1
+export const kSpanStatusError = 2
+
+export const setUsageAttributes = (span: LlmSpan|undefined, usage: LlmUsage|undefined): void => {
+  if (!span || !usage) return
+  span.setAttribute('gen_ai.usage.input_tokens', usage.prompt_tokens)
+  span.setAttribute('gen_ai.usage.output_tokens', usage.completion_tokens)
+  if (usage.prompt_tokens_details?.cached_tokens) {
+    span.setAttribute('gen_ai.usage.cached_tokens', usage.prompt_tokens_details.cached_tokens)
+  }
+  if (usage.completion_tokens_details?.reasoning_tokens) {
+    span.setAttribute('gen_ai.usage.reasoning_tokens', usage.completion_tokens_details.reasoning_tokens)
+  }
+  if (usage.cost) {
+    span.setAttribute('llm.usage.cost', usage.cost.total)
+  }
+}
+
+export const endSpan = (span: LlmSpan|undefined, error?: any): void => {
+  if (!span) return
+  if (error) {
+    span.recordException(error)
+    span.setAttribute('error.type', error.name ?? typeof error)
+    span.setStatus({ code: kSpanStatusError, message: error.message ?? String(error) })
+  } else {
+    span.setStatus({ code: kSpanStatusOk })
+  }
+  span.end()
+}
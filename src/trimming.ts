@@ -0,0 +1,109 @@
+import Message from './models/message'
+import { LlmContextTrimmingContext, LlmContextTrimmingStrategy } from './types/llm'
+
+export type LlmThreadTurns = {
+  system: Message[]
+  turns: Message[][]
+}
+
+// transcript is the trimmed turns as text, ready to be added to a prompt
+export type LlmSummarizer = (messages: Message[], transcript: string) => Promise<string>
+
+// token counts come from the engine tokenizer when one is configured
+// and from estimateTokens otherwise so summaryTokens is approximate
+export type LlmSummarizeMiddleOpts = {
+  keepFirstTurns?: number
+  summaryTokens?: number
+}
+
+// a turn starts with a user message and holds all the messages answering it:
+// trimming whole turns keeps tool calls and tool results together
+export const splitTurns = (thread: Message[]): LlmThreadTurns => {
+
+  const system: Message[] = []
+  const turns: Message[][] = []
+  for (const message of thread) {
+    if (!turns.length && (message.role === 'system' || message.role === 'developer')) {
+      system.push(message)
+    } else if (message.role === 'user' || !turns.length) {
+      turns.push([message])
+    } else {
+      turns[turns.length - 1].push(message)
+    }
+  }
+  return { system, turns }
+
+}
+
+// what the model would see of each message, text attachments included
+const formatTranscript = (messages: Message[]): string => {
+  return messages.map((message) => {
+    const attachments = Array.isArray(message.attachments) ? message.attachments : []
+    const texts = attachments.filter((attachment) => attachment.content && attachment.isText()).map((attachment) => attachment.content)
+    return [`${message.role}: ${message.contentForModel ?? ''}`, ...texts].join('\n\n')
+  }).join('\n\n')
+}
+
+// removes the oldest turns until the thread fits (the last turn is always kept)
+const dropTurns = (system: Message[], turns: Message[][], context: LlmContextTrimmingContext): Message[] => {
+  turns = [...turns]
+  while (turns.length > 1 && context.countTokens([...system, ...turns.flat()]) > context.maxTokens) {
+    turns.shift()
+  }
+  return [...system, ...turns.flat()]
+}
+
+export const dropOldestTurns = (): LlmContextTrimmingStrategy => {
+  return (thread: Message[], context: LlmContextTrimmingContext): Message[] => {
+    const { system, turns } = splitTurns(thread)
+    return dropTurns(system, turns, context)
+  }
+}
+
+export const keepLastTurns = (count: number): LlmContextTrimmingStrategy => {
+  return (thread: Message[], context: LlmContextTrimmingContext): Message[] => {
+    const { system, turns } = splitTurns(thread)
+    return dropTurns(system, turns.slice(-Math.max(1, count)), context)
+  }
+}
+
+export const summarizeMiddle = (summarize: LlmSummarizer, opts?: LlmSummarizeMiddleOpts): LlmContextTrimmingStrategy => {
+
+  const keepFirstTurns = opts?.keepFirstTurns ?? 1
+  const summaryTokens = opts?.summaryTokens ?? 500
+
+  return async (thread: Message[], context: LlmContextTrimmingContext): Promise<Message[]> => {
+
+    // we need at least one turn to summarize
+    const { system, turns } = splitTurns(thread)
+    if (turns.length < keepFirstTurns + 2) {
+      return dropTurns(system, turns, context)
+    }
+
+    // move turns to the middle until the rest fits with the summary
+    const head = turns.slice(0, keepFirstTurns)
+    const tail = turns.slice(keepFirstTurns)
+    const middle: Message[][] = []
+    while (tail.length > 1 && context.countTokens([...system, ...head.flat(), ...tail.flat()]) > context.maxTokens - summaryTokens) {
+      middle.push(tail.shift()!)
+    }
+    if (!middle.length) {
+      return thread
+    }
+
+    // the summary goes in the instructions as not all providers
+    // accept a system message or two user messages in a row
+    const summary = await summarize(middle.flat(), formatTranscript(middle.flat()))
+    const instructions = `Summary of the earlier conversation:\n${summary}`
+    const last = system[system.length - 1]
+    const summarized = last ? [
+      ...system.slice(0, -1),
+      new Message(last.role, `${last.contentForModel}\n\n${instructions}`),
+    ] : [ new Message('system', instructions) ]
+
+    // done
+    return dropTurns(summarized, [...head, ...tail], context)
+
+  }
+
+}
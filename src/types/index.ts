@@ -1,9 +1,16 @@
+import { LlmCacheStore, LlmModelPricing, LlmTokenizer, LlmTracer } from './llm'
 
 export type EngineCreateOpts = {
   apiKey?: string
   baseURL?: string
   timeout?: number
   maxRetries?: number
+  retryDelay?: number
+  retryMaxDelay?: number
+  tokenizer?: LlmTokenizer
+  tracer?: LlmTracer
+  pricing?: Record<string, LlmModelPricing>
+  cache?: LlmCacheStore
   deployment?: string
   apiVersion?: string
   useOpenAIResponsesApi?: boolean
@@ -155,6 +162,8 @@ export type ModelOpenRouter = {
     image: string
     web_search: string
     internal_reasoning: string
+    input_cache_read?: string
+    input_cache_write?: string
   }
   top_provider: {
     context_length: number
@@ -1,7 +1,8 @@
 
 import { ZodType } from 'zod'
 import { ChatModel } from './index'
-import { PluginExecutionContext } from './plugin'
+import { IPlugin, PluginExecutionContext } from './plugin'
+import Message from '../models/message'
 
 export type LlmRole = 'system'|'developer'|'user'|'assistant'|'tool'
 
@@ -21,12 +22,18 @@ export type LlmToolCallInfo = {
   result: any
 }
 
-export type LlmResponse = {
+export type LlmFinishReason = 'stop' | 'length' | 'tool_calls' | 'content_filter' | 'refusal' | 'aborted' | 'error'
+
+export type LlmResponse<T = any> = {
   type: 'text'
   content?: string
+  parsed?: T
   toolCalls?: LlmToolCallInfo[]
   openAIResponseId?: string
   usage?: LlmUsage
+  finishReason?: LlmFinishReason
+  rawFinishReason?: string
+  provider?: Omit<LlmChunkProvider, 'type'>
 }
 
 export type LlmToolCall = {
@@ -86,14 +93,25 @@ export type LlmModelOpts = {
   temperature?: number
   top_k?: number
   top_p?: number
+  stop?: string|string[]
+  seed?: number
+  presencePenalty?: number
+  frequencyPenalty?: number
   customOpts?: LLmCustomModelOpts
 } & LlmOpenAIModelOpts & LlmAnthropicModelOpts & LlmGoogleModelOpts
 
-export type LlmStructuredOutput = {
+export type LlmStructuredOutput<T = any> = {
   name: string
-  structure: ZodType
+  structure: ZodType<T>
+
+  // times the model is asked to fix an invalid answer (default 1)
+  maxRepairs?: number
 }
 
+// how an engine obtains structured output: provider response format,
+// forced tool whose input is the answer or schema in the instructions
+export type LlmStructuredOutputMode = 'native'|'tool'|'prompt'
+
 export type LlmToolExecutionValidationDecision = 'allow'|'deny'|'abort'
 
 export type LlmToolExecutionValidationResponse = {
@@ -104,15 +122,84 @@ export type LlmToolExecutionValidationResponse = {
 
 export type LlmToolExecutionValidationCallback = (context: PluginExecutionContext, tool: string, args: any) => Promise<LlmToolExecutionValidationResponse>
 
-export type LlmCompletionOpts = {
+// when a plugin throws: send the error to the model (continue), execute
+// the tool again (retry) or stop the generation (abort)
+export type LlmToolErrorDecision = 'continue'|'retry'|'abort'
+
+export type LlmToolErrorCallback = (context: PluginExecutionContext, tool: string, args: any, error: Error, attempt: number) => LlmToolErrorDecision|Promise<LlmToolErrorDecision>
+
+export type LlmToolErrorPolicy = LlmToolErrorDecision|LlmToolErrorCallback
+
+export type LlmTokenizer = (text: string) => number
+
+export type LlmContextTrimmingContext = {
+  model: ChatModel
+  maxTokens: number
+  countTokens: (thread: Message[]) => number
+}
+
+export type LlmContextTrimmingStrategy = (thread: Message[], context: LlmContextTrimmingContext) => Message[]|Promise<Message[]>
+
+export type LlmSpanAttributes = Record<string, string|number|boolean>
+
+// subset of the opentelemetry span interface
+export interface LlmSpan {
+  setAttribute(key: string, value: string|number|boolean): unknown
+  setStatus(status: { code: number, message?: string }): unknown
+  recordException(exception: any): unknown
+  end(): unknown
+}
+
+export type LlmSpanOptions = {
+  attributes?: LlmSpanAttributes
+  parent?: LlmSpan
+}
+
+export interface LlmTracer {
+  startSpan(name: string, options: LlmSpanOptions): LlmSpan
+}
+
+// what is stored for a complete or generate call
+export type LlmCacheEntry = {
+  response?: LlmResponse
+  chunks?: LlmChunk[]
+}
+
+export interface LlmCacheStore {
+  get(key: string): LlmCacheEntry|undefined|Promise<LlmCacheEntry|undefined>
+  set(key: string, entry: LlmCacheEntry): void|Promise<void>
+  delete(key: string): void|Promise<void>
+  clear(): void|Promise<void>
+}
+
+// limits for a whole generation, tool rounds included
+export type LlmBudget = {
+  maxCost?: number
+  maxTotalTokens?: number
+}
+
+export type LlmCompletionOpts<T = any> = {
   tools?: boolean
+  plugins?: IPlugin[]
+  allowedTools?: string[]
+  deniedTools?: string[]
   toolChoice?: LlmToolChoice
   toolExecutionValidation?: LlmToolExecutionValidationCallback
+  toolErrorPolicy?: LlmToolErrorPolicy
+  toolTimeout?: number
+  toolMaxResultSize?: number
+  toolConcurrency?: number
+  maxToolRounds?: number
+  maxIdenticalToolCalls?: number
   caching?: boolean
   visionFallbackModel?: ChatModel
   usage?: boolean
   citations?: boolean
-  structuredOutput?: LlmStructuredOutput
+  structuredOutput?: LlmStructuredOutput<T>
+  contextTrimming?: LlmContextTrimmingStrategy
+  parentSpan?: LlmSpan
+  budget?: LlmBudget
+  cache?: boolean
 
   // this is provided by the caller
   // to cancel the request if needed
@@ -120,6 +207,26 @@ export type LlmCompletionOpts = {
 
 } & LlmModelOpts
 
+export type LlmRequest = {
+  model: ChatModel
+  thread: any[]
+  opts: LlmCompletionOpts
+}
+
+export type LlmMiddlewareContext = {
+  provider: string
+  model: ChatModel
+  opts: LlmCompletionOpts
+}
+
+// hooks return undefined to leave things unchanged
+// onChunk can also return null to drop the chunk or an array to expand it
+export type LlmMiddleware = {
+  onRequest?: (request: LlmRequest, context: LlmMiddlewareContext) => LlmRequest|void|Promise<LlmRequest|void>
+  onChunk?: (chunk: LlmChunk, context: LlmMiddlewareContext) => LlmChunk|LlmChunk[]|null|void|Promise<LlmChunk|LlmChunk[]|null|void>
+  onResponse?: (response: LlmResponse, context: LlmMiddlewareContext) => LlmResponse|void|Promise<LlmResponse|void>
+}
+
 export type LLmCompletionPayload = {
   role: LlmRole
   content: string|LlmContentPayload[]
@@ -186,10 +293,57 @@ export type LlmChunkToolAbort = {
   reason: LlmToolExecutionValidationResponse
 }
 
+export type LlmToolLimitReason = 'max_rounds' | 'loop'
+
+export type LlmChunkToolLimit = {
+  type: 'tool_limit'
+  reason: LlmToolLimitReason
+  rounds: number
+  name?: string
+  params?: any
+}
+
+export type LlmBudgetExceededReason = 'cost' | 'tokens'
+
+export type LlmChunkBudgetExceeded = {
+  type: 'budget_exceeded'
+  reason: LlmBudgetExceededReason
+  usage: LlmUsage
+}
+
+export type LlmRetryReason = 'rate_limit' | 'server_error' | 'connection'
+
+export type LlmChunkRetry = {
+  type: 'retry'
+  reason: LlmRetryReason
+  attempt: number
+  maxRetries: number
+  delay: number
+  status?: number
+  error: string
+}
+
+export type LlmChunkProvider = {
+  type: 'provider'
+  provider: string
+  model: string
+  fallbacks: number
+}
+
 export type LlmChunkContent = {
   type: 'content'|'reasoning'
   text: string
   done: boolean
+  finishReason?: LlmFinishReason
+  rawFinishReason?: string
+}
+
+// structured output while streaming: best-effort object as it is
+// generated then the object validated against the schema (done)
+export type LlmChunkPartialObject = {
+  type: 'partial_object'
+  object: any
+  done: boolean
 }
 
 export type LlmChunkStream ={
@@ -222,7 +376,7 @@ export type LlmOpenAIMessageId = {
   id: string
 }
 
-export type LlmChunk = LlmChunkToolAbort | LlmChunkContent | LlmChunkStream | LlmChunkTool | LlmChunkUsage | LlmOpenAIMessageId
+export type LlmChunk = LlmChunkToolAbort | LlmChunkToolLimit | LlmChunkBudgetExceeded | LlmChunkRetry | LlmChunkProvider | LlmChunkContent | LlmChunkPartialObject | LlmChunkStream | LlmChunkTool | LlmChunkUsage | LlmOpenAIMessageId
 
 export type LlmToolArrayItem = {
   name: string
@@ -269,4 +423,26 @@ export type LlmUsage = {
     reasoning_tokens?: number
     audio_tokens?: number
   }
+  cost?: LlmCost
+  cached?: boolean
+}
+
+// prices are in USD per million tokens
+export type LlmModelPricing = {
+  input: number
+  output: number
+  cachedInput?: number
+  reasoning?: number
+  audioInput?: number
+  audioOutput?: number
+}
+
+// costs are in USD
+export type LlmCost = {
+  input: number
+  cachedInput: number
+  output: number
+  reasoning: number
+  audio: number
+  total: number
 }
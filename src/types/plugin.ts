@@ -1,5 +1,5 @@
 
-import { LlmToolExecutionValidationResponse } from './llm'
+import { LlmToolErrorDecision, LlmToolExecutionValidationResponse } from './llm'
 
 export interface IPlugin {
 
@@ -11,6 +11,8 @@ export interface IPlugin {
   getRunningDescription(tool: string, args: any): string
   getCompletedDescription(tool: string, args: any, results: any): string|undefined
   getParameters(): PluginParameter[]
+  getTimeout?(): number|undefined
+  getMaxResultSize?(): number|undefined
   execute(context: PluginExecutionContext , parameters: any): Promise<any>
   executeWithUpdates?(context: PluginExecutionContext , parameters: any): AsyncGenerator<PluginExecutionUpdate>
 }
@@ -42,6 +44,13 @@ export type PluginExecutionResult = {
   result: any
   canceled?: boolean
   validation?: LlmToolExecutionValidationResponse
+  error?: PluginExecutionError
+}
+
+// set when the plugin threw: message and what the policy decided
+export type PluginExecutionError = {
+  message: string
+  decision: LlmToolErrorDecision
 }
 
 export type PluginExecutionUpdate = PluginExecutionStatusUpdate | PluginExecutionResult
@@ -1,5 +1,6 @@
 
 import { LlmUsage } from './types/llm'
+import { addCosts } from './pricing'
 
 export const zeroUsage = (): LlmUsage => ({
   prompt_tokens: 0,
@@ -38,6 +39,7 @@ export const addUsages = (usage1: LlmUsage|null|undefined, usage2: LlmUsage|null
     completion_tokens_details: {
       reasoning_tokens: (usage1.completion_tokens_details?.reasoning_tokens || 0) + (usage2.completion_tokens_details?.reasoning_tokens || 0),
       audio_tokens: (usage1.completion_tokens_details?.audio_tokens || 0) + (usage2.completion_tokens_details?.audio_tokens || 0)
-    }
+    },
+    ...(usage1.cost || usage2.cost ? { cost: addCosts(usage1.cost, usage2.cost) } : {}),
   }
 }
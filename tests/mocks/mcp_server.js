@@ -0,0 +1,116 @@
+
+// minimal mcp server used by the tests: runs over stdio when
+// launched with node, the handler is reused for the http tests
+
+const tools = [
+  {
+    name: 'echo',
+    description: 'Echo the text',
+    inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+  },
+  {
+    name: 'count',
+    description: 'Count up to a number',
+    inputSchema: { type: 'object', properties: { to: { type: 'number' } }, required: ['to'] },
+  },
+  {
+    name: 'weather',
+    description: 'Get the weather',
+    inputSchema: { type: 'object', properties: { city: { type: 'string' } } },
+  },
+  {
+    name: 'fail',
+    description: 'Always fails',
+    inputSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'hang',
+    description: 'Never answers',
+    inputSchema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'add_tool',
+    description: 'Adds a tool',
+    inputSchema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+  },
+]
+
+const callTool = async (name, args, progress, send) => {
+  switch (name) {
+    case 'echo':
+      return { content: [{ type: 'text', text: args.text }] }
+    case 'count':
+      for (let i = 1; i <= args.to; i++) {
+        progress?.(i, args.to)
+      }
+      return { content: [{ type: 'text', text: `counted to ${args.to}` }] }
+    case 'weather':
+      return { content: [{ type: 'text', text: '{"temperature":20}' }], structuredContent: { city: args.city, temperature: 20 } }
+    case 'fail':
+      return { content: [{ type: 'text', text: 'something went wrong' }], isError: true }
+    case 'hang':
+      return new Promise(() => {})
+    case 'add_tool':
+      tools.push({ name: args.name, description: 'Added tool', inputSchema: { type: 'object', properties: {} } })
+      send({ jsonrpc: '2.0', method: 'notifications/tools/list_changed' })
+      return { content: [{ type: 'text', text: 'added' }] }
+  }
+}
+
+// send receives the notifications and the response
+const handleMessage = async (message, send) => {
+
+  if (message.id === undefined) {
+    return
+  }
+
+  const respond = (result) => send({ jsonrpc: '2.0', id: message.id, result })
+
+  switch (message.method) {
+    case 'initialize':
+      return respond({
+        protocolVersion: message.params.protocolVersion,
+        capabilities: { tools: { listChanged: true } },
+        serverInfo: { name: 'test-server', version: '1.0.0' },
+        instructions: 'Test tools',
+      })
+    case 'ping':
+      return respond({})
+    case 'tools/list':
+      // two pages to exercise pagination
+      return message.params?.cursor
+        ? respond({ tools: tools.slice(2) })
+        : respond({ tools: tools.slice(0, 2), nextCursor: 'page2' })
+    case 'tools/call': {
+      const token = message.params._meta?.progressToken
+      const progress = token === undefined ? undefined : (value, total) => send({
+        jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: token, progress: value, total },
+      })
+      const result = await callTool(message.params.name, message.params.arguments, progress, send)
+      if (result) return respond(result)
+      return send({ jsonrpc: '2.0', id: message.id, error: { code: -32602, message: `Unknown tool: ${message.params.name}` } })
+    }
+    default:
+      return send({ jsonrpc: '2.0', id: message.id, error: { code: -32601, message: 'Method not found' } })
+  }
+
+}
+
+module.exports = { handleMessage }
+
+if (require.main === module) {
+  let buffer = ''
+  process.stdin.setEncoding('utf-8')
+  process.stdin.on('data', (data) => {
+    buffer += data
+    let index
+    while ((index = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, index).trim()
+      buffer = buffer.slice(index + 1)
+      if (line) {
+        handleMessage(JSON.parse(line), (reply) => process.stdout.write(`${JSON.stringify(reply)}\n`))
+      }
+    }
+  })
+  process.stdin.on('end', () => process.exit(0))
+}
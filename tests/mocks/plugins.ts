@@ -1,6 +1,7 @@
 
 import { PluginExecutionContext, PluginExecutionUpdate, PluginParameter } from '../../src/types/plugin'
-import { CustomToolPlugin, MultiToolPlugin, Plugin } from '../../src/plugin'
+import { CustomToolPlugin, MultiToolPlugin, Plugin, ZodPlugin } from '../../src/plugin'
+import { z } from 'zod'
 
 export class NamedPlugin extends Plugin {
 
@@ -199,6 +200,10 @@ export class MultiPlugin extends MultiToolPlugin {
     return 'Plugin Multi'
   }
 
+  getRunningDescription(tool: string): string {
+    return `run ${tool}`
+  }
+
   getTools(): Promise<any|any[]> {
     return Promise.resolve([
       {
@@ -264,3 +269,62 @@ export class PluginUpdate extends Plugin {
   }
 
 }
+
+export class PluginDelay extends NamedPlugin {
+
+  delay: number
+  running = 0
+  maxRunning = 0
+
+  constructor(name: string, delay: number) {
+    super(name, `Plugin ${name}`)
+    this.delay = delay
+  }
+
+  getRunningDescription(): string {
+    return `run ${this.name}`
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  async execute(context: PluginExecutionContext, parameters: any): Promise<any> {
+    this.running++
+    this.maxRunning = Math.max(this.maxRunning, this.running)
+    await new Promise((resolve) => setTimeout(resolve, this.delay))
+    this.running--
+    return `result ${this.name}`
+  }
+
+}
+
+export const zodPluginSchema = z.object({
+  query: z.string().describe('What to search'),
+  filters: z.object({
+    tags: z.array(z.string()).default([]),
+    since: z.union([z.string(), z.number()]).optional(),
+  }),
+  limit: z.number().int().min(1).max(10).default(5),
+})
+
+export class PluginZod extends ZodPlugin<z.infer<typeof zodPluginSchema>> {
+
+  getName(): string {
+    return 'pluginZod'
+  }
+
+  getDescription(): string {
+    return 'Plugin Zod'
+  }
+
+  getRunningDescription(): string {
+    return 'run zod'
+  }
+
+  getSchema() {
+    return zodPluginSchema
+  }
+
+  async execute(context: PluginExecutionContext, parameters: z.infer<typeof zodPluginSchema>): Promise<any> {
+    return `${parameters.query} ${parameters.filters.tags.length} ${parameters.limit}`
+  }
+
+}
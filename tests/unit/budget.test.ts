@@ -0,0 +1,103 @@
+
+import { expect, test, vi } from 'vitest'
+import { Plugin1, Plugin2 } from '../mocks/plugins'
+import MockEngine from '../../src/providers/mock'
+import OpenAI from '../../src/providers/openai'
+import Message from '../../src/models/message'
+import { LlmChunk } from '../../src/types/llm'
+
+const thread = [
+  new Message('system', 'instructions'),
+  new Message('user', 'prompt'),
+]
+
+const collect = async (stream: AsyncIterable<LlmChunk>): Promise<LlmChunk[]> => {
+  const chunks: LlmChunk[] = []
+  for await (const chunk of stream) {
+    chunks.push(chunk)
+  }
+  return chunks
+}
+
+test('Budget not exceeded', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', id: 'call_1', name: 'plugin1' }, { type: 'usage', prompt_tokens: 10, completion_tokens: 2 }],
+    [{ type: 'content', text: 'done' }, { type: 'usage', prompt_tokens: 20, completion_tokens: 3 }],
+  ] })
+  engine.addPlugin(new Plugin1())
+  const chunks = await collect(engine.generate('mock', thread, { budget: { maxTotalTokens: 100 } }))
+  expect(chunks.find((chunk) => chunk.type === 'budget_exceeded')).toBeUndefined()
+  expect(chunks.at(-1)).toStrictEqual({ type: 'usage', usage: expect.objectContaining({ prompt_tokens: 30, completion_tokens: 5 }) })
+  expect(engine.requests).toHaveLength(2)
+})
+
+test('Token budget stops tool rounds', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', id: 'call_1', name: 'plugin1' }, { type: 'usage', prompt_tokens: 10, completion_tokens: 2 }],
+    [{ type: 'tool_call', id: 'call_2', name: 'plugin2' }, { type: 'usage', prompt_tokens: 20, completion_tokens: 3 }],
+    'done',
+  ] })
+  engine.addPlugin(new Plugin1())
+  engine.addPlugin(new Plugin2())
+  const chunks = await collect(engine.generate('mock', thread, { budget: { maxTotalTokens: 20 } }))
+  expect(chunks.filter((chunk) => chunk.type === 'tool' && chunk.state === 'completed')).toHaveLength(1)
+  expect(chunks.at(-1)).toStrictEqual({
+    type: 'budget_exceeded',
+    reason: 'tokens',
+    usage: expect.objectContaining({ prompt_tokens: 30, completion_tokens: 5 }),
+  })
+  expect(engine.requests).toHaveLength(2)
+})
+
+test('Cost budget', async () => {
+  const engine = new MockEngine({ pricing: { mock: { input: 1000, output: 2000 } }, responses: [
+    [{ type: 'tool_call', id: 'call_1', name: 'plugin1' }, { type: 'usage', prompt_tokens: 10, completion_tokens: 5 }],
+    'done',
+  ] })
+  engine.addPlugin(new Plugin1())
+  const chunks = await collect(engine.generate('mock', thread, { budget: { maxCost: 0.01 } }))
+  expect(chunks.at(-1)).toStrictEqual({
+    type: 'budget_exceeded',
+    reason: 'cost',
+    usage: expect.objectContaining({ cost: expect.objectContaining({ total: 0.02 }) }),
+  })
+  expect(chunks.find((chunk) => chunk.type === 'tool' && chunk.state === 'running')).toBeUndefined()
+  expect(engine.requests).toHaveLength(1)
+})
+
+test('Cost budget without pricing', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'content', text: 'done' }, { type: 'usage', prompt_tokens: 10, completion_tokens: 5 }],
+  ] })
+  const chunks = await collect(engine.generate('mock', thread, { budget: { maxCost: 0 } }))
+  expect(chunks.find((chunk) => chunk.type === 'budget_exceeded')).toBeUndefined()
+})
+
+test('Budget exceeded while generating', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'usage', prompt_tokens: 50, completion_tokens: 0 }, { type: 'content', text: 'hello' }, { type: 'content', text: 'world' }],
+  ] })
+  const chunks = await collect(engine.generate('mock', thread, { budget: { maxTotalTokens: 40 } }))
+  expect(chunks).toStrictEqual([
+    { type: 'budget_exceeded', reason: 'tokens', usage: expect.objectContaining({ prompt_tokens: 50 }) },
+  ])
+})
+
+test('Budget checked after late usage', async () => {
+  // openai sends the usage after the finish reason that triggers the tool round
+  const engine = new OpenAI({ apiKey: 'key' })
+  const create = vi.spyOn(engine.client.chat.completions, 'create').mockImplementation((() => (async function* () {
+    yield { choices: [{ delta: { tool_calls: [{ id: 'call_1', function: { name: 'plugin1', arguments: '{}' } }] }, finish_reason: null }] }
+    yield { choices: [{ delta: {}, finish_reason: 'tool_calls' }] }
+    yield { choices: [], usage: { prompt_tokens: 25, completion_tokens: 5 } }
+  })()) as any)
+  engine.addPlugin(new Plugin1())
+  const chunks = await collect(engine.generate('gpt-4.1', thread, { budget: { maxTotalTokens: 20 } }))
+  expect(chunks.find((chunk) => chunk.type === 'tool' && chunk.state === 'running')).toBeUndefined()
+  expect(chunks.at(-1)).toStrictEqual({
+    type: 'budget_exceeded',
+    reason: 'tokens',
+    usage: expect.objectContaining({ prompt_tokens: 25, completion_tokens: 5 }),
+  })
+  expect(create).toHaveBeenCalledTimes(1)
+})
@@ -0,0 +1,129 @@
+
+import { expect, test } from 'vitest'
+import { mkdtempSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Plugin1 } from '../mocks/plugins'
+import { canonicalJson, computeCacheKey, LlmFileCache, LlmMemoryCache } from '../../src/cache'
+import MockEngine from '../../src/providers/mock'
+import Message from '../../src/models/message'
+import { LlmChunk } from '../../src/types/llm'
+
+const thread = [
+  new Message('system', 'instructions'),
+  new Message('user', 'prompt'),
+]
+
+const collect = async (stream: AsyncIterable<LlmChunk>): Promise<LlmChunk[]> => {
+  const chunks: LlmChunk[] = []
+  for await (const chunk of stream) {
+    chunks.push(chunk)
+  }
+  return chunks
+}
+
+test('Canonical key', async () => {
+  expect(canonicalJson({ b: 1, a: { d: [1, { f: 2, e: 3 }], c: 4 } })).toBe('{"a":{"c":4,"d":[1,{"e":3,"f":2}]},"b":1}')
+  expect(await computeCacheKey({ a: 1, b: 2 })).toBe(await computeCacheKey({ b: 2, a: 1 }))
+  expect(await computeCacheKey({ a: 1, b: 2 })).not.toBe(await computeCacheKey({ a: 1, b: 3 }))
+  expect(await computeCacheKey({ a: 1 })).toMatch(/^[0-9a-f]{64}$/)
+})
+
+test('Memory store', () => {
+  const store = new LlmMemoryCache(2)
+  store.set('a', { response: { type: 'text', content: 'a' } })
+  store.set('b', { response: { type: 'text', content: 'b' } })
+  expect(store.get('a')).toStrictEqual({ response: { type: 'text', content: 'a' } })
+  store.set('c', { response: { type: 'text', content: 'c' } })
+  expect(store.size).toBe(2)
+  expect(store.get('b')).toBeUndefined()
+  expect(store.get('a')).toBeDefined()
+  store.get('a')!.response!.content = 'altered'
+  expect(store.get('a')!.response!.content).toBe('a')
+  store.delete('a')
+  expect(store.get('a')).toBeUndefined()
+  store.clear()
+  expect(store.size).toBe(0)
+})
+
+test('File store', async () => {
+  const store = new LlmFileCache(join(mkdtempSync(join(tmpdir(), 'llm-cache-')), 'cache'))
+  expect(await store.get('a')).toBeUndefined()
+  await store.set('a', { chunks: [{ type: 'content', text: 'a', done: true }] })
+  expect(await store.get('a')).toStrictEqual({ chunks: [{ type: 'content', text: 'a', done: true }] })
+  await store.delete('a')
+  expect(await store.get('a')).toBeUndefined()
+  await store.set('b', { response: { type: 'text', content: 'b' } })
+  await store.clear()
+  expect(await store.get('b')).toBeUndefined()
+})
+
+test('Completion cache', async () => {
+  const engine = new MockEngine({ cache: new LlmMemoryCache(), responses: [
+    [{ type: 'content', text: 'hello' }, { type: 'usage', prompt_tokens: 10, completion_tokens: 2 }],
+    'world',
+  ] })
+  const response1 = await engine.complete('mock', thread, { usage: true })
+  expect(response1.content).toBe('hello')
+  expect(response1.usage!.cached).toBeUndefined()
+  const response2 = await engine.complete('mock', thread, { usage: true })
+  expect(response2.content).toBe('hello')
+  expect(response2.usage).toMatchObject({ prompt_tokens: 10, completion_tokens: 2, cached: true })
+  expect(engine.requests).toHaveLength(1)
+  expect((await engine.complete('mock', thread, { usage: true, cache: false })).content).toBe('world')
+  expect(engine.requests).toHaveLength(2)
+})
+
+test('Cache key', async () => {
+  const engine = new MockEngine({ cache: new LlmMemoryCache(), responses: ['1', '2', '3', '4', '5'] })
+  expect((await engine.complete('mock', thread)).content).toBe('1')
+  expect((await engine.complete('mock', thread, { abortSignal: new AbortController().signal })).content).toBe('1')
+  expect((await engine.complete('mock', thread, { temperature: 0.5 })).content).toBe('2')
+  expect((await engine.complete('mock', [thread[1]])).content).toBe('3')
+  expect((await engine.complete('other', thread)).content).toBe('4')
+  engine.addPlugin(new Plugin1())
+  expect((await engine.complete('mock', thread)).content).toBe('5')
+})
+
+test('Streaming cache', async () => {
+  const engine = new MockEngine({ cache: new LlmMemoryCache(), responses: [
+    [{ type: 'tool_call', id: 'call_1', name: 'plugin1' }, { type: 'usage', prompt_tokens: 10, completion_tokens: 2 }],
+    [{ type: 'content', text: 'done' }, { type: 'usage', prompt_tokens: 20, completion_tokens: 3 }],
+  ] })
+  engine.addPlugin(new Plugin1())
+  const chunks1 = await collect(engine.generate('mock', thread, { usage: true }))
+  const chunks2 = await collect(engine.generate('mock', thread, { usage: true }))
+  expect(engine.requests).toHaveLength(2)
+  expect(chunks2.slice(0, -1)).toStrictEqual(chunks1.slice(0, -1))
+  expect(chunks2.at(-1)).toStrictEqual({ type: 'usage', usage: expect.objectContaining({ prompt_tokens: 30, completion_tokens: 5, cached: true }) })
+})
+
+test('Aborted generations are not cached', async () => {
+  const store = new LlmMemoryCache()
+  const engine = new MockEngine({ cache: store, responses: [
+    [{ type: 'content', text: 'hello' }, { type: 'content', text: 'world' }],
+  ] })
+  const controller = new AbortController()
+  for await (const chunk of engine.generate('mock', thread, { abortSignal: controller.signal })) {
+    if (chunk.type === 'content') controller.abort()
+  }
+  expect(store.size).toBe(0)
+})
+
+test('Interrupted generations are not cached', async () => {
+  const store = new LlmMemoryCache()
+  const engine = new MockEngine({ cache: store, responses: [
+    [{ type: 'tool_call', id: 'call_1', name: 'plugin1' }, { type: 'usage', prompt_tokens: 50, completion_tokens: 2 }],
+    [{ type: 'tool_call', id: 'call_1', name: 'plugin1' }],
+    'forced answer',
+    [{ type: 'content', text: 'cut' }, { type: 'finish', reason: 'content_filter' }],
+  ] })
+  engine.addPlugin(new Plugin1())
+  const budget = await collect(engine.generate('mock', thread, { budget: { maxTotalTokens: 10 } }))
+  expect(budget.at(-1)!.type).toBe('budget_exceeded')
+  const limited = await collect(engine.generate('mock', thread, { maxToolRounds: 0 }))
+  expect(limited.map((chunk) => chunk.type)).toContain('tool_limit')
+  const filtered = await collect(engine.generate('mock', thread, { temperature: 0.5 }))
+  expect(filtered.at(-1)).toMatchObject({ type: 'content', done: true, finishReason: 'content_filter' })
+  expect(store.size).toBe(0)
+})
@@ -1,7 +1,9 @@
 
-import { LlmChunk } from '../../src/types/llm'
+import { LlmChunk, LlmCompletionOpts } from '../../src/types/llm'
+import { LlmAuthError } from '../../src/errors'
+import { dropOldestTurns } from '../../src/trimming'
 import { vi, expect, test } from 'vitest'
-import { Plugin1, Plugin2 } from '../mocks/plugins'
+import { Plugin1, Plugin2, PluginDelay } from '../mocks/plugins'
 import Message from '../../src/models/message'
 import Attachment from '../../src/models/attachment'
 import OpenAI from '../../src/providers/openai'
@@ -42,8 +44,8 @@ vi.mock('openai', async() => {
             async * [Symbol.asyncIterator]() {
               // first we yield tool call chunks
               if (opts.model != 'model-no-tool' && opts.model != 'model-vision' && streamIteration == 0) {
-                yield { choices: [{ delta: { tool_calls: [ { id: 1, function: { name: 'plugin2', arguments: '[ "ar' }} ] }, finish_reason: 'none' } ] }
-                yield { choices: [{ delta: { tool_calls: [ { function: { arguments: [ 'g" ]' ] } }] }, finish_reason: 'none' } ] }
+                yield { choices: [{ delta: { tool_calls: [ { id: 1, function: { name: 'plugin2', arguments: '{ "param1": "ar' }} ] }, finish_reason: 'none' } ] }
+                yield { choices: [{ delta: { tool_calls: [ { function: { arguments: [ 'g", "param3": [] }' ] } }] }, finish_reason: 'none' } ] }
                 yield { choices: [{ finish_reason: 'tool_calls' } ] }
                 streamIteration = 1
               } else {
@@ -228,10 +230,10 @@ test('Generate content', async () => {
     else if (chunk.type == 'tool') toolCalls.push(chunk)
   }
   expect(response).toBe('response')
-  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'model' }, ['arg'])
+  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'model' }, { param1: 'arg', param3: [] })
   expect(toolCalls[0]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'preparing', status: 'prep2', done: false })
-  expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'running', status: 'run2', call: { params: ['arg'], result: undefined }, done: false })
-  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'completed', call: { params: ['arg'], result: 'result2' }, status: undefined, done: true })
+  expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'running', status: 'run2', call: { params: { param1: 'arg', param3: [] }, result: undefined }, done: false })
+  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'completed', call: { params: { param1: 'arg', param3: [] }, result: 'result2' }, status: undefined, done: true })
 })
 
 test('Switch to vision when model provided', async () => {
@@ -293,14 +295,14 @@ test('Tool execution validation - allow', async () => {
 
   const chunks: any[] = []
   // @ts-expect-error protected
-  for await (const update of openai.callTool({ model: 'model' }, 'plugin2', { param: 'value' }, validator)) {
+  for await (const update of openai.callTool({ model: 'model' }, 'plugin2', { param1: 'value', param3: [] }, validator)) {
     chunks.push(update)
   }
 
   expect(validator).toHaveBeenCalledWith(
     { model: 'model' },
     'plugin2',
-    { param: 'value' }
+    { param1: 'value', param3: [] }
   )
   expect(Plugin2.prototype.execute).toHaveBeenCalled()
   expect(chunks).toHaveLength(1)
@@ -321,7 +323,7 @@ test('Tool execution validation - deny', async () => {
 
   const chunks: any[] = []
   // @ts-expect-error protected
-  for await (const update of openai.callTool({ model: 'model' }, 'plugin2', { param: 'value' }, validator)) {
+  for await (const update of openai.callTool({ model: 'model' }, 'plugin2', { param1: 'value', param3: [] }, validator)) {
     chunks.push(update)
   }
 
@@ -350,7 +352,7 @@ test('Tool execution validation - abort', async () => {
 
   const chunks: any[] = []
   // @ts-expect-error protected
-  for await (const update of openai.callTool({ model: 'model' }, 'plugin2', { param: 'value' }, validator)) {
+  for await (const update of openai.callTool({ model: 'model' }, 'plugin2', { param1: 'value', param3: [] }, validator)) {
     chunks.push(update)
   }
 
@@ -373,7 +375,7 @@ test('Tool execution validation - no validator', async () => {
 
   const chunks: any[] = []
   // @ts-expect-error protected
-  for await (const update of openai.callTool({ model: 'model' }, 'plugin2', { param: 'value' }, undefined)) {
+  for await (const update of openai.callTool({ model: 'model' }, 'plugin2', { param1: 'value', param3: [] }, undefined)) {
     chunks.push(update)
   }
 
@@ -383,3 +385,353 @@ test('Tool execution validation - no validator', async () => {
   expect(chunks[0].result).toBe('result2') // Plugin2 mock returns 'result2'
   expect(chunks[0].validation).toBeUndefined()
 })
+
+test('Tool calls are executed sequentially by default', async () => {
+  const openai = new OpenAI(config)
+  openai.addPlugin(new PluginDelay('slow', 50))
+  openai.addPlugin(new PluginDelay('fast', 10))
+  const context = {
+    model: openai.buildModel('model'),
+    thread: [],
+    opts: {},
+    toolCalls: [
+      { id: 'call1', function: 'slow', args: '{}', message: [{ id: 'call1' }] },
+      { id: 'call2', function: 'fast', args: '{}', message: [{ id: 'call2' }] },
+    ],
+    responsesApi: false,
+    usage: { prompt_tokens: 0, completion_tokens: 0 },
+    thinking: false,
+  }
+  const chunks: LlmChunk[] = []
+  for await (const chunk of openai.nativeChunkToLlmChunk({ choices: [{ finish_reason: 'tool_calls' }] }, context)) {
+    chunks.push(chunk)
+  }
+  expect(chunks.filter((c) => c.type === 'tool').map((c) => `${c.id}:${c.state}`)).toStrictEqual([
+    'call1:running', 'call1:completed', 'call2:running', 'call2:completed',
+  ])
+})
+
+test('Tool calls are executed in parallel when requested', async () => {
+  const openai = new OpenAI(config)
+  openai.addPlugin(new PluginDelay('slow', 50))
+  openai.addPlugin(new PluginDelay('fast', 10))
+  const context = {
+    model: openai.buildModel('model'),
+    thread: [],
+    opts: { toolConcurrency: 2 },
+    toolCalls: [
+      { id: 'call1', function: 'slow', args: '{}', message: [{ id: 'call1' }] },
+      { id: 'call2', function: 'fast', args: '{}', message: [{ id: 'call2' }] },
+    ],
+    responsesApi: false,
+    usage: { prompt_tokens: 0, completion_tokens: 0 },
+    thinking: false,
+  }
+  const chunks: LlmChunk[] = []
+  for await (const chunk of openai.nativeChunkToLlmChunk({ choices: [{ finish_reason: 'tool_calls' }] }, context)) {
+    chunks.push(chunk)
+  }
+  expect(chunks.filter((c) => c.type === 'tool').map((c) => `${c.id}:${c.state}`)).toStrictEqual([
+    'call1:running', 'call2:running', 'call2:completed', 'call1:completed',
+  ])
+  expect(chunks[chunks.length - 1].type).toBe('stream')
+  expect(context.thread).toStrictEqual([
+    { role: 'assistant', content: '', tool_calls: [{ id: 'call1' }] },
+    { role: 'tool', tool_call_id: 'call1', name: 'slow', content: '"result slow"' },
+    { role: 'assistant', content: '', tool_calls: [{ id: 'call2' }] },
+    { role: 'tool', tool_call_id: 'call2', name: 'fast', content: '"result fast"' },
+  ])
+})
+
+test('Parallel tool execution honors concurrency limit', async () => {
+  const openai = new OpenAI(config)
+  const plugin = new PluginDelay('slow', 20)
+  openai.addPlugin(plugin)
+  const context = {
+    model: openai.buildModel('model'),
+    thread: [],
+    opts: { toolConcurrency: 2 },
+    toolCalls: [1, 2, 3, 4].map((i) => ({ id: `call${i}`, function: 'slow', args: '{}', message: [] })),
+    responsesApi: false,
+    usage: { prompt_tokens: 0, completion_tokens: 0 },
+    thinking: false,
+  }
+  const chunks: LlmChunk[] = []
+  for await (const chunk of openai.nativeChunkToLlmChunk({ choices: [{ finish_reason: 'tool_calls' }] }, context)) {
+    chunks.push(chunk)
+  }
+  expect(plugin.maxRunning).toBe(2)
+  expect(chunks.filter((c) => c.type === 'tool' && c.state === 'completed')).toHaveLength(4)
+  expect(context.thread.filter((m: any) => m.role === 'tool').map((m: any) => m.tool_call_id)).toStrictEqual([
+    'call1', 'call2', 'call3', 'call4',
+  ])
+})
+
+test('Parallel tool calls are closed when one aborts', async () => {
+  const openai = new OpenAI(config)
+  const failing = new PluginDelay('failing', 0)
+  vi.spyOn(failing, 'execute').mockRejectedValue(new Error('fatal'))
+  const slow = new PluginDelay('slow', 50)
+  const execute = vi.spyOn(slow, 'execute')
+  openai.addPlugin(slow)
+  openai.addPlugin(failing)
+  const returned: string[] = []
+  const executeToolCall = openai['executeToolCall'].bind(openai)
+  vi.spyOn(openai as any, 'executeToolCall').mockImplementation((context: any, toolCall: any, args: any, abortSignal: any) => {
+    const iterator = executeToolCall(context, toolCall, args, abortSignal)
+    const close = iterator.return.bind(iterator)
+    iterator.return = (value: any) => {
+      returned.push(toolCall.id)
+      return close(value)
+    }
+    return iterator
+  })
+  const context = {
+    model: openai.buildModel('model'),
+    thread: [],
+    opts: { toolConcurrency: 2, toolErrorPolicy: 'abort' },
+    toolCalls: [
+      { id: 'call1', function: 'slow', args: '{}', message: [] },
+      { id: 'call2', function: 'failing', args: '{}', message: [] },
+    ],
+    responsesApi: false,
+    usage: { prompt_tokens: 0, completion_tokens: 0 },
+    thinking: false,
+  }
+  const chunks: LlmChunk[] = []
+  await expect(async () => {
+    for await (const chunk of openai.nativeChunkToLlmChunk({ choices: [{ finish_reason: 'tool_calls' }] }, context)) {
+      chunks.push(chunk)
+    }
+  }).rejects.toMatchObject({ type: 'tool_abort', name: 'failing' })
+  expect(returned).toContain('call1')
+  expect(execute.mock.calls[0][0].abortSignal?.aborted).toBe(true)
+  expect(chunks.find((c) => c.type === 'tool' && c.id === 'call1' && c.state === 'completed')).toBeUndefined()
+})
+
+test('Tool rounds are limited by maxToolRounds', async () => {
+  const openai = new OpenAI(config)
+  openai.addPlugin(new PluginDelay('tool', 0))
+  const opts = { maxToolRounds: 1 }
+  const context = {
+    model: openai.buildModel('model'),
+    thread: [],
+    opts: opts,
+    toolCalls: [{ id: 'call1', function: 'tool', args: '{"a":1}', message: [{ id: 'call1' }] }],
+    responsesApi: false,
+    usage: { prompt_tokens: 0, completion_tokens: 0 },
+    thinking: false,
+  }
+  for await (const chunk of openai.nativeChunkToLlmChunk({ choices: [{ finish_reason: 'tool_calls' }] }, context)) {
+    expect(chunk.type).not.toBe('tool_limit')
+  }
+  context.toolCalls = [{ id: 'call2', function: 'tool', args: '{"a":2}', message: [{ id: 'call2' }] }]
+  const chunks: LlmChunk[] = []
+  for await (const chunk of openai.nativeChunkToLlmChunk({ choices: [{ finish_reason: 'tool_calls' }] }, context)) {
+    chunks.push(chunk)
+  }
+  expect(chunks.map((c) => c.type)).toStrictEqual(['tool', 'tool_limit', 'stream'])
+  expect(chunks[0]).toMatchObject({ id: 'call2', state: 'canceled', done: true })
+  expect(chunks[1]).toStrictEqual({ type: 'tool_limit', reason: 'max_rounds', rounds: 1 })
+  expect(context.thread[3]).toMatchObject({ role: 'tool', tool_call_id: 'call2', content: expect.stringContaining('maximum number of tool calls') })
+  expect(context.opts.toolChoice).toStrictEqual({ type: 'none' })
+  expect(opts).toStrictEqual({ maxToolRounds: 1 })
+})
+
+test('Identical repeated tool calls are detected', async () => {
+  const openai = new OpenAI(config)
+  openai.addPlugin(new PluginDelay('tool', 0))
+  const context = {
+    model: openai.buildModel('model'),
+    thread: [],
+    opts: { maxIdenticalToolCalls: 1 } as LlmCompletionOpts,
+    toolCalls: [{ id: 'call1', function: 'tool', args: '{"a":1}', message: [{ id: 'call1' }] }],
+    responsesApi: false,
+    usage: { prompt_tokens: 0, completion_tokens: 0 },
+    thinking: false,
+  }
+  for await (const chunk of openai.nativeChunkToLlmChunk({ choices: [{ finish_reason: 'tool_calls' }] }, context)) {
+    expect(chunk.type).not.toBe('tool_limit')
+  }
+  context.toolCalls = [{ id: 'call2', function: 'tool', args: '{ "a": 1 }', message: [{ id: 'call2' }] }]
+  const chunks: LlmChunk[] = []
+  for await (const chunk of openai.nativeChunkToLlmChunk({ choices: [{ finish_reason: 'tool_calls' }] }, context)) {
+    chunks.push(chunk)
+  }
+  expect(chunks[1]).toStrictEqual({ type: 'tool_limit', reason: 'loop', rounds: 1, name: 'tool', params: { a: 1 } })
+  expect(chunks.filter((c) => c.type === 'tool' && c.state === 'running')).toHaveLength(0)
+  expect(context.opts.toolChoice).toStrictEqual({ type: 'none' })
+})
+
+test('Identical repeated tool calls are allowed by default', async () => {
+  const openai = new OpenAI(config)
+  openai.addPlugin(new PluginDelay('tool', 0))
+  const context = {
+    model: openai.buildModel('model'),
+    thread: [],
+    opts: {} as LlmCompletionOpts,
+    toolCalls: [] as any[],
+    responsesApi: false,
+    usage: { prompt_tokens: 0, completion_tokens: 0 },
+    thinking: false,
+  }
+  for (const id of ['call1', 'call2', 'call3']) {
+    context.toolCalls = [{ id, function: 'tool', args: '{"a":1}', message: [{ id }] }]
+    const chunks: LlmChunk[] = []
+    for await (const chunk of openai.nativeChunkToLlmChunk({ choices: [{ finish_reason: 'tool_calls' }] }, context)) {
+      chunks.push(chunk)
+    }
+    expect(chunks.find((c) => c.type === 'tool_limit')).toBeUndefined()
+    expect(chunks).toContainEqual(expect.objectContaining({ type: 'tool', id, state: 'completed' }))
+  }
+  expect(context.opts.toolChoice).toBeUndefined()
+})
+
+test('Non-streaming tool rounds are limited by maxToolRounds', async () => {
+  const openai = new OpenAI(config)
+  openai.addPlugin(new PluginDelay('tool', 0))
+  let round = 0
+  const create = vi.fn((opts: any) => {
+    if (opts.tool_choice === 'none') {
+      return { choices: [{ finish_reason: 'stop', message: { content: 'final' } }] }
+    }
+    round++
+    return { choices: [{ finish_reason: 'tool_calls', message: { tool_calls: [
+      { id: `call${round}`, type: 'function', function: { name: 'tool', arguments: `{"round":${round}}` } },
+    ] } }] }
+  })
+  openai.client.chat = { completions: { create } } as any
+  const response = await openai.complete(openai.buildModel('model'), [
+    new Message('system', 'instruction'),
+    new Message('user', 'prompt'),
+  ], { maxToolRounds: 2 })
+  expect(response.content).toBe('final')
+  expect(response.toolCalls).toHaveLength(2)
+  expect(create).toHaveBeenCalledTimes(4)
+})
+
+const httpError = (status: number, headers: Record<string, string> = {}) => {
+  return Object.assign(new Error(`${status} error`), { status, headers })
+}
+
+const textStream = (text: string) => ({
+  async * [Symbol.asyncIterator]() {
+    yield { choices: [{ delta: { content: text }, finish_reason: 'none' }] }
+    yield { choices: [{ delta: { content: '' }, finish_reason: 'stop' }] }
+  },
+  controller: { abort: vi.fn() }
+})
+
+test('Generate retries rate limited requests', async () => {
+  const openai = new OpenAI({ ...config, retryDelay: 1 })
+  const create = vi.fn()
+    .mockRejectedValueOnce(httpError(429, { 'retry-after-ms': '5' }))
+    .mockResolvedValueOnce(textStream('response'))
+  openai.client.chat = { completions: { create } } as any
+  const chunks: LlmChunk[] = []
+  for await (const chunk of openai.generate(openai.buildModel('model-no-tool'), [
+    new Message('system', 'instructions'),
+    new Message('user', 'prompt1'),
+  ])) {
+    chunks.push(chunk)
+  }
+  expect(create).toHaveBeenCalledTimes(2)
+  expect(chunks[0]).toStrictEqual({ type: 'retry', reason: 'rate_limit', attempt: 1, maxRetries: 2, delay: 5, status: 429, error: '429 error' })
+  expect(chunks.filter((c) => c.type === 'content').map((c) => c.text).join('')).toBe('response')
+})
+
+test('Generate retries streams failing before any chunk', async () => {
+  const openai = new OpenAI({ ...config, retryDelay: 1 })
+  const broken = {
+    // eslint-disable-next-line require-yield
+    async * [Symbol.asyncIterator]() {
+      throw Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })
+    },
+  }
+  const create = vi.fn()
+    .mockResolvedValueOnce(broken)
+    .mockResolvedValueOnce(textStream('response'))
+  openai.client.chat = { completions: { create } } as any
+  const chunks: LlmChunk[] = []
+  for await (const chunk of openai.generate(openai.buildModel('model-no-tool'), [
+    new Message('system', 'instructions'),
+    new Message('user', 'prompt1'),
+  ])) {
+    chunks.push(chunk)
+  }
+  expect(create).toHaveBeenCalledTimes(2)
+  expect(chunks[0]).toMatchObject({ type: 'retry', reason: 'connection', attempt: 1 })
+  expect(chunks.filter((c) => c.type === 'content').map((c) => c.text).join('')).toBe('response')
+})
+
+test('Generate does not retry once content was streamed', async () => {
+  const openai = new OpenAI({ ...config, retryDelay: 1 })
+  const broken = {
+    async * [Symbol.asyncIterator]() {
+      yield { choices: [{ delta: { content: 'partial' }, finish_reason: 'none' }] }
+      throw Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' })
+    },
+  }
+  openai.client.chat = { completions: { create: vi.fn().mockResolvedValue(broken) } } as any
+  await expect(async () => {
+    for await (const chunk of openai.generate(openai.buildModel('model-no-tool'), [
+      new Message('system', 'instructions'),
+      new Message('user', 'prompt1'),
+    ])) {
+      expect(chunk.type).not.toBe('retry')
+    }
+  }).rejects.toThrow('socket hang up')
+})
+
+test('Complete retries server errors up to maxRetries', async () => {
+  const openai = new OpenAI({ ...config, retryDelay: 1, maxRetries: 1 })
+  const create = vi.fn().mockRejectedValue(httpError(503))
+  openai.client.chat = { completions: { create } } as any
+  await expect(openai.complete(openai.buildModel('model'), [
+    new Message('system', 'instructions'),
+    new Message('user', 'prompt1'),
+  ])).rejects.toThrow('503 error')
+  expect(create).toHaveBeenCalledTimes(2)
+})
+
+test('Complete does not retry client errors', async () => {
+  const openai = new OpenAI({ ...config, retryDelay: 1 })
+  const create = vi.fn().mockRejectedValue(httpError(400))
+  openai.client.chat = { completions: { create } } as any
+  await expect(openai.complete(openai.buildModel('model'), [
+    new Message('system', 'instructions'),
+    new Message('user', 'prompt1'),
+  ])).rejects.toThrow('400 error')
+  expect(create).toHaveBeenCalledTimes(1)
+})
+
+test('Provider errors are mapped to LlmError classes', async () => {
+  const openai = new OpenAI({ ...config, retryDelay: 1 })
+  openai.client.chat = { completions: { create: vi.fn().mockRejectedValue(httpError(401)) } } as any
+  const promise = openai.complete(openai.buildModel('model'), [
+    new Message('system', 'instructions'),
+    new Message('user', 'prompt1'),
+  ])
+  await expect(promise).rejects.toBeInstanceOf(LlmAuthError)
+  await expect(promise).rejects.toMatchObject({ provider: 'openai', model: 'model', status: 401 })
+})
+
+test('Thread is trimmed to the context window', async () => {
+  const openai = new OpenAI({ ...config, tokenizer: (text: string) => text.length })
+  const create = vi.fn().mockResolvedValue({ choices: [{ message: { content: 'response' } }] })
+  openai.client.chat = { completions: { create } } as any
+  const thread = [
+    new Message('system', 'instructions'),
+    new Message('user', 'prompt1'.repeat(10)),
+    new Message('assistant', 'response1'.repeat(10)),
+    new Message('user', 'prompt2'),
+  ]
+  expect(openai.countTokens('model', thread)).toBe(3 + 4 * 4 + 12 + 70 + 90 + 7)
+  await openai.complete('model', thread, { contextWindowSize: 100 })
+  expect(create.mock.calls[0][0].messages).toHaveLength(4)
+  await openai.complete('model', thread, { contextWindowSize: 100, contextTrimming: dropOldestTurns() })
+  expect(create.mock.calls[1][0].messages).toStrictEqual([
+    { role: 'system', content: 'instructions' },
+    { role: 'user', content: [{ type: 'text', text: 'prompt2' }] },
+  ])
+})
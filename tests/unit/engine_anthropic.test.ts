@@ -1,10 +1,12 @@
 import { vi, beforeEach, expect, test } from 'vitest'
+import { z } from 'zod'
 import { NamedPlugin, Plugin1, Plugin2, Plugin3 } from '../mocks/plugins'
 import Message from '../../src/models/message'
 import Attachment from '../../src/models/attachment'
 import Anthropic, { AnthropicStreamingContext } from '../../src/providers/anthropic'
 import { loadAnthropicModels, loadModels } from '../../src/llm'
 import { EngineCreateOpts } from '../../src/types/index'
+import logger from '../../src/logger'
 import { LlmChunk, LlmChunkContent } from '../../src/types/llm'
 import * as _Anthropic from '@anthropic-ai/sdk'
 
@@ -32,8 +34,8 @@ vi.mock('@anthropic-ai/sdk', async() => {
             
             // first we yield tool call chunks
             yield { type: 'content_block_start', content_block: { type: 'tool_use', id: 1, name: 'plugin2' } }
-            yield { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: '[ "ar' }  }
-            yield { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: 'g" ]' }  }
+            yield { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: '{ "param1": "ar' }  }
+            yield { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: 'g", "param3": [] }' }  }
             yield { type: 'message_delta', delta: { stop_reason: 'tool_use' }  }
             
             // now the text response
@@ -185,6 +187,12 @@ test('Anthropic nativeChunkToLlmChunk Text', async () => {
   for await (const llmChunk of anthropic.nativeChunkToLlmChunk(streamChunk, context)) {
     expect(llmChunk).toStrictEqual({ type: 'content', text: '', done: true })
   }
+  for await (const llmChunk of anthropic.nativeChunkToLlmChunk({ type: 'message_delta', delta: { stop_reason: 'max_tokens' } } as any, context)) {
+    expect(llmChunk).toBeUndefined()
+  }
+  for await (const llmChunk of anthropic.nativeChunkToLlmChunk(streamChunk, context)) {
+    expect(llmChunk).toStrictEqual({ type: 'content', text: '', done: true, finishReason: 'length', rawFinishReason: 'max_tokens' })
+  }
 })
 
 test('Anthropic stream', async () => {
@@ -223,7 +231,7 @@ test('Anthropic stream', async () => {
     system: 'instruction',
     messages: [
       { role: 'user', content: [{ type: 'text', text: 'prompt' }] },
-      { role: 'assistant', content: [ { type: 'tool_use', id: 1, name: 'plugin2', input: [ 'arg' ], } ] },
+      { role: 'assistant', content: [ { type: 'tool_use', id: 1, name: 'plugin2', input: { param1: 'arg', param3: [] }, } ] },
       { role: 'user', content: [ { type: 'tool_result', tool_use_id: 1, content: '"result2"' } ] },
     ],
     tools: expect.any(Array),
@@ -233,10 +241,10 @@ test('Anthropic stream', async () => {
   })
   expect(lastMsg?.done).toBe(true)
   expect(response).toBe('cited_text\nresponse')
-  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'model' }, ['arg'])
+  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'model' }, { param1: 'arg', param3: [] })
   expect(toolCalls[0]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'preparing', status: 'prep2', done: false })
-  expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'running', status: 'run2', call: { params: ['arg'], result: undefined }, done: false })
-  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'completed', call: { params: ['arg'], result: 'result2' }, status: undefined, done: true })
+  expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'running', status: 'run2', call: { params: { param1: 'arg', param3: [] }, result: undefined }, done: false })
+  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'completed', call: { params: { param1: 'arg', param3: [] }, result: 'result2' }, status: undefined, done: true })
   await anthropic.stop(stream)
   expect(stream.controller!.abort).toHaveBeenCalled()
 })
@@ -472,7 +480,7 @@ test('Anthropic streaming validation deny - yields canceled chunk', async () =>
     system: 'instruction',
     thread: [],
     opts: { toolExecutionValidation: validator },
-    toolCall: { id: '1', function: 'plugin2', args: '{}', message: '' },
+    toolCall: { id: '1', function: 'plugin2', args: '{"param1":"a","param3":[]}', message: '' },
     firstTextBlockStart: true,
     usage: { prompt_tokens: 0, completion_tokens: 0 },
     requestUsage: { prompt_tokens: 0, completion_tokens: 0 }
@@ -512,7 +520,7 @@ test('Anthropic streaming validation abort - yields tool_abort chunk', async ()
     system: 'instruction',
     thread: [],
     opts: { toolExecutionValidation: validator },
-    toolCall: { id: '1', function: 'plugin2', args: '{}', message: '' },
+    toolCall: { id: '1', function: 'plugin2', args: '{"param1":"a","param3":[]}', message: '' },
     firstTextBlockStart: true,
     usage: { prompt_tokens: 0, completion_tokens: 0 },
     requestUsage: { prompt_tokens: 0, completion_tokens: 0 }
@@ -555,7 +563,7 @@ test('Anthropic chat validation deny - throws error', async () => {
   // Mock to return tool calls
   _Anthropic.default.prototype.messages.create = vi.fn().mockResolvedValue({
     stop_reason: 'tool_use',
-    content: [{ type: 'tool_use', id: '1', name: 'plugin2', input: {} }]
+    content: [{ type: 'tool_use', id: '1', name: 'plugin2', input: { param1: 'a', param3: [] } }]
   })
 
   await expect(
@@ -581,7 +589,7 @@ test('Anthropic chat validation abort - throws LlmChunkToolAbort', async () => {
   // Mock to return tool calls
   _Anthropic.default.prototype.messages.create = vi.fn().mockResolvedValue({
     stop_reason: 'tool_use',
-    content: [{ type: 'tool_use', id: '1', name: 'plugin2', input: {} }]
+    content: [{ type: 'tool_use', id: '1', name: 'plugin2', input: { param1: 'a', param3: [] } }]
   })
 
   try {
@@ -603,3 +611,205 @@ test('Anthropic chat validation abort - throws LlmChunkToolAbort', async () => {
     })
   }
 })
+
+test('Anthropic stop, seed and penalties', async () => {
+  const anthropic = new Anthropic(config)
+  const warn = vi.spyOn(logger, 'log').mockImplementation(() => {})
+  expect(anthropic.getCompletionOpts(anthropic.buildModel('model'), { stop: 'END', seed: 42, presencePenalty: 0.5 })).toStrictEqual({
+    max_tokens: 4096,
+    stop_sequences: ['END'],
+  })
+  expect(warn).toHaveBeenCalledWith('[anthropic] seed, presencePenalty not supported by model: ignored')
+  anthropic.getCompletionOpts(anthropic.buildModel('model'), { seed: 42, presencePenalty: 0.5, frequencyPenalty: 0.5 })
+  expect(warn).toHaveBeenLastCalledWith('[anthropic] frequencyPenalty not supported by model: ignored')
+  anthropic.getCompletionOpts(anthropic.buildModel('model'), { seed: 42, frequencyPenalty: 0.5 })
+  expect(warn).toHaveBeenCalledTimes(2)
+  warn.mockRestore()
+})
+
+test('Anthropic structured output tool', async () => {
+  const anthropic = new Anthropic(config)
+  const structure = z.object({ name: z.string() })
+  expect(await anthropic.getToolOpts(anthropic.buildModel('model'), { structuredOutput: { name: 'person', structure } })).toStrictEqual({
+    tool_choice: { type: 'tool', name: 'structured_output' },
+    tools: [{
+      name: 'structured_output',
+      description: 'Provide the final answer as person',
+      input_schema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'], additionalProperties: false },
+    }],
+  })
+  anthropic.addPlugin(new Plugin2())
+  expect(await anthropic.getToolOpts(anthropic.buildModel('model'), { structuredOutput: { name: 'person', structure } })).toMatchObject({
+    tool_choice: { type: 'any' },
+    tools: [{ name: 'plugin2' }, { name: 'structured_output' }],
+  })
+  const model = anthropic.buildModel('model')
+  model.capabilities.reasoning = true
+  expect(await anthropic.getToolOpts(model, { structuredOutput: { name: 'person', structure } })).toMatchObject({
+    tool_choice: { type: 'auto' },
+  })
+})
+
+test('Anthropic structured output completion', async () => {
+  const anthropic = new Anthropic(config)
+  vi.mocked(_Anthropic.default.prototype.messages.create).mockResolvedValueOnce({
+    content: [{ type: 'tool_use', id: 'tool', name: 'structured_output', input: { name: 'John' } }],
+    stop_reason: 'tool_use',
+  } as any)
+  const response = await anthropic.complete(anthropic.buildModel('model'), [
+    new Message('system', 'instruction'),
+    new Message('user', 'prompt'),
+  ], { structuredOutput: { name: 'person', structure: z.object({ name: z.string() }) } })
+  expect(response).toStrictEqual({
+    type: 'text',
+    content: '{"name":"John"}',
+    parsed: { name: 'John' },
+    toolCalls: [],
+    finishReason: 'stop',
+    rawFinishReason: 'end_turn',
+  })
+})
+
+test('Anthropic structured output ignores prose', async () => {
+  const anthropic = new Anthropic(config)
+  const structuredOutput = { name: 'person', structure: z.object({ name: z.string() }) }
+  vi.mocked(_Anthropic.default.prototype.messages.create).mockResolvedValueOnce({
+    content: [
+      { type: 'text', text: 'Let me think about it.' },
+      { type: 'tool_use', id: 'tool', name: 'structured_output', input: { name: 'John' } },
+    ],
+    stop_reason: 'tool_use',
+  } as any)
+  const thread = [new Message('system', 'instruction'), new Message('user', 'prompt')]
+  const response = await anthropic.complete(anthropic.buildModel('model'), thread, { structuredOutput })
+  expect(response.parsed).toStrictEqual({ name: 'John' })
+  vi.mocked(_Anthropic.default.prototype.messages.create).mockResolvedValueOnce({
+    content: [{ type: 'text', text: 'His name is John.' }],
+    stop_reason: 'end_turn',
+  } as any)
+  await expect(anthropic.complete(anthropic.buildModel('model'), thread, { structuredOutput: { ...structuredOutput, maxRepairs: 0 } })).rejects.toMatchObject({
+    name: 'LlmStructuredOutputError',
+    content: 'His name is John.',
+  })
+})
+
+test('Anthropic structured output repairs prose', async () => {
+  const anthropic = new Anthropic(config)
+  vi.mocked(_Anthropic.default.prototype.messages.create).mockResolvedValueOnce({
+    content: [{ type: 'text', text: 'His name is John.' }],
+    stop_reason: 'end_turn',
+  } as any).mockResolvedValueOnce({
+    content: [{ type: 'tool_use', id: 'tool', name: 'structured_output', input: { name: 'John' } }],
+    stop_reason: 'tool_use',
+  } as any)
+  const response = await anthropic.complete(anthropic.buildModel('model'), [
+    new Message('system', 'instruction'),
+    new Message('user', 'prompt'),
+  ], { structuredOutput: { name: 'person', structure: z.object({ name: z.string() }) } })
+  expect(response.parsed).toStrictEqual({ name: 'John' })
+  expect(_Anthropic.default.prototype.messages.create).toHaveBeenLastCalledWith(expect.objectContaining({
+    messages: [
+      expect.objectContaining({ role: 'user' }),
+      { role: 'assistant', content: 'His name is John.' },
+      expect.objectContaining({ role: 'user', content: [expect.objectContaining({ text: expect.stringContaining('does not match the expected JSON schema') })] }),
+    ],
+  }))
+})
+
+test('Anthropic structured output stream ignores prose', async () => {
+  const anthropic = new Anthropic(config)
+  const context: AnthropicStreamingContext = {
+    model: anthropic.buildModel('model'),
+    system: 'instruction',
+    thread: [],
+    opts: { structuredOutput: { name: 'person', structure: z.object({ name: z.string() }) } },
+    firstTextBlockStart: true,
+    usage: { prompt_tokens: 0, completion_tokens: 0 }
+  }
+  const chunks: LlmChunk[] = []
+  for (const chunk of [
+    { type: 'content_block_start', content_block: { type: 'text' } },
+    { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Let me think.' } },
+    { type: 'content_block_start', content_block: { type: 'tool_use', id: 'tool', name: 'structured_output' } },
+    { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: '{"name":"John"}' } },
+    { type: 'message_delta', delta: { stop_reason: 'tool_use' } },
+    { type: 'message_stop' },
+  ]) {
+    for await (const llmChunk of anthropic.nativeChunkToLlmChunk(chunk as any, context)) {
+      chunks.push(llmChunk)
+    }
+  }
+  expect(chunks).toStrictEqual([
+    { type: 'content', text: '{"name":"John"}', done: false },
+    { type: 'content', text: '', done: true, finishReason: 'stop', rawFinishReason: 'end_turn' },
+  ])
+  const prose = { ...context, firstTextBlockStart: true, toolCall: undefined, heldText: undefined }
+  chunks.length = 0
+  for (const chunk of [
+    { type: 'content_block_start', content_block: { type: 'text' } },
+    { type: 'content_block_delta', delta: { type: 'text_delta', text: 'His name is John.' } },
+    { type: 'message_delta', delta: { stop_reason: 'end_turn' } },
+  ]) {
+    for await (const llmChunk of anthropic.nativeChunkToLlmChunk(chunk as any, prose)) {
+      chunks.push(llmChunk)
+    }
+  }
+  expect(chunks).toStrictEqual([
+    { type: 'content', text: 'His name is John.', done: false },
+  ])
+})
+
+test('Anthropic structured output stream', async () => {
+  const anthropic = new Anthropic(config)
+  const context: AnthropicStreamingContext = {
+    model: anthropic.buildModel('model'),
+    system: 'instruction',
+    thread: [],
+    opts: { structuredOutput: { name: 'person', structure: z.object({ name: z.string() }) } },
+    firstTextBlockStart: true,
+    usage: { prompt_tokens: 0, completion_tokens: 0 }
+  }
+  const chunks: LlmChunk[] = []
+  for (const chunk of [
+    { type: 'content_block_start', content_block: { type: 'tool_use', id: 'tool', name: 'structured_output' } },
+    { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: '{"name":' } },
+    { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: '"John"}' } },
+    { type: 'message_delta', delta: { stop_reason: 'tool_use' } },
+    { type: 'message_stop' },
+  ]) {
+    for await (const llmChunk of anthropic.nativeChunkToLlmChunk(chunk as any, context)) {
+      chunks.push(llmChunk)
+    }
+  }
+  expect(chunks).toStrictEqual([
+    { type: 'content', text: '{"name":', done: false },
+    { type: 'content', text: '"John"}', done: false },
+    { type: 'content', text: '', done: true, finishReason: 'stop', rawFinishReason: 'end_turn' },
+  ])
+})
+
+test('Anthropic structured output partial objects', async () => {
+  const anthropic = new Anthropic(config)
+  vi.mocked(_Anthropic.default.prototype.messages.create).mockReturnValueOnce({
+    async * [Symbol.asyncIterator]() {
+      yield { type: 'content_block_start', content_block: { type: 'tool_use', id: 'tool', name: 'structured_output' } }
+      yield { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: '{"name":"Jo' } }
+      yield { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: 'hn","age":' } }
+      yield { type: 'content_block_delta', delta: { type: 'input_json_delta', partial_json: '42}' } }
+      yield { type: 'message_delta', delta: { stop_reason: 'tool_use' } }
+      yield { type: 'message_stop' }
+    },
+    controller: { abort: vi.fn() },
+  } as any)
+  const chunks: LlmChunk[] = []
+  for await (const chunk of anthropic.generate(anthropic.buildModel('model'), [
+    new Message('system', 'instruction'),
+    new Message('user', 'prompt'),
+  ], { structuredOutput: { name: 'person', structure: z.object({ name: z.string(), age: z.number() }) } })) {
+    chunks.push(chunk)
+  }
+  const partials = chunks.filter((chunk) => chunk.type === 'partial_object')
+  expect(partials.length).toBeGreaterThan(2)
+  expect(partials[0]).toStrictEqual({ type: 'partial_object', object: { name: 'Jo' }, done: false })
+  expect(partials.at(-1)).toStrictEqual({ type: 'partial_object', object: { name: 'John', age: 42 }, done: true })
+})
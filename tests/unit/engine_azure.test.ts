@@ -27,8 +27,8 @@ vi.mock('openai', async () => {
             async * [Symbol.asyncIterator]() {
               
               // first we yield tool call chunks
-              yield { choices: [{ delta: { tool_calls: [ { id: 0, function: { name: 'plugin2', arguments: '[ "ar' }} ] }, finish_reason: 'none' } ] }
-              yield { choices: [{ delta: { tool_calls: [ { function: { arguments: [ 'g" ]' ] } }] }, finish_reason: 'tool_calls' } ] }
+              yield { choices: [{ delta: { tool_calls: [ { id: 0, function: { name: 'plugin2', arguments: '{ "param1": "ar' }} ] }, finish_reason: 'none' } ] }
+              yield { choices: [{ delta: { tool_calls: [ { function: { arguments: [ 'g", "param3": [] }' ] } }] }, finish_reason: 'tool_calls' } ] }
               
               // now the text response
               const content = 'response'
@@ -107,10 +107,10 @@ test('Azure stream', async () => {
     }
   }
   expect(response).toBe('response')
-  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'model' }, ['arg'])
+  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'model' }, { param1: 'arg', param3: [] })
   expect(toolCalls[0]).toStrictEqual({ type: 'tool', id: 0, name: 'plugin2', state: 'preparing', status: 'prep2', done: false })
-  expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: 0, name: 'plugin2', state: 'running', status: 'run2', call: { params: ['arg'], result: undefined }, done: false })
-  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: 0, name: 'plugin2', state: 'completed', call: { params: ['arg'], result: 'result2' }, status: undefined, done: true })
+  expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: 0, name: 'plugin2', state: 'running', status: 'run2', call: { params: { param1: 'arg', param3: [] }, result: undefined }, done: false })
+  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: 0, name: 'plugin2', state: 'completed', call: { params: { param1: 'arg', param3: [] }, result: 'result2' }, status: undefined, done: true })
   await azure.stop(stream)
   expect(stream.controller?.abort).toHaveBeenCalled()
 })
@@ -34,8 +34,8 @@ vi.mock('openai', async () => {
             async * [Symbol.asyncIterator]() {
               
               // first we yield tool call chunks
-              yield { choices: [{ delta: { tool_calls: [ { id: 1, function: { name: 'plugin2', arguments: '[ "ar' }} ] }, finish_reason: 'none' } ] }
-              yield { choices: [{ delta: { tool_calls: [ { function: { arguments: [ 'g" ]' ] } }] }, finish_reason: 'none' } ] }
+              yield { choices: [{ delta: { tool_calls: [ { id: 1, function: { name: 'plugin2', arguments: '{ "param1": "ar' }} ] }, finish_reason: 'none' } ] }
+              yield { choices: [{ delta: { tool_calls: [ { function: { arguments: [ 'g", "param3": [] }' ] } }] }, finish_reason: 'none' } ] }
               yield { choices: [{ finish_reason: 'stop' } ] }
 
               // yield some reasoning
@@ -148,10 +148,10 @@ test('DeepSeek stream', async () => {
   }
   expect(reasoning).toBe('reasoning')
   expect(response).toBe('response')
-  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'model' }, ['arg'])
+  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'model' }, { param1: 'arg', param3: [] })
   expect(toolCalls[0]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'preparing', status: 'prep2', done: false })
-  expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'running', status: 'run2', call: { params: ['arg'], result: undefined }, done: false })
-  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'completed', call: { params: ['arg'], result: 'result2' }, status: undefined, done: true })
+  expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'running', status: 'run2', call: { params: { param1: 'arg', param3: [] }, result: undefined }, done: false })
+  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'completed', call: { params: { param1: 'arg', param3: [] }, result: 'result2' }, status: undefined, done: true })
   await deepseek.stop(stream)
   expect(stream.controller!.abort).toHaveBeenCalled()
 })
@@ -10,6 +10,10 @@ import { GenerateContentResponse, FinishReason } from '@google/genai'
 import * as _Google from '@google/genai'
 import { LlmChunk, LlmChunkContent } from '../../src/types/llm'
 import { z } from 'zod'
+import { zodToJsonSchema } from 'zod-to-json-schema'
+import { LlmSchemaError } from '../../src/errors'
+import { CustomToolPlugin } from '../../src/plugin'
+import logger from '../../src/logger'
 
 Plugin2.prototype.execute = vi.fn((): Promise<string> => Promise.resolve('result2'))
 
@@ -46,8 +50,8 @@ vi.mock('@google/genai', async () => {
 
           // first we yield tool call chunks
           yield { candidates: [{ content: { parts: [{
-            functionCall: { name: 'plugin2', args: ['arg'] }
-          }] } }], functionCalls: [{ name: 'plugin2', args: ['arg'] }] }
+            functionCall: { name: 'plugin2', args: { param1: 'arg', param3: [] } }
+          }] } }], functionCalls: [{ name: 'plugin2', args: { param1: 'arg', param3: [] } }] }
 
           // now the text response
           const content = 'response'
@@ -59,7 +63,7 @@ vi.mock('@google/genai', async () => {
       }
     })
   }
-  const Type = { STRING: 'string', NUMBER: 'number', OBJECT: 'object' }
+  const Type = { STRING: 'string', NUMBER: 'number', INTEGER: 'integer', BOOLEAN: 'boolean', ARRAY: 'array', OBJECT: 'object', NULL: 'null' }
   const FunctionCallingConfigMode = { AUTO: 'auto', NONE: 'none', ANY: 'any' }
   return { GoogleGenAI, Type, FunctionCallingConfigMode }
 })
@@ -155,7 +159,7 @@ test('Google nativeChunkToLlmChunk Text', async () => {
   // @ts-expect-error mock
   streamChunk.candidates[0].content.parts[0].text = ''
   for await (const llmChunk of google.nativeChunkToLlmChunk(streamChunk, context)) {
-    expect(llmChunk).toStrictEqual({ type: 'content', text: '', done: true })
+    expect(llmChunk).toStrictEqual({ type: 'content', text: '', done: true, finishReason: 'stop', rawFinishReason: 'STOP' })
   }
 })
 
@@ -172,76 +176,41 @@ test('Google stream', async () => {
           description: 'Plugin 2',
           name: 'plugin2',
           parameters: {
+            type: 'object',
             properties: {
-              param1: {
-                type: 'string',
-                description: 'Parameter 1',
-              },
-              param2: {
-                type: 'number',
-                description: 'Parameter 2',
-              },
-              param3: {
-                type: undefined,
-                description: 'Parameter 3',
-                items: {
-                  properties: undefined,
-                  type: 'string',
-                },
-              },
-              param4: {
-                type: undefined,
-                description: 'Parameter 4',
-                items: {
-                  properties: undefined,
-                  type: 'string',
-                },
-              },
+              param1: { type: 'string', description: 'Parameter 1' },
+              param2: { type: 'number', description: 'Parameter 2' },
+              param3: { type: 'array', description: 'Parameter 3', items: { type: 'string' } },
+              param4: { type: 'array', description: 'Parameter 4', items: { type: 'string' } },
               param5: {
-                type: undefined,
+                type: 'array',
                 description: 'Parameter 5',
                 items: {
+                  type: 'object',
                   properties: {
-                    key: {
-                      description: 'Key',
-                      type: 'string',
-                    },
-                    value: {
-                      description: 'Value',
-                      type: 'number',
-                    },
+                    key: { type: 'string', description: 'Key' },
+                    value: { type: 'number', description: 'Value' },
                   },
-                  type: 'object',
-                },
-              },
-              param6: {
-                type: 'string',
-                description: 'Parameter 6',
-              },
-              param7: {
-                type: undefined,
-                description: 'Parameter 7',
-                items: {
-                  properties: undefined,
-                  type: 'string',
+                  propertyOrdering: ['key', 'value'],
+                  required: ['key'],
                 },
               },
+              param6: { type: 'string', description: 'Parameter 6' },
+              param7: { type: 'array', description: 'Parameter 7', items: { type: 'string' } },
               param8: {
-                type: undefined,
+                type: 'array',
                 description: 'Parameter 8',
                 items: {
+                  type: 'object',
                   properties: {
-                    key: {
-                      description: 'Key',
-                      type: 'string',
-                    },
+                    key: { type: 'string', description: 'Key' },
                   },
-                  type: 'object',
+                  propertyOrdering: ['key'],
                 },
               },
             },
+            propertyOrdering: ['param1', 'param2', 'param3', 'param4', 'param5', 'param6', 'param7', 'param8'],
             required: ['param1', 'param3'],
-            type: 'object',
           },
         },
       ],
@@ -284,7 +253,7 @@ test('Google stream', async () => {
     model: 'gemini-pro',
     contents: [
       { role: 'user', parts: [{ text: 'prompt' }] },
-      { role: 'assistant', parts: [{ functionCall: { name: 'plugin2', args: ['arg'] } }] },
+      { role: 'assistant', parts: [{ functionCall: { name: 'plugin2', args: { param1: 'arg', param3: [] } } }] },
       { role: 'tool', parts: [{ functionResponse: { id: 'plugin2', name: 'plugin2', response: 'result2' } }] },
     ], config: {
       systemInstruction: 'instruction',
@@ -296,10 +265,10 @@ test('Google stream', async () => {
   })
   expect(lastMsg?.done).toBe(true)
   expect(response).toBe('response')
-  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'gemini-pro' }, ['arg'])
+  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'gemini-pro' }, { param1: 'arg', param3: [] })
   expect(toolCalls[0]).toStrictEqual({ type: 'tool', id: 'plugin2', name: 'plugin2', state: 'preparing', status: 'prep2', done: false })
-  expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: 'plugin2', name: 'plugin2', state: 'running', status: 'run2', call: { params: ['arg'], result: undefined }, done: false })
-  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: 'plugin2', name: 'plugin2', state: 'completed', call: { params: ['arg'], result: 'result2' }, status: undefined, done: true })
+  expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: 'plugin2', name: 'plugin2', state: 'running', status: 'run2', call: { params: { param1: 'arg', param3: [] }, result: undefined }, done: false })
+  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: 'plugin2', name: 'plugin2', state: 'completed', call: { params: { param1: 'arg', param3: [] }, result: 'result2' }, status: undefined, done: true })
   await google.stop(stream)
   //expect(response.controller.abort).toHaveBeenCalled()
 })
@@ -447,7 +416,7 @@ test('Google streaming validation deny - yields canceled chunk', async () => {
     model: google.buildModel('model'),
     content: [],
     opts: { toolExecutionValidation: validator },
-    toolCalls: [{ id: 'plugin2', function: 'plugin2', args: '{}', message: [] }],
+    toolCalls: [{ id: 'plugin2', function: 'plugin2', args: '{"param1":"a","param3":[]}', message: [] }],
     usage: { prompt_tokens: 0, completion_tokens: 0 },
   }
 
@@ -458,7 +427,7 @@ test('Google streaming validation deny - yields canceled chunk', async () => {
       content: { role: 'model', parts: [] },
       finishReason: 'STOP' as FinishReason,
     }],
-    functionCalls: [{ name: 'plugin2', args: {} }],
+    functionCalls: [{ name: 'plugin2', args: { param1: 'a', param3: [] } }],
   } as unknown as GenerateContentResponse
 
   for await (const chunk of google.nativeChunkToLlmChunk(toolCallChunk, context)) {
@@ -492,7 +461,7 @@ test('Google streaming validation abort - yields tool_abort chunk', async () =>
     model: google.buildModel('model'),
     content: [],
     opts: { toolExecutionValidation: validator },
-    toolCalls: [{ id: 'plugin2', function: 'plugin2', args: '{}', message: [] }],
+    toolCalls: [{ id: 'plugin2', function: 'plugin2', args: '{"param1":"a","param3":[]}', message: [] }],
     usage: { prompt_tokens: 0, completion_tokens: 0 },
   }
 
@@ -503,7 +472,7 @@ test('Google streaming validation abort - yields tool_abort chunk', async () =>
       content: { role: 'model', parts: [] },
       finishReason: 'STOP' as FinishReason,
     }],
-    functionCalls: [{ name: 'plugin2', args: {} }],
+    functionCalls: [{ name: 'plugin2', args: { param1: 'a', param3: [] } }],
   } as unknown as GenerateContentResponse
 
   try {
@@ -545,12 +514,12 @@ test('Google chat validation deny - throws error', async () => {
       content: {
         role: 'model',
         parts: [{
-          functionCall: { name: 'plugin2', args: {} }
+          functionCall: { name: 'plugin2', args: { param1: 'a', param3: [] } }
         }]
       },
       finishReason: 'STOP'
     }],
-    functionCalls: [{ name: 'plugin2', args: {} }],
+    functionCalls: [{ name: 'plugin2', args: { param1: 'a', param3: [] } }],
     text: null
   })
 
@@ -580,12 +549,12 @@ test('Google chat validation abort - throws LlmChunkToolAbort', async () => {
       content: {
         role: 'model',
         parts: [{
-          functionCall: { name: 'plugin2', args: {} }
+          functionCall: { name: 'plugin2', args: { param1: 'a', param3: [] } }
         }]
       },
       finishReason: 'STOP'
     }],
-    functionCalls: [{ name: 'plugin2', args: {} }],
+    functionCalls: [{ name: 'plugin2', args: { param1: 'a', param3: [] } }],
     text: null
   })
 
@@ -608,3 +577,124 @@ test('Google chat validation abort - throws LlmChunkToolAbort', async () => {
     })
   }
 })
+
+test('Google stop, seed and penalties', async () => {
+  const google = new Google(config)
+  await google.stream(google.buildModel('gemini-pro'), [
+    new Message('system', 'instruction'),
+    new Message('user', 'prompt'),
+  ], { stop: 'END', seed: 42, presencePenalty: 0.5, frequencyPenalty: 0 })
+  expect(_Google.GoogleGenAI.prototype.models.generateContentStream).toHaveBeenCalledWith(expect.objectContaining({
+    config: {
+      systemInstruction: 'instruction',
+      stopSequences: ['END'],
+      seed: 42,
+      presencePenalty: 0.5,
+      frequencyPenalty: 0,
+    }
+  }))
+})
+
+test('Google converts JSON schemas to Gemini schemas', async () => {
+  const google = new Google(config)
+  const schema = zodToJsonSchema(z.object({
+    name: z.string().min(1).describe('Name'),
+    age: z.number().int().positive(),
+    email: z.string().email().nullable(),
+    role: z.enum(['admin', 'user']).default('user'),
+    address: z.object({
+      city: z.string(),
+      zip: z.union([z.string(), z.number()]).optional(),
+    }).nullable(),
+    tags: z.array(z.object({ key: z.string(), value: z.boolean() })).max(3),
+  }), { $refStrategy: 'none' })
+  expect(google.toGeminiSchema(schema, 'tool')).toStrictEqual({
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Name', minLength: '1' },
+      age: { type: 'integer', minimum: 1 },
+      email: { type: 'string', description: '(format: email)', nullable: true },
+      role: { type: 'string', default: 'user', enum: ['admin', 'user'] },
+      address: {
+        type: 'object',
+        properties: {
+          city: { type: 'string' },
+          zip: { anyOf: [{ type: 'string' }, { type: 'number' }] },
+        },
+        propertyOrdering: ['city', 'zip'],
+        required: ['city'],
+        nullable: true,
+      },
+      tags: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { key: { type: 'string' }, value: { type: 'boolean' } },
+          propertyOrdering: ['key', 'value'],
+          required: ['key', 'value'],
+        },
+        maxItems: '3',
+      },
+    },
+    propertyOrdering: ['name', 'age', 'email', 'role', 'address', 'tags'],
+    required: ['name', 'age', 'email', 'address', 'tags'],
+  })
+})
+
+test('Google reports schemas Gemini cannot express', async () => {
+  const google = new Google(config)
+  const convert = (schema: any) => () => google.toGeminiSchema({ type: 'object', properties: { param: schema } }, 'tool')
+  expect(convert({ type: 'object', additionalProperties: { type: 'string' } })).toThrow(LlmSchemaError)
+  expect(convert({ type: 'object', additionalProperties: { type: 'string' } })).toThrow('[google] tool.param: additionalProperties with a schema cannot be expressed in a Gemini schema')
+  expect(convert({ allOf: [{ type: 'string' }] })).toThrow('allOf')
+  expect(convert({ $ref: '#/definitions/x' })).toThrow('$ref')
+  expect(convert({ type: 'number', exclusiveMinimum: 0 })).toThrow('exclusiveMinimum')
+  expect(convert({ type: 'integer', enum: [1, 2] })).toThrow('enum of non-string values')
+  expect(convert({ type: 'array', items: [{ type: 'string' }, { type: 'number' }] })).toThrow('[google] tool.param: tuple items')
+  expect(convert({ oneOf: [{ type: 'string' }, { type: 'number' }] })).toThrow('oneOf')
+  expect(convert({ type: 'date' })).toThrow('type date')
+})
+
+test('Google accepts loose schemas', async () => {
+  const google = new Google(config)
+  const loose: string[] = []
+  expect(google.toGeminiSchema({ type: 'object', properties: {
+    any: { description: 'anything' },
+    list: { type: 'array', items: {} },
+    untyped: { type: 'array' },
+    free: { type: 'object', description: 'options' },
+    nested: { type: 'array', items: { type: 'object' } },
+  } }, 'tool', loose)).toStrictEqual({
+    type: 'object',
+    properties: {
+      any: { type: 'string', description: 'anything' },
+      list: { type: 'array', items: { type: 'string' } },
+      untyped: { type: 'array', items: { type: 'string' } },
+      free: { type: 'string', description: 'options (JSON object)' },
+      nested: { type: 'array', items: { type: 'string', description: '(JSON object)' } },
+    },
+    propertyOrdering: ['any', 'list', 'untyped', 'free', 'nested'],
+  })
+  expect(loose).toStrictEqual(['tool.any', 'tool.list[]', 'tool.untyped[]', 'tool.free', 'tool.nested[]'])
+})
+
+test('Google reports loose schemas once per tool', async () => {
+  class LoosePlugin extends CustomToolPlugin {
+    getName(): string { return 'loose' }
+    async getTools(): Promise<any> {
+      return { type: 'function', function: { name: 'loose', description: 'Loose', parameters: { type: 'object', properties: { any: {}, free: { type: 'object' } } } } }
+    }
+  }
+  const google = new Google(config)
+  google.addPlugin(new LoosePlugin())
+  const log = vi.spyOn(logger, 'log').mockImplementation(() => {})
+  await google.stream(google.buildModel('gemini-2.5-flash'), [ new Message('user', 'prompt') ])
+  await google.stream(google.buildModel('gemini-2.5-flash'), [ new Message('user', 'prompt') ])
+  expect(_Google.GoogleGenAI.prototype.models.generateContentStream).toHaveBeenLastCalledWith(expect.objectContaining({
+    config: expect.objectContaining({ tools: [{ functionDeclarations: [expect.objectContaining({ name: 'loose' })] }] })
+  }))
+  expect(log.mock.calls.filter((call) => String(call[0]).includes('loose schema'))).toStrictEqual([
+    ['[google] loose: loose schema at loose.any, loose.free sent with defaults'],
+  ])
+  log.mockRestore()
+})
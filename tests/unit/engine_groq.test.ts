@@ -35,8 +35,8 @@ vi.mock('groq-sdk', async() => {
 
               // first we yield tool call chunks (not for reasoning models)
               if (!opts.model.startsWith('o1-') && !opts.model.includes('reasoning')) {
-                yield { choices: [{ delta: { tool_calls: [ { id: 1, function: { name: 'plugin2', arguments: '[ "ar' }} ] }, finish_reason: 'none' } ] }
-                yield { choices: [{ delta: { tool_calls: [ { function: { arguments: [ 'g" ]' ] } }] }, finish_reason: 'none' } ] }
+                yield { choices: [{ delta: { tool_calls: [ { id: 1, function: { name: 'plugin2', arguments: '{ "param1": "ar' }} ] }, finish_reason: 'none' } ] }
+                yield { choices: [{ delta: { tool_calls: [ { function: { arguments: [ 'g", "param3": [] }' ] } }] }, finish_reason: 'none' } ] }
                 yield { choices: [{ finish_reason: 'tool_calls' } ] }
               }
 
@@ -150,7 +150,7 @@ test('Groq stream', async () => {
     messages: [
       { role: 'system', content: 'instruction' },
       { role: 'user', content: [{ type: 'text', text: 'prompt' }] },
-      { role: 'assistant', content: '', tool_calls: [ { id: 1, function: { name: 'plugin2', arguments: '[ "arg" ]' } } ] },
+      { role: 'assistant', content: '', tool_calls: [ { id: 1, function: { name: 'plugin2', arguments: '{ "param1": "arg", "param3": [] }' } } ] },
       { role: 'tool', content: '"result2"', name: 'plugin2', tool_call_id: 1 }
     ],
     tool_choice: 'auto',
@@ -161,10 +161,10 @@ test('Groq stream', async () => {
   expect(lastMsg?.done).toBe(true)
   expect(response).toBe('response')
   expect(reasoning).toBe('reasoning')
-  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'model' }, ['arg'])
+  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'model' }, { param1: 'arg', param3: [] })
   expect(toolCalls[0]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'preparing', status: 'prep2', done: false })
-  expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'running', status: 'run2', call: { params: ['arg'], result: undefined }, done: false })
-  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'completed', call: { params: ['arg'], result: 'result2' }, status: undefined, done: true })
+  expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'running', status: 'run2', call: { params: { param1: 'arg', param3: [] }, result: undefined }, done: false })
+  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'completed', call: { params: { param1: 'arg', param3: [] }, result: 'result2' }, status: undefined, done: true })
   await groq.stop(stream)
   expect(stream.controller!.abort).toHaveBeenCalled()
 })
@@ -258,7 +258,7 @@ test('Groq nativeChunkToLlmChunk Text', async () => {
   streamChunk.choices[0].finish_reason = 'stop'
   streamChunk.choices[0].delta.content = null
   for await (const llmChunk of groq.nativeChunkToLlmChunk(streamChunk, context)) {
-    expect(llmChunk).toStrictEqual({ type: 'content', text: '', done: true })
+    expect(llmChunk).toStrictEqual({ type: 'content', text: '', done: true, finishReason: 'stop', rawFinishReason: 'stop' })
   }
 })
 
@@ -288,7 +288,7 @@ test('Groq streaming validation deny - yields canceled chunk', async () => {
     model: groq.buildModel('model'),
     thread: [],
     opts: { toolExecutionValidation: validator },
-    toolCalls: [{ id: 1, function: 'plugin2', args: '{}', message: [] }],
+    toolCalls: [{ id: 1, function: 'plugin2', args: '{"param1":"a","param3":[]}', message: [] }],
     usage: { prompt_tokens: 0, completion_tokens: 0 },
   }
 
@@ -326,7 +326,7 @@ test('Groq streaming validation abort - yields tool_abort chunk', async () => {
     model: groq.buildModel('model'),
     thread: [],
     opts: { toolExecutionValidation: validator },
-    toolCalls: [{ id: 1, function: 'plugin2', args: '{}', message: [] }],
+    toolCalls: [{ id: 1, function: 'plugin2', args: '{"param1":"a","param3":[]}', message: [] }],
     usage: { prompt_tokens: 0, completion_tokens: 0 },
   }
 
@@ -375,7 +375,7 @@ test('Groq chat validation deny - throws error', async () => {
         tool_calls: [{
           id: 'tool_1',
           type: 'function',
-          function: { name: 'plugin2', arguments: '{}' }
+          function: { name: 'plugin2', arguments: '{"param1":"a","param3":[]}' }
         }]
       },
       finish_reason: 'tool_calls'
@@ -411,7 +411,7 @@ test('Groq chat validation abort - throws LlmChunkToolAbort', async () => {
         tool_calls: [{
           id: 'tool_1',
           type: 'function',
-          function: { name: 'plugin2', arguments: '{}' }
+          function: { name: 'plugin2', arguments: '{"param1":"a","param3":[]}' }
         }]
       },
       finish_reason: 'tool_calls'
@@ -436,4 +436,11 @@ test('Groq chat validation abort - throws LlmChunkToolAbort', async () => {
       }
     })
   }
-})
\ No newline at end of file
+})
+
+test('Groq stop, seed and penalties', async () => {
+  const groq = new Groq(config)
+  expect(groq.getCompletionOpts(groq.buildModel('model'), { stop: ['END'], seed: 42, presencePenalty: 0.5, frequencyPenalty: 0 })).toStrictEqual({
+    stop: ['END'], seed: 42, presence_penalty: 0.5, frequency_penalty: 0,
+  })
+})
@@ -35,8 +35,8 @@ vi.mock('openai', async () => {
             async * [Symbol.asyncIterator]() {
 
               // first we yield tool call chunks
-              yield { choices: [{ delta: { tool_calls: [ { id: 0, function: { name: 'plugin2', arguments: '[ "ar' }} ] }, finish_reason: 'none' } ] }
-              yield { choices: [{ delta: { tool_calls: [ { function: { arguments: [ 'g" ]' ] } }] }, finish_reason: 'tool_calls' } ] }
+              yield { choices: [{ delta: { tool_calls: [ { id: 0, function: { name: 'plugin2', arguments: '{ "param1": "ar' }} ] }, finish_reason: 'none' } ] }
+              yield { choices: [{ delta: { tool_calls: [ { function: { arguments: [ 'g", "param3": [] }' ] } }] }, finish_reason: 'tool_calls' } ] }
 
               // yield some reasoning
               const reasoning = 'reasoning'
@@ -128,10 +128,10 @@ test('LMStudio stream', async () => {
   }
   expect(response).toBe('response')
   expect(reasoning).toBe('reasoning')
-  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'llama-3.2' }, ['arg'])
+  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'llama-3.2' }, { param1: 'arg', param3: [] })
   expect(toolCalls[0]).toStrictEqual({ type: 'tool', id: 0, name: 'plugin2', state: 'preparing', status: 'prep2', done: false })
-  expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: 0, name: 'plugin2', state: 'running', status: 'run2', call: { params: ['arg'], result: undefined }, done: false })
-  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: 0, name: 'plugin2', state: 'completed', call: { params: ['arg'], result: 'result2' }, status: undefined, done: true })
+  expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: 0, name: 'plugin2', state: 'running', status: 'run2', call: { params: { param1: 'arg', param3: [] }, result: undefined }, done: false })
+  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: 0, name: 'plugin2', state: 'completed', call: { params: { param1: 'arg', param3: [] }, result: 'result2' }, status: undefined, done: true })
   await lmstudio.stop(stream)
   expect(stream.controller!.abort).toHaveBeenCalled()
 })
@@ -43,8 +43,8 @@ vi.mock('@mistralai/mistralai', async() => {
         async * [Symbol.asyncIterator]() {
           
           // first we yield tool call chunks
-          yield { data: { choices: [{ delta: { toolCalls: [ { id: 1, function: { name: 'plugin2', arguments: '[ "ar' }} ] }, finishReason: 'none' } ] } }
-          yield { data: { choices: [{ delta: { toolCalls: [ { function: { arguments: [ 'g" ]' ] } }] }, finishReason: 'tool_calls' } ] } }
+          yield { data: { choices: [{ delta: { toolCalls: [ { id: 1, function: { name: 'plugin2', arguments: '{ "param1": "ar' }} ] }, finishReason: 'none' } ] } }
+          yield { data: { choices: [{ delta: { toolCalls: [ { function: { arguments: [ 'g", "param3": [] }' ] } }] }, finishReason: 'tool_calls' } ] } }
           
           // now the text response
           const content = 'response'
@@ -137,7 +137,7 @@ test('MistralAI nativeChunkToLlmChunk Text', async () => {
   streamChunk.data.choices[0].delta.content = null
   streamChunk.data.choices[0].finishReason = 'stop'
   for await (const llmChunk of mistralai.nativeChunkToLlmChunk(streamChunk, context)) {
-    expect(llmChunk).toStrictEqual({ type: 'content', text: '', done: true })
+    expect(llmChunk).toStrictEqual({ type: 'content', text: '', done: true, finishReason: 'stop', rawFinishReason: 'stop' })
   }
 })
 
@@ -179,7 +179,7 @@ test('MistralAI stream with tools', async () => {
     messages: [
       { role: 'system', content: 'instruction' },
       { role: 'user', content: [{ type: 'text', text: 'prompt' }] },
-      { role: 'assistant', toolCalls: [ { id: 1, function: { name: 'plugin2', arguments: '[ "arg" ]' } } ] },
+      { role: 'assistant', toolCalls: [ { id: 1, function: { name: 'plugin2', arguments: '{ "param1": "arg", "param3": [] }' } } ] },
       { role: 'tool', toolCallId: 1, name: 'plugin2', content: '"result2"' }
     ],
     toolChoice: 'auto',
@@ -187,10 +187,10 @@ test('MistralAI stream with tools', async () => {
   })
   expect(lastMsg?.done).toBe(true)
   expect(response).toBe('response')
-  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'model' }, ['arg'])
+  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'model' }, { param1: 'arg', param3: [] })
   expect(toolCalls[0]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'preparing', status: 'prep2', done: false })
-  expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'running', status: 'run2', call: { params: ['arg'], result: undefined }, done: false })
-  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'completed', call: { params: ['arg'], result: 'result2' }, status: undefined, done: true })
+  expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'running', status: 'run2', call: { params: { param1: 'arg', param3: [] }, result: undefined }, done: false })
+  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'completed', call: { params: { param1: 'arg', param3: [] }, result: 'result2' }, status: undefined, done: true })
   await mistralai.stop()
   //expect(Mistral.prototype.abort).toHaveBeenCalled()
 })
@@ -308,7 +308,7 @@ test('MistralAI streaming validation deny - yields canceled chunk', async () =>
     model: mistralai.buildModel('model'),
     thread: [],
     opts: { toolExecutionValidation: validator },
-    toolCalls: [{ id: '1', function: 'plugin2', args: '{}', message: [] }],
+    toolCalls: [{ id: '1', function: 'plugin2', args: '{"param1":"a","param3":[]}', message: [] }],
     usage: { prompt_tokens: 0, completion_tokens: 0 },
   }
 
@@ -345,7 +345,7 @@ test('MistralAI streaming validation abort - yields tool_abort chunk', async ()
     model: mistralai.buildModel('model'),
     thread: [],
     opts: { toolExecutionValidation: validator },
-    toolCalls: [{ id: '1', function: 'plugin2', args: '{}', message: [] }],
+    toolCalls: [{ id: '1', function: 'plugin2', args: '{"param1":"a","param3":[]}', message: [] }],
     usage: { prompt_tokens: 0, completion_tokens: 0 },
   }
 
@@ -393,7 +393,7 @@ test('MistralAI chat validation deny - throws error', async () => {
         toolCalls: [{
           id: 'tool_1',
           type: 'function',
-          function: { name: 'plugin2', arguments: '{}' }
+          function: { name: 'plugin2', arguments: '{"param1":"a","param3":[]}' }
         }]
       },
       finishReason: 'tool_calls'
@@ -429,7 +429,7 @@ test('MistralAI chat validation abort - throws LlmChunkToolAbort', async () => {
         toolCalls: [{
           id: 'tool_1',
           type: 'function',
-          function: { name: 'plugin2', arguments: '{}' }
+          function: { name: 'plugin2', arguments: '{"param1":"a","param3":[]}' }
         }]
       },
       finishReason: 'tool_calls'
@@ -454,4 +454,12 @@ test('MistralAI chat validation abort - throws LlmChunkToolAbort', async () => {
       }
     })
   }
-})
\ No newline at end of file
+})
+
+test('MistralAI stop, seed and penalties', async () => {
+  const mistralai = new MistralAI(config)
+  expect(mistralai.getCompletionOpts(mistralai.buildModel('model'), { stop: ['END'], seed: 42, presencePenalty: 0.5, frequencyPenalty: 0 })).toStrictEqual({
+    maxTokens: undefined, temperature: undefined, topP: undefined,
+    stop: ['END'], randomSeed: 42, presencePenalty: 0.5, frequencyPenalty: 0,
+  })
+})
@@ -0,0 +1,199 @@
+import { expect, test } from 'vitest'
+import { mkdtempSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { Plugin1 } from '../mocks/plugins'
+import MockEngine from '../../src/providers/mock'
+import LlmRecorder from '../../src/recorder'
+import { LlmRateLimitError } from '../../src/errors'
+import Message from '../../src/models/message'
+import { LlmChunk } from '../../src/types/llm'
+
+const thread = [
+  new Message('system', 'instructions'),
+  new Message('user', 'prompt'),
+]
+
+const collect = async (stream: AsyncIterable<LlmChunk>): Promise<LlmChunk[]> => {
+  const chunks: LlmChunk[] = []
+  for await (const chunk of stream) {
+    chunks.push(chunk)
+  }
+  return chunks
+}
+
+test('MockEngine basics', async () => {
+  const engine = new MockEngine()
+  expect(engine.getId()).toBe('mock')
+  expect(await engine.getModels()).toStrictEqual([{ id: 'mock', name: 'Mock' }])
+  expect(engine.getModelCapabilities()).toStrictEqual({ tools: true, vision: false, reasoning: false, caching: false })
+  expect(new MockEngine({ capabilities: { vision: true } }).getModelCapabilities().vision).toBe(true)
+})
+
+test('MockEngine completion', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'content', text: 'hello ' }, { type: 'content', text: 'world' }, { type: 'usage', prompt_tokens: 10, completion_tokens: 2 }],
+  ] })
+  const response = await engine.complete('mock', thread, { usage: true })
+  expect(response.content).toBe('hello world')
+  expect(response.usage).toMatchObject({ prompt_tokens: 10, completion_tokens: 2 })
+  expect(engine.requests).toStrictEqual([{
+    model: 'mock',
+    thread: [
+      { role: 'system', content: 'instructions' },
+      { role: 'user', content: [{ type: 'text', text: 'prompt' }] },
+    ],
+    tools: [],
+  }])
+  await expect(engine.complete('mock', thread)).rejects.toThrow('no scripted response left')
+})
+
+test('MockEngine completion with tool calls', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', id: 'call_1', name: 'plugin1', args: { arg: 'value' } }],
+    'done',
+  ] })
+  engine.addPlugin(new Plugin1())
+  const response = await engine.complete('mock', thread)
+  expect(response.content).toBe('done')
+  expect(response.toolCalls).toStrictEqual([{ name: 'plugin1', params: { arg: 'value' }, result: 'result1' }])
+  expect(engine.requests[1].tools).toStrictEqual(['plugin1'])
+  expect(engine.requests[1].thread.slice(2)).toStrictEqual([
+    { role: 'assistant', content: '', tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'plugin1', arguments: '{"arg":"value"}' } }] },
+    { role: 'tool', tool_call_id: 'call_1', name: 'plugin1', content: '"result1"' },
+  ])
+})
+
+test('MockEngine streaming', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'reasoning', text: 'thinking' }, { type: 'tool_call', id: 'call_1', name: 'plugin1' }, { type: 'usage', prompt_tokens: 10, completion_tokens: 2 }],
+    [{ type: 'content', text: 'done' }, { type: 'usage', prompt_tokens: 20, completion_tokens: 3 }],
+  ] })
+  engine.addPlugin(new Plugin1())
+  const chunks = await collect(engine.generate('mock', thread, { usage: true }))
+  expect(chunks).toStrictEqual([
+    { type: 'reasoning', text: 'thinking', done: false },
+    expect.objectContaining({ type: 'tool', id: 'call_1', name: 'plugin1', state: 'preparing', done: false }),
+    expect.objectContaining({ type: 'tool', id: 'call_1', state: 'running', done: false }),
+    expect.objectContaining({ type: 'tool', id: 'call_1', state: 'completed', call: { params: {}, result: 'result1' }, done: true }),
+    { type: 'content', text: 'done', done: false },
+    { type: 'content', text: '', done: true },
+    { type: 'usage', usage: expect.objectContaining({ prompt_tokens: 30, completion_tokens: 5 }) },
+  ])
+  expect(engine.requests).toHaveLength(2)
+})
+
+test('MockEngine scripted errors', async () => {
+  const error = Object.assign(new Error('rate limited'), { status: 429 })
+  const engine = new MockEngine({ maxRetries: 1, retryDelay: 1, responses: [
+    [{ type: 'error', error }],
+    'recovered',
+  ] })
+  const chunks = await collect(engine.generate('mock', thread))
+  expect(chunks[0]).toMatchObject({ type: 'retry', reason: 'rate_limit', attempt: 1 })
+  expect(chunks[1]).toStrictEqual({ type: 'content', text: 'recovered', done: false })
+  engine.addResponse([{ type: 'error', error }], [{ type: 'error', error }])
+  await expect(engine.complete('mock', thread)).rejects.toBeInstanceOf(LlmRateLimitError)
+})
+
+test('MockEngine abort', async () => {
+  const engine = new MockEngine({ delay: 5, responses: [
+    [{ type: 'content', text: 'one' }, { type: 'content', text: 'two' }, { type: 'content', text: 'three' }],
+  ] })
+  const controller = new AbortController()
+  const chunks: LlmChunk[] = []
+  for await (const chunk of engine.generate('mock', thread, { abortSignal: controller.signal })) {
+    chunks.push(chunk)
+    controller.abort()
+  }
+  expect(chunks).toStrictEqual([
+    { type: 'content', text: 'one', done: false },
+    { type: 'content', text: '', done: true, finishReason: 'aborted', rawFinishReason: 'aborted' },
+  ])
+})
+
+test('Recorder captures streams and replays them', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', id: 'call_1', name: 'plugin1', args: { arg: 'value' } }],
+    [{ type: 'content', text: 'done' }, { type: 'usage', prompt_tokens: 10, completion_tokens: 2 }],
+  ] })
+  engine.addPlugin(new Plugin1())
+  const recorder = new LlmRecorder(engine)
+  const chunks = await collect(recorder.generate('mock', thread, { usage: true }))
+
+  const fixture = recorder.fixtures[0]
+  expect(fixture.provider).toBe('mock')
+  expect(fixture.model).toBe('mock')
+  expect(fixture.chunks).toStrictEqual(chunks)
+  expect(fixture.requests).toHaveLength(2)
+  expect(fixture.requests[1].thread).toHaveLength(4)
+  expect(JSON.parse(JSON.stringify(recorder))).toHaveLength(1)
+
+  const responses = LlmRecorder.toMockResponses(fixture)
+  expect(responses).toStrictEqual([
+    [{ type: 'tool_call', id: 'call_1', name: 'plugin1', args: { arg: 'value' } }],
+    [{ type: 'content', text: 'done' }, { type: 'usage', prompt_tokens: 10, completion_tokens: 2 }],
+  ])
+
+  const replay = new MockEngine({ responses })
+  replay.addPlugin(new Plugin1())
+  expect(await collect(replay.generate('mock', thread, { usage: true }))).toStrictEqual(chunks)
+})
+
+test('Recorder captures completions', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', name: 'plugin1' }],
+    'done',
+  ] })
+  engine.addPlugin(new Plugin1())
+  const recorder = new LlmRecorder(engine)
+  const response = await recorder.complete('mock', thread)
+  expect(recorder.fixtures[0].response).toBe(response)
+  expect(recorder.fixtures[0].requests).toHaveLength(2)
+  expect(LlmRecorder.toMockResponses(recorder.fixtures[0])).toStrictEqual([
+    [{ type: 'tool_call', name: 'plugin1', args: {} }],
+    [{ type: 'content', text: 'done' }],
+  ])
+})
+
+test('Recorder splits completion tool rounds', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', name: 'plugin1' }, { type: 'tool_call', name: 'plugin1', args: { arg: 'other' } }],
+    [{ type: 'tool_call', name: 'plugin1', args: { arg: 'value' } }],
+    'done',
+  ] })
+  engine.addPlugin(new Plugin1())
+  const recorder = new LlmRecorder(engine)
+  await recorder.complete('mock', thread)
+  expect(engine.middlewares).toHaveLength(0)
+  const responses = LlmRecorder.toMockResponses(recorder.fixtures[0])
+  expect(responses).toStrictEqual([
+    [{ type: 'tool_call', name: 'plugin1', args: {} }, { type: 'tool_call', name: 'plugin1', args: { arg: 'other' } }],
+    [{ type: 'tool_call', name: 'plugin1', args: { arg: 'value' } }],
+    [{ type: 'content', text: 'done' }],
+  ])
+  const replay = new MockEngine({ responses })
+  replay.addPlugin(new Plugin1())
+  expect(await replay.complete('mock', thread)).toStrictEqual(recorder.fixtures[0].response)
+})
+
+test('Recorder saves and loads fixtures', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', id: 'call_1', name: 'plugin1', args: { arg: 'value' } }],
+    'done',
+  ] })
+  engine.addPlugin(new Plugin1())
+  engine.addMiddleware({ onRequest: () => {} })
+  const recorder = new LlmRecorder(engine)
+  const chunks = await collect(recorder.generate('mock', thread))
+  expect(engine.middlewares).toHaveLength(1)
+
+  const path = join(mkdtempSync(join(tmpdir(), 'llm-recorder-')), 'fixtures.json')
+  await recorder.save(path)
+  const fixtures = await LlmRecorder.load(path)
+  expect(fixtures).toStrictEqual(JSON.parse(JSON.stringify(recorder.fixtures)))
+
+  const replay = new MockEngine({ responses: LlmRecorder.toMockResponses(fixtures[0]) })
+  replay.addPlugin(new Plugin1())
+  expect(await collect(replay.generate('mock', thread))).toStrictEqual(chunks)
+})
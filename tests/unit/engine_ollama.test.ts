@@ -46,7 +46,7 @@ vi.mock('ollama/dist/browser.cjs', async() => {
           // first we yield tool call chunks
           if (opts.model.includes('tool')) {
             yield { message: { role: 'assistant', content: '', tool_calls: [{
-                function: { name: 'plugin2', arguments: ['arg'] },
+                function: { name: 'plugin2', arguments: { param1: 'arg', param3: [] } },
               }], done: false }
             }
           }
@@ -218,7 +218,7 @@ test('Ollama stream with tools', async () => {
     messages: [
       { role: 'system', content: 'instruction' },
       { role: 'user', content: 'prompt' },
-      { role: 'assistant', content: '', done: false, tool_calls: [ { function: { name: 'plugin2', arguments: [ 'arg' ] } } ] },
+      { role: 'assistant', content: '', done: false, tool_calls: [ { function: { name: 'plugin2', arguments: { param1: 'arg', param3: [] } } } ] },
       { role: 'tool', content: '"result2"' },
     ],
     //tool_choice: 'auto',
@@ -228,14 +228,44 @@ test('Ollama stream with tools', async () => {
   })
   expect(lastMsg!.done).toBe(true)
   expect(response).toBe('response')
-expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'llama3-groq-tool-use' }, ['arg'])
-  expect(toolCalls[0]).toStrictEqual({ type: 'tool', id: '0', name: 'plugin2', state: 'preparing', status: 'prep2', done: false })
-  expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: '0', name: 'plugin2', state: 'running', status: 'run2', call: { params: ['arg'], result: undefined }, done: false })
-  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: '0', name: 'plugin2', state: 'completed', call: { params: ['arg'], result: 'result2' }, status: undefined, done: true })
+expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'llama3-groq-tool-use' }, { param1: 'arg', param3: [] })
+  expect(toolCalls[0]).toStrictEqual({ type: 'tool', id: expect.stringMatching(/^call_/), name: 'plugin2', state: 'preparing', status: 'prep2', done: false })
+  expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: toolCalls[0].id, name: 'plugin2', state: 'running', status: 'run2', call: { params: { param1: 'arg', param3: [] }, result: undefined }, done: false })
+  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: toolCalls[0].id, name: 'plugin2', state: 'completed', call: { params: { param1: 'arg', param3: [] }, result: 'result2' }, status: undefined, done: true })
   await ollama.stop()
   expect(_ollama.Ollama.prototype.abort).toHaveBeenCalled()
 })
 
+test('Ollama stream with several tool calls', async () => {
+  const ollama = new Ollama(config)
+  ollama.addPlugin(new Plugin2())
+  const context: OllamaStreamingContext = {
+    model: ollama.buildModel('llama3-groq-tool-use'),
+    thread: [],
+    opts: {},
+    toolCalls: [],
+    usage: { prompt_tokens: 0, completion_tokens: 0 },
+    thinking: false,
+  }
+  const message = { role: 'assistant', content: '', tool_calls: [
+    { function: { name: 'plugin2', arguments: { param1: 'arg1', param3: [] } } },
+    { function: { name: 'plugin2', arguments: { param1: 'arg2', param3: [] } } },
+  ] }
+  const chunks: any[] = []
+  for await (const chunk of ollama.nativeChunkToLlmChunk({ message, done: false } as any, context)) {
+    chunks.push(chunk)
+  }
+  const preparing = chunks.filter(c => c.type === 'tool' && c.state === 'preparing')
+  expect(preparing.length).toBe(2)
+  expect(preparing[0].id).not.toBe(preparing[1].id)
+  expect(context.thread).toStrictEqual([
+    message,
+    { role: 'tool', content: '"result2"' },
+    { role: 'tool', content: '"result2"' },
+  ])
+  expect(chunks[chunks.length-1].type).toBe('stream')
+})
+
 test('Ollama stream with tools disabled', async () => {
   const ollama = new Ollama(config)
   ollama.addPlugin(new Plugin1())
@@ -348,7 +378,7 @@ test('Ollama streaming validation deny - yields canceled chunk', async () => {
   }
 
   // Simulate tool_calls - need to pass chunk with tool_calls
-  const toolCallChunk = { message: { role: 'assistant', content: '', tool_calls: [{ function: { name: 'plugin2', arguments: {} } }], done: false } }
+  const toolCallChunk = { message: { role: 'assistant', content: '', tool_calls: [{ function: { name: 'plugin2', arguments: { param1: 'a', param3: [] } } }], done: false } }
   for await (const chunk of ollama.nativeChunkToLlmChunk(toolCallChunk, context)) {
     chunks.push(chunk)
   }
@@ -386,7 +416,7 @@ test('Ollama streaming validation abort - yields tool_abort chunk', async () =>
   }
 
   // Simulate tool_calls - abort throws, so we need to catch it
-  const toolCallChunk = { message: { role: 'assistant', content: '', tool_calls: [{ function: { name: 'plugin2', arguments: {} } }], done: false } }
+  const toolCallChunk = { message: { role: 'assistant', content: '', tool_calls: [{ function: { name: 'plugin2', arguments: { param1: 'a', param3: [] } } }], done: false } }
   try {
     for await (const chunk of ollama.nativeChunkToLlmChunk(toolCallChunk, context)) {
       chunks.push(chunk)
@@ -426,7 +456,7 @@ test('Ollama chat validation deny - throws error', async () => {
       role: 'assistant',
       content: null,
       tool_calls: [{
-        function: { name: 'plugin2', arguments: {} }
+        function: { name: 'plugin2', arguments: { param1: 'a', param3: [] } }
       }]
     }
   })
@@ -457,7 +487,7 @@ test('Ollama chat validation abort - throws LlmChunkToolAbort', async () => {
       role: 'assistant',
       content: null,
       tool_calls: [{
-        function: { name: 'plugin2', arguments: {} }
+        function: { name: 'plugin2', arguments: { param1: 'a', param3: [] } }
       }]
     }
   })
@@ -481,3 +511,12 @@ test('Ollama chat validation abort - throws LlmChunkToolAbort', async () => {
     })
   }
 })
+
+test('Ollama stop, seed and penalties', async () => {
+  const ollama = new Ollama(config)
+  expect(ollama.buildChatOptions({ model: 'model', messages: [], opts: { stop: 'END', seed: 42, presencePenalty: 0.5, frequencyPenalty: 0 } })).toStrictEqual({
+    model: 'model',
+    messages: [],
+    options: { stop: ['END'], seed: 42, presence_penalty: 0.5, frequency_penalty: 0 },
+  })
+})
@@ -9,6 +9,7 @@ import * as _openai from 'openai'
 import { ChatCompletionChunk } from 'openai/resources'
 import { loadModels, loadOpenAIModels } from '../../src/llm'
 import { EngineCreateOpts } from '../../src/types/index'
+import logger from '../../src/logger'
 import { z } from 'zod'
 
 Plugin2.prototype.execute = vi.fn((): Promise<string> => Promise.resolve('result2'))
@@ -63,9 +64,9 @@ vi.mock('openai', async () => {
               
               // first we yield tool call chunks
               if (!opts.model.startsWith('o1-')) {
-                yield { choices: [{ delta: { tool_calls: [ { id: 1, function: { name: 'plugin2', arguments: '[ "a' }} ] }, finish_reason: 'none' } ] }
+                yield { choices: [{ delta: { tool_calls: [ { id: 1, function: { name: 'plugin2', arguments: '{ "param1": "a' }} ] }, finish_reason: 'none' } ] }
                 yield { choices: [{ delta: { tool_calls: [ { id: '', function: { arguments: [ 'r' ] } }] }, finish_reason: 'none' } ] }
-                yield { choices: [{ delta: { tool_calls: [ { id: null, function: { arguments: [ 'g" ]' ] } }] }, finish_reason: 'none' } ] }
+                yield { choices: [{ delta: { tool_calls: [ { id: null, function: { arguments: [ 'g", "param3": [] }' ] } }] }, finish_reason: 'none' } ] }
                 yield { choices: [{ finish_reason: 'tool_calls' } ] }
               }
               
@@ -268,7 +269,7 @@ test('OpenAI nativeChunkToLlmChunk Text', async () => {
   streamChunk.choices[0].delta.content = null
   streamChunk.choices[0].finish_reason = 'stop'
   for await (const llmChunk of openai.nativeChunkToLlmChunk(streamChunk, context)) {
-    expect(llmChunk).toStrictEqual({ type: 'content', text: '', done: true })
+    expect(llmChunk).toStrictEqual({ type: 'content', text: '', done: true, finishReason: 'stop', rawFinishReason: 'stop' })
   }
 })
 
@@ -313,7 +314,7 @@ test('OpenAI stream', async () => {
     messages: [
       { role: 'system', content: 'instruction' },
       { role: 'user', content: [{ type: 'text', text: 'prompt' }] },
-      { role: 'assistant', content: '', tool_calls: [ { id: 1, function: { name: 'plugin2', arguments: '[ "arg" ]' } } ] },
+      { role: 'assistant', content: '', tool_calls: [ { id: 1, function: { name: 'plugin2', arguments: '{ "param1": "arg", "param3": [] }' } } ] },
       { role: 'tool', content: '"result2"', name: 'plugin2', tool_call_id: 1 }
     ],
     tool_choice: 'auto',
@@ -327,10 +328,10 @@ test('OpenAI stream', async () => {
   })
   expect(lastMsg?.done).toBe(true)
   expect(response).toBe('response')
-  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'model' }, ['arg'])
+  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'model' }, { param1: 'arg', param3: [] })
   expect(toolCalls[0]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'preparing', status: 'prep2', done: false })
-  expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'running', status: 'run2', call: { params: ['arg'], result: undefined }, done: false })
-  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'completed', call: { params: ['arg'], result: 'result2' }, status: undefined, done: true })
+  expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'running', status: 'run2', call: { params: { param1: 'arg', param3: [] }, result: undefined }, done: false })
+  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'completed', call: { params: { param1: 'arg', param3: [] }, result: 'result2' }, status: undefined, done: true })
   await openai.stop(stream)
   expect(stream.controller!.abort).toHaveBeenCalled()
 })
@@ -505,7 +506,7 @@ test('OpenAI streaming validation deny - yields canceled chunk', async () => {
     model: openai.buildModel('model'),
     thread: [],
     opts: { toolExecutionValidation: validator },
-    toolCalls: [{ id: 1, function: 'plugin2', args: '{}', message: [] }],
+    toolCalls: [{ id: 1, function: 'plugin2', args: '{"param1":"a","param3":[]}', message: [] }],
     responsesApi: false,
     usage: { prompt_tokens: 0, completion_tokens: 0 },
     thinking: false,
@@ -545,7 +546,7 @@ test('OpenAI streaming validation abort - yields tool_abort chunk', async () =>
     model: openai.buildModel('model'),
     thread: [],
     opts: { toolExecutionValidation: validator },
-    toolCalls: [{ id: 1, function: 'plugin2', args: '{}', message: [] }],
+    toolCalls: [{ id: 1, function: 'plugin2', args: '{"param1":"a","param3":[]}', message: [] }],
     responsesApi: false,
     usage: { prompt_tokens: 0, completion_tokens: 0 },
     thinking: false,
@@ -595,7 +596,7 @@ test('OpenAI chat validation deny - throws error', async () => {
         tool_calls: [{
           id: 'tool_1',
           type: 'function',
-          function: { name: 'plugin2', arguments: '{}' }
+          function: { name: 'plugin2', arguments: '{"param1":"a","param3":[]}' }
         }]
       },
       finish_reason: 'tool_calls'
@@ -631,7 +632,7 @@ test('OpenAI chat validation abort - throws LlmChunkToolAbort', async () => {
         tool_calls: [{
           id: 'tool_1',
           type: 'function',
-          function: { name: 'plugin2', arguments: '{}' }
+          function: { name: 'plugin2', arguments: '{"param1":"a","param3":[]}' }
         }]
       },
       finish_reason: 'tool_calls'
@@ -657,3 +658,15 @@ test('OpenAI chat validation abort - throws LlmChunkToolAbort', async () => {
     })
   }
 })
+
+test('OpenAI stop, seed and penalties', async () => {
+  const openai = new OpenAI(config)
+  const opts = { stop: ['END'], seed: 42, presencePenalty: 0.5, frequencyPenalty: 0 }
+  expect(openai.getCompletionOpts(openai.buildModel('gpt-4o'), opts)).toStrictEqual({
+    stop: ['END'], seed: 42, presence_penalty: 0.5, frequency_penalty: 0,
+  })
+  const warn = vi.spyOn(logger, 'log').mockImplementation(() => {})
+  expect(openai.getCompletionOpts(openai.buildModel('o3'), opts)).toStrictEqual({ seed: 42 })
+  expect(warn).toHaveBeenCalledWith('[openai] stop, presencePenalty, frequencyPenalty not supported by o3: ignored')
+  warn.mockRestore()
+})
@@ -1,6 +1,6 @@
 import { LlmChunk, LlmChunkContent } from '../../src/types/llm'
 import { vi, beforeEach, expect, test } from 'vitest'
-import { Plugin2 } from '../mocks/plugins'
+import { Plugin2, PluginZod } from '../mocks/plugins'
 import Message from '../../src/models/message'
 import OpenAI from '../../src/providers/openai'
 import * as _openai from 'openai'
@@ -85,7 +85,7 @@ vi.mock('openai', async () => {
               }
 
               // response.function_call_arguments.delta
-              const args = '["arg"]'
+              const args = '{"param1":"arg","param3":[]}'
               for (let i = 0; i < args.length; i++) {
                 yield {
                   type: 'response.function_call_arguments.delta',
@@ -154,7 +154,7 @@ vi.mock('openai', async () => {
                 id: 'func_call_123',
                 name: 'plugin2',
                 call_id: 'call_123',
-                arguments: '["arg"]'
+                arguments: '{"param1":"arg","param3":[]}'
               }
             ],
             usage: {
@@ -225,7 +225,9 @@ test('OpenAI Responses API completion without tools', async () => {
     type: 'text',
     content: 'response text',
     toolCalls: [],
-    openAIResponseId: 'resp_123'
+    openAIResponseId: 'resp_123',
+    finishReason: 'stop',
+    rawFinishReason: 'completed',
   })
 })
 
@@ -274,7 +276,7 @@ test('OpenAI Responses API completion with tools', async () => {
     stream: false
   })
 
-  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'gpt-4' }, ['arg'])
+  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'gpt-4' }, { param1: 'arg', param3: [] })
 
   expect(response).toStrictEqual({
     type: 'text',
@@ -282,7 +284,7 @@ test('OpenAI Responses API completion with tools', async () => {
     toolCalls: [
       {
         name: 'plugin2',
-        params: ['arg'],
+        params: { param1: 'arg', param3: [] },
         result: 'result2'
       }
     ],
@@ -298,7 +300,9 @@ test('OpenAI Responses API completion with tools', async () => {
         reasoning_tokens: 0,
         audio_tokens: 0
       }
-    }
+    },
+    finishReason: 'stop',
+    rawFinishReason: 'completed',
   })
 })
 
@@ -419,7 +423,7 @@ test('OpenAI Responses API stream with tools', async () => {
     stream: true
   })
 
-  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'gpt-4' }, ['arg'])
+  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'gpt-4' }, { param1: 'arg', param3: [] })
   expect(response).toBe('response1response2')
   expect(lastMsg?.done).toBe(true)
 
@@ -439,7 +443,7 @@ test('OpenAI Responses API stream with tools', async () => {
     name: 'plugin2',
     state: 'running',
     status: 'run2',
-    call: { params: ['arg'], result: undefined },
+    call: { params: { param1: 'arg', param3: [] }, result: undefined },
     done: false
   })
   expect(toolCalls[2]).toStrictEqual({
@@ -448,7 +452,7 @@ test('OpenAI Responses API stream with tools', async () => {
     name: 'plugin2',
     state: 'completed',
     status: undefined,
-    call: { params: ['arg'], result: 'result2' },
+    call: { params: { param1: 'arg', param3: [] }, result: 'result2' },
     done: true
   })
 
@@ -527,4 +531,23 @@ test('OpenAI Responses API multiple system messages', async () => {
     }] } ],
     stream: false
   })
-})
\ No newline at end of file
+})
+test('OpenAI responses tools with a zod schema are strict', async () => {
+  const openai = new OpenAI(config)
+  openai.addPlugin(new PluginZod())
+  const model = openai.buildModel('model')
+  model.capabilities.tools = true
+  const tools = await openai.getResponsesTools(model)
+  expect(tools[0]).toMatchObject({
+    type: 'function',
+    name: 'pluginZod',
+    strict: true,
+    parameters: {
+      required: ['query', 'filters', 'limit'],
+      additionalProperties: false,
+      properties: {
+        filters: { type: 'object', required: ['tags', 'since'], additionalProperties: false },
+      },
+    },
+  })
+})
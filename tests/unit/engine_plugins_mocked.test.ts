@@ -54,7 +54,7 @@ test('Engine plugin execution without updates', async () => {
   }
 
   expect(await callTool({ model: 'model' }, 'plugin1', {})).toStrictEqual('result1')
-  expect(await callTool({ model: 'model' }, 'plugin2', { param1: 'a', param2: 1 })).toStrictEqual({ param1: 'a', param2: 1 })
+  expect(await callTool({ model: 'model' }, 'plugin2', { param1: 'a', param2: 1, param3: ['b'] })).toStrictEqual({ param1: 'a', param2: 1, param3: ['b'] })
   expect(await callTool({ model: 'model' }, 'plugin3', {})).toStrictEqual({ error: 'Tool plugin3 does not exist. Check the tool list and try again.' })
   expect(await callTool({ model: 'model' }, 'multi1', { param: 'value1' })).toStrictEqual(['multi1', { param: 'value1' }])
   expect(await callTool({ model: 'model' }, 'multi2', { param: 'value2' })).toStrictEqual(['multi2', { param: 'value2' }])
@@ -299,7 +299,7 @@ test('Plugin receives abortSignal in context', async () => {
   const abortController = new AbortController()
 
   // @ts-expect-error protected
-  for await (const update of llm.callTool({ model: 'model', abortSignal: abortController.signal }, 'plugin2', {})) {
+  for await (const update of llm.callTool({ model: 'model', abortSignal: abortController.signal }, 'plugin2', { param1: 'a', param3: [] })) {
     if (update.type === 'result') {
       // Plugin2 should have received the context with abortSignal
       expect(executeSpy).toHaveBeenCalledWith(
@@ -307,7 +307,7 @@ test('Plugin receives abortSignal in context', async () => {
           model: 'model',
           abortSignal: abortController.signal
         }),
-        {}
+        { param1: 'a', param3: [] }
       )
     }
   }
@@ -320,7 +320,7 @@ test('Tool state transitions', async () => {
   const chunks: any[] = []
 
   // @ts-expect-error protected
-  for await (const update of llm.callTool({ model: 'model' }, 'plugin2', {})) {
+  for await (const update of llm.callTool({ model: 'model' }, 'plugin2', { param1: 'a', param3: [] })) {
     chunks.push(update)
   }
 
@@ -328,7 +328,7 @@ test('Tool state transitions', async () => {
   expect(chunks).toHaveLength(1)
   expect(chunks[0]).toStrictEqual({
     type: 'result',
-    result: {}
+    result: { param1: 'a', param3: [] }
   })
 })
 
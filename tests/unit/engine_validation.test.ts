@@ -29,7 +29,7 @@ vi.mock('openai', async () => {
             async * [Symbol.asyncIterator]() {
               // First call: yield tool call chunks
               if (mockCallCount === 1) {
-                yield { choices: [{ delta: { tool_calls: [ { id: 'tool_1', function: { name: 'plugin2', arguments: '{}' }} ] }, finish_reason: 'none' } ] }
+                yield { choices: [{ delta: { tool_calls: [ { id: 'tool_1', function: { name: 'plugin2', arguments: '{"param1":"a","param3":[]}' }} ] }, finish_reason: 'none' } ] }
                 yield { choices: [{ finish_reason: 'tool_calls' } ] }
               } else {
                 // Subsequent calls: yield text response
@@ -52,7 +52,7 @@ vi.mock('openai', async () => {
                   tool_calls: [{
                     id: 'tool_1',
                     type: 'function',
-                    function: { name: 'plugin2', arguments: '{}' }
+                    function: { name: 'plugin2', arguments: '{"param1":"a","param3":[]}' }
                   }]
                 },
                 finish_reason: 'tool_calls'
@@ -39,8 +39,8 @@ vi.mock('openai', async () => {
               
               // first we yield a tool call as a single chunk
               yield { choices: [{ delta: { tool_calls: [
-                { id: 0, function: { name: 'plugin2', arguments: '[ "arg1" ]' } },
-                { id: 1, function: { name: 'plugin2', arguments: '[ "arg2" ]' } },
+                { id: 0, function: { name: 'plugin2', arguments: '{ "param1": "arg1", "param3": [] }' } },
+                { id: 1, function: { name: 'plugin2', arguments: '{ "param1": "arg2", "param3": [] }' } },
               ] } } ] }
               
               // now the text response
@@ -127,14 +127,14 @@ test('xAI stream', async () => {
     }
   }
   expect(response).toBe('response')
-  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'model' }, ['arg1'])
-  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'model' }, ['arg2'])
+  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'model' }, { param1: 'arg1', param3: [] })
+  expect(Plugin2.prototype.execute).toHaveBeenCalledWith({ model: 'model' }, { param1: 'arg2', param3: [] })
   expect(toolCalls[0]).toStrictEqual({ type: 'tool', id: 0, name: 'plugin2', state: 'preparing', status: 'prep2', done: false })
   expect(toolCalls[1]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'preparing', status: 'prep2', done: false })
-  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: 0, name: 'plugin2', state: 'running', status: 'run2', call: { params: ['arg1'], result: undefined }, done: false })
-  expect(toolCalls[3]).toStrictEqual({ type: 'tool', id: 0, name: 'plugin2', state: 'completed', call: { params: ['arg1'], result: 'result2' }, status: undefined, done: true })
-  expect(toolCalls[4]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'running', status: 'run2', call: { params: ['arg2'], result: undefined }, done: false })
-  expect(toolCalls[5]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'completed', call: { params: ['arg2'], result: 'result2' }, status: undefined, done: true })
+  expect(toolCalls[2]).toStrictEqual({ type: 'tool', id: 0, name: 'plugin2', state: 'running', status: 'run2', call: { params: { param1: 'arg1', param3: [] }, result: undefined }, done: false })
+  expect(toolCalls[3]).toStrictEqual({ type: 'tool', id: 0, name: 'plugin2', state: 'completed', call: { params: { param1: 'arg1', param3: [] }, result: 'result2' }, status: undefined, done: true })
+  expect(toolCalls[4]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'running', status: 'run2', call: { params: { param1: 'arg2', param3: [] }, result: undefined }, done: false })
+  expect(toolCalls[5]).toStrictEqual({ type: 'tool', id: 1, name: 'plugin2', state: 'completed', call: { params: { param1: 'arg2', param3: [] }, result: 'result2' }, status: undefined, done: true })
   await xai.stop(stream)
   expect(stream.controller!.abort).toHaveBeenCalled()
 })
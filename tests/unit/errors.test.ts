@@ -0,0 +1,53 @@
+import { expect, test } from 'vitest'
+import { LlmAuthError, LlmContentFilterError, LlmContextLengthError, LlmError, LlmModelNotFoundError, LlmRateLimitError, toLlmError } from '../../src/errors'
+
+const sdkError = (message: string, props: any) => {
+  class APIError extends Error {}
+  return Object.assign(new APIError(message), props)
+}
+
+test('Maps authentication errors', () => {
+  const error = toLlmError(sdkError('Incorrect API key provided', { status: 401, code: 'invalid_api_key' }), 'openai', 'gpt-4o')
+  expect(error).toBeInstanceOf(LlmAuthError)
+  expect(error).toBeInstanceOf(LlmError)
+  expect(error).toMatchObject({ name: 'LlmAuthError', provider: 'openai', model: 'gpt-4o', status: 401 })
+  expect(error.cause.code).toBe('invalid_api_key')
+  expect(toLlmError(sdkError('API key not valid. Please pass a valid API key.', { status: 400 }), 'google')).toBeInstanceOf(LlmAuthError)
+})
+
+test('Maps rate limit errors', () => {
+  const error = toLlmError(sdkError('Rate limit', { statusCode: 429, rawResponse: { headers: new Headers({ 'retry-after': '3' }) } }), 'mistralai')
+  expect(error).toBeInstanceOf(LlmRateLimitError)
+  expect(error).toMatchObject({ provider: 'mistralai', status: 429, retryAfter: 3000 })
+})
+
+test('Maps context length errors', () => {
+  expect(toLlmError(sdkError('too long', { status: 400, code: 'context_length_exceeded' }), 'openai')).toBeInstanceOf(LlmContextLengthError)
+  expect(toLlmError(sdkError('prompt is too long: 210000 tokens > 200000 maximum', { status: 400, error: { type: 'error', error: { type: 'invalid_request_error' } } }), 'anthropic')).toBeInstanceOf(LlmContextLengthError)
+  expect(toLlmError(sdkError('The input token count exceeds the maximum number of tokens allowed', { status: 400 }), 'google')).toBeInstanceOf(LlmContextLengthError)
+})
+
+test('Maps content filter errors', () => {
+  expect(toLlmError(sdkError('filtered', { status: 400, code: 'content_filter' }), 'azure')).toBeInstanceOf(LlmContentFilterError)
+})
+
+test('Maps model not found errors', () => {
+  expect(toLlmError(sdkError('model \'llama9\' not found', { status_code: 404 }), 'ollama')).toBeInstanceOf(LlmModelNotFoundError)
+  expect(toLlmError(sdkError('model: claude-9', { status: 404, error: { type: 'error', error: { type: 'not_found_error' } } }), 'anthropic')).toBeInstanceOf(LlmModelNotFoundError)
+})
+
+test('Maps other errors', () => {
+  const error = toLlmError(sdkError('Internal error', { status: 500 }), 'groq')
+  expect(error.constructor).toBe(LlmError)
+  expect(error.status).toBe(500)
+  expect(toLlmError(new TypeError('fetch failed'), 'ollama')).toBeInstanceOf(LlmError)
+})
+
+test('Keeps errors that should not be mapped', () => {
+  const plain = new Error('plain')
+  expect(toLlmError(plain, 'openai')).toBe(plain)
+  const abort = Object.assign(new Error('aborted'), { name: 'AbortError' })
+  expect(toLlmError(abort, 'openai')).toBe(abort)
+  const mapped = new LlmError('mapped', { provider: 'openai' })
+  expect(toLlmError(mapped, 'anthropic')).toBe(mapped)
+})
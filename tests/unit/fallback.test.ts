@@ -0,0 +1,160 @@
+import { expect, test, vi } from 'vitest'
+import LlmEngine from '../../src/engine'
+import { LlmAuthError, LlmContextLengthError, LlmError, LlmRateLimitError, LlmToolArgumentsError } from '../../src/errors'
+import LlmFallbackModel from '../../src/fallback'
+import Message from '../../src/models/message'
+import { LlmChunk } from '../../src/types/llm'
+
+const createMockEngine = (id: string) => {
+  return {
+    plugins: [],
+    getId: () => id,
+    clearPlugins: vi.fn(),
+    addPlugin: vi.fn(),
+    complete: vi.fn(),
+    generate: vi.fn(),
+  } as unknown as LlmEngine
+}
+
+const thread = [ new Message('user', 'prompt') ]
+
+const collect = async (stream: AsyncIterable<LlmChunk>): Promise<LlmChunk[]> => {
+  const chunks: LlmChunk[] = []
+  for await (const chunk of stream) {
+    chunks.push(chunk)
+  }
+  return chunks
+}
+
+test('Requires at least one target', () => {
+  expect(() => new LlmFallbackModel([])).toThrow()
+})
+
+test('Plugins are added to all engines', () => {
+  const engine1 = createMockEngine('openai')
+  const engine2 = createMockEngine('anthropic')
+  const model = new LlmFallbackModel([
+    { engine: engine1, model: 'gpt-4o' },
+    { engine: engine2, model: 'claude' },
+    { engine: engine1, model: 'gpt-4o-mini' },
+  ])
+  model.addPlugin({} as any)
+  expect(engine1.addPlugin).toHaveBeenCalledTimes(1)
+  expect(engine2.addPlugin).toHaveBeenCalledTimes(1)
+  model.clearPlugins()
+  expect(engine1.clearPlugins).toHaveBeenCalledTimes(1)
+  expect(engine2.clearPlugins).toHaveBeenCalledTimes(1)
+})
+
+test('Complete uses the first target', async () => {
+  const engine1 = createMockEngine('openai')
+  const engine2 = createMockEngine('anthropic')
+  vi.mocked(engine1.complete).mockResolvedValue({ type: 'text', content: 'response1' })
+  const model = new LlmFallbackModel([
+    { engine: engine1, model: 'gpt-4o' },
+    { engine: engine2, model: 'claude' },
+  ])
+  const response = await model.complete(thread, { usage: true })
+  expect(response.content).toBe('response1')
+  expect(response.provider).toStrictEqual({ provider: 'openai', model: 'gpt-4o', fallbacks: 0 })
+  expect(engine1.complete).toHaveBeenCalledWith('gpt-4o', thread, { usage: true })
+  expect(engine2.complete).not.toHaveBeenCalled()
+})
+
+test('Complete falls back on provider errors', async () => {
+  for (const error of [
+    new LlmAuthError('auth', { provider: 'openai', status: 401 }),
+    new LlmRateLimitError('rate', { provider: 'openai', status: 429 }),
+    new LlmContextLengthError('context', { provider: 'openai', status: 400 }),
+    new LlmError('server', { provider: 'openai', status: 503 }),
+  ]) {
+    const engine1 = createMockEngine('openai')
+    const engine2 = createMockEngine('anthropic')
+    vi.mocked(engine1.complete).mockRejectedValue(error)
+    vi.mocked(engine2.complete).mockResolvedValue({ type: 'text', content: 'response2' })
+    const model = new LlmFallbackModel([
+      { engine: engine1, model: 'gpt-4o' },
+      { engine: engine2, model: 'claude' },
+    ])
+    const response = await model.complete(thread)
+    expect(response.content).toBe('response2')
+    expect(response.provider).toStrictEqual({ provider: 'anthropic', model: 'claude', fallbacks: 1 })
+  }
+})
+
+test('Complete does not fall back on other errors', async () => {
+  const engine1 = createMockEngine('openai')
+  const engine2 = createMockEngine('anthropic')
+  vi.mocked(engine1.complete).mockRejectedValue(new LlmToolArgumentsError('args', { provider: 'openai', tool: 'tool', args: '{' }))
+  const model = new LlmFallbackModel([
+    { engine: engine1, model: 'gpt-4o' },
+    { engine: engine2, model: 'claude' },
+  ])
+  await expect(model.complete(thread)).rejects.toBeInstanceOf(LlmToolArgumentsError)
+  expect(engine2.complete).not.toHaveBeenCalled()
+})
+
+test('Complete throws the last error when all targets fail', async () => {
+  const engine1 = createMockEngine('openai')
+  const engine2 = createMockEngine('anthropic')
+  vi.mocked(engine1.complete).mockRejectedValue(new LlmRateLimitError('rate1', { provider: 'openai', status: 429 }))
+  vi.mocked(engine2.complete).mockRejectedValue(new LlmRateLimitError('rate2', { provider: 'anthropic', status: 429 }))
+  const model = new LlmFallbackModel([
+    { engine: engine1, model: 'gpt-4o' },
+    { engine: engine2, model: 'claude' },
+  ])
+  await expect(model.complete(thread)).rejects.toThrow('rate2')
+})
+
+test('Generate reports the provider serving the request', async () => {
+  const engine1 = createMockEngine('openai')
+  vi.mocked(engine1.generate).mockImplementation(async function* () {
+    yield { type: 'content', text: 'text', done: true }
+  })
+  const model = new LlmFallbackModel([
+    { engine: engine1, model: { id: 'gpt-4o', name: 'GPT-4o', capabilities: { tools: true, vision: false, reasoning: false, caching: false } } },
+    { engine: createMockEngine('anthropic'), model: 'claude' },
+  ])
+  const chunks = await collect(model.generate(thread))
+  expect(chunks).toStrictEqual([
+    { type: 'provider', provider: 'openai', model: 'gpt-4o', fallbacks: 0 },
+    { type: 'content', text: 'text', done: true },
+  ])
+})
+
+test('Generate falls back before the first chunk', async () => {
+  const engine1 = createMockEngine('openai')
+  const engine2 = createMockEngine('anthropic')
+  vi.mocked(engine1.generate).mockImplementation(async function* () {
+    yield { type: 'retry', reason: 'rate_limit', attempt: 1, maxRetries: 1, delay: 1, error: 'rate' }
+    throw new LlmRateLimitError('rate', { provider: 'openai', status: 429 })
+  })
+  vi.mocked(engine2.generate).mockImplementation(async function* () {
+    yield { type: 'content', text: 'text', done: true }
+  })
+  const model = new LlmFallbackModel([
+    { engine: engine1, model: 'gpt-4o' },
+    { engine: engine2, model: 'claude' },
+  ])
+  const chunks = await collect(model.generate(thread))
+  expect(chunks).toStrictEqual([
+    { type: 'retry', reason: 'rate_limit', attempt: 1, maxRetries: 1, delay: 1, error: 'rate' },
+    { type: 'provider', provider: 'anthropic', model: 'claude', fallbacks: 1 },
+    { type: 'content', text: 'text', done: true },
+  ])
+})
+
+test('Generate does not fall back after the first chunk', async () => {
+  const engine1 = createMockEngine('openai')
+  const engine2 = createMockEngine('anthropic')
+  vi.mocked(engine1.generate).mockImplementation(async function* () {
+    yield { type: 'content', text: 'text', done: false }
+    throw new LlmError('server', { provider: 'openai', status: 500 })
+  })
+  const model = new LlmFallbackModel([
+    { engine: engine1, model: 'gpt-4o' },
+    { engine: engine2, model: 'claude' },
+  ])
+  await expect(collect(model.generate(thread))).rejects.toThrow('server')
+  expect(engine2.generate).not.toHaveBeenCalled()
+})
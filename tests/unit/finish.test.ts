@@ -0,0 +1,58 @@
+
+import { expect, test } from 'vitest'
+import { getFinishReason, normalizeFinishReason } from '../../src/finish'
+import MockEngine from '../../src/providers/mock'
+import Message from '../../src/models/message'
+import { LlmChunk } from '../../src/types/llm'
+
+const thread = [
+  new Message('system', 'instructions'),
+  new Message('user', 'prompt'),
+]
+
+test('Normalize finish reasons', () => {
+  expect(normalizeFinishReason('stop')).toBe('stop')
+  expect(normalizeFinishReason('end_turn')).toBe('stop')
+  expect(normalizeFinishReason('STOP')).toBe('stop')
+  expect(normalizeFinishReason('length')).toBe('length')
+  expect(normalizeFinishReason('max_tokens')).toBe('length')
+  expect(normalizeFinishReason('MAX_TOKENS')).toBe('length')
+  expect(normalizeFinishReason('max_output_tokens')).toBe('length')
+  expect(normalizeFinishReason('tool_calls')).toBe('tool_calls')
+  expect(normalizeFinishReason('tool_use')).toBe('tool_calls')
+  expect(normalizeFinishReason('content_filter')).toBe('content_filter')
+  expect(normalizeFinishReason('SAFETY')).toBe('content_filter')
+  expect(normalizeFinishReason('refusal')).toBe('refusal')
+  expect(normalizeFinishReason('aborted')).toBe('aborted')
+  expect(normalizeFinishReason('error')).toBe('error')
+  expect(normalizeFinishReason('MALFORMED_FUNCTION_CALL')).toBe('error')
+  expect(normalizeFinishReason('whatever')).toBe('stop')
+})
+
+test('Finish reason fields', () => {
+  expect(getFinishReason(undefined)).toStrictEqual({})
+  expect(getFinishReason(null)).toStrictEqual({})
+  expect(getFinishReason('SAFETY')).toStrictEqual({ finishReason: 'content_filter', rawFinishReason: 'SAFETY' })
+})
+
+test('Finish reason of completions', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'content', text: 'trunc' }, { type: 'finish', reason: 'length' }],
+  ] })
+  const response = await engine.complete('mock', thread)
+  expect(response).toStrictEqual({ type: 'text', content: 'trunc', toolCalls: [], finishReason: 'length', rawFinishReason: 'length' })
+})
+
+test('Finish reason of streams', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'content', text: 'blocked' }, { type: 'finish', reason: 'content_filter' }],
+  ] })
+  const chunks: LlmChunk[] = []
+  for await (const chunk of engine.generate('mock', thread)) {
+    chunks.push(chunk)
+  }
+  expect(chunks).toStrictEqual([
+    { type: 'content', text: 'blocked', done: false },
+    { type: 'content', text: '', done: true, finishReason: 'content_filter', rawFinishReason: 'content_filter' },
+  ])
+})
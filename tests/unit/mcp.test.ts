@@ -0,0 +1,201 @@
+
+import { afterAll, beforeAll, expect, test, vi } from 'vitest'
+import { createServer, Server } from 'node:http'
+import { AddressInfo } from 'node:net'
+import { join } from 'node:path'
+import { McpPlugin } from '../../src/mcp'
+import MockEngine from '../../src/providers/mock'
+import Message from '../../src/models/message'
+import { PluginExecutionUpdate } from '../../src/types/plugin'
+
+// eslint-disable-next-line @typescript-eslint/no-require-imports
+const { handleMessage } = require('../mocks/mcp_server.js')
+
+const context = { model: 'mock' }
+
+let stdio: McpPlugin
+let http: McpPlugin
+let server: Server
+const sessions: string[] = []
+
+beforeAll(async () => {
+
+  stdio = new McpPlugin('stdio', {
+    type: 'stdio',
+    command: process.execPath,
+    args: [join(__dirname, '../mocks/mcp_server.js')],
+  })
+
+  // streamable http: json for plain requests, event stream when progress is requested
+  server = createServer((req, res) => {
+    let body = ''
+    req.on('data', (data) => body += data)
+    req.on('end', () => {
+      if (req.method === 'DELETE') {
+        res.writeHead(200).end()
+        return
+      }
+      if (req.url === '/unauthorized') {
+        res.writeHead(401).end()
+        return
+      }
+      const message = JSON.parse(body)
+      sessions.push(req.headers['mcp-session-id'] as string)
+      if (message.id === undefined) {
+        res.writeHead(202).end()
+      } else if (message.params?._meta?.progressToken !== undefined) {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+        if (message.params.name === 'hang') {
+          res.end()
+          return
+        }
+        handleMessage(message, (reply: any) => {
+          res.write(`event: message\ndata: ${JSON.stringify(reply)}\n\n`)
+          if (reply.id !== undefined) res.end()
+        })
+      } else {
+        handleMessage(message, (reply: any) => {
+          res.writeHead(200, { 'Content-Type': 'application/json', 'Mcp-Session-Id': 'session-1' }).end(JSON.stringify(reply))
+        })
+      }
+    })
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+
+  http = new McpPlugin('http', {
+    type: 'http',
+    url: `http://127.0.0.1:${port()}/mcp`,
+  })
+
+})
+
+afterAll(async () => {
+  await stdio.close()
+  await http.close()
+  server.close()
+})
+
+const port = () => (server.address() as AddressInfo).port
+
+const collect = async (updates: AsyncGenerator<PluginExecutionUpdate>): Promise<PluginExecutionUpdate[]> => {
+  const list: PluginExecutionUpdate[] = []
+  for await (const update of updates) {
+    list.push(update)
+  }
+  return list
+}
+
+test('Lists tools', async () => {
+  for (const plugin of [stdio, http]) {
+    expect(plugin.handlesTool('echo')).toBe(false)
+    const tools = await plugin.getTools()
+    expect(tools.map((tool) => tool.function.name)).toStrictEqual(['echo', 'count', 'weather', 'fail', 'hang', 'add_tool'])
+    expect(tools[0]).toStrictEqual({
+      type: 'function',
+      function: {
+        name: 'echo',
+        description: 'Echo the text',
+        parameters: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+      },
+    })
+    expect(plugin.handlesTool('echo')).toBe(true)
+    expect(plugin.handlesTool('unknown')).toBe(false)
+    expect(plugin.getDescription()).toBe('Test tools')
+    expect(plugin.client.serverInfo).toStrictEqual({ name: 'test-server', version: '1.0.0' })
+  }
+})
+
+test('Enabled tools', async () => {
+  const plugin = new McpPlugin('stdio', {
+    type: 'stdio',
+    command: process.execPath,
+    args: [join(__dirname, '../mocks/mcp_server.js')],
+  })
+  plugin.enableTool('count')
+  expect((await plugin.getTools()).map((tool) => tool.function.name)).toStrictEqual(['count'])
+  expect(plugin.handlesTool('count')).toBe(true)
+  expect(plugin.handlesTool('echo')).toBe(false)
+  await plugin.close()
+})
+
+test('Executes tools', async () => {
+  for (const plugin of [stdio, http]) {
+    expect(await plugin.execute(context, { tool: 'echo', parameters: { text: 'hello' } })).toBe('hello')
+    expect(await plugin.execute(context, { tool: 'weather', parameters: { city: 'Paris' } })).toStrictEqual({ city: 'Paris', temperature: 20 })
+    await expect(plugin.execute(context, { tool: 'fail', parameters: {} })).rejects.toThrow('something went wrong')
+    await expect(plugin.execute(context, { tool: 'unknown', parameters: {} })).rejects.toThrow('MCP error -32602: Unknown tool: unknown')
+  }
+})
+
+test('Maps progress to status updates', async () => {
+  for (const plugin of [stdio, http]) {
+    const updates = await collect(plugin.executeWithUpdates(context, { tool: 'count', parameters: { to: 3 } }))
+    expect(updates).toStrictEqual([
+      { type: 'status', status: 'count: 1/3' },
+      { type: 'status', status: 'count: 2/3' },
+      { type: 'status', status: 'count: 3/3' },
+      { type: 'result', result: 'counted to 3' },
+    ])
+  }
+})
+
+test('Cancels tool calls', async () => {
+  const abortController = new AbortController()
+  const promise = stdio.execute({ ...context, abortSignal: abortController.signal }, { tool: 'hang', parameters: {} })
+  setTimeout(() => abortController.abort(), 50)
+  await expect(promise).rejects.toThrow('Operation cancelled')
+  expect(await stdio.execute(context, { tool: 'echo', parameters: { text: 'still alive' } })).toBe('still alive')
+})
+
+test('Fails requests left without a response', async () => {
+  await expect(collect(http.executeWithUpdates(context, { tool: 'hang', parameters: {} }))).rejects.toThrow('MCP event stream ended without a response')
+  expect(await http.execute(context, { tool: 'echo', parameters: { text: 'still alive' } })).toBe('still alive')
+})
+
+test('Reloads tools when they change', async () => {
+  const plugin = new McpPlugin('stdio', {
+    type: 'stdio',
+    command: process.execPath,
+    args: [join(__dirname, '../mocks/mcp_server.js')],
+  })
+  await plugin.getTools()
+  expect(plugin.handlesTool('extra')).toBe(false)
+  await plugin.execute(context, { tool: 'add_tool', parameters: { name: 'extra' } })
+  await vi.waitFor(() => expect(plugin.handlesTool('extra')).toBe(true))
+  expect(plugin.handlesTool('echo')).toBe(true)
+  expect((await plugin.getTools()).map((tool) => tool.function.name)).toContain('extra')
+  await plugin.close()
+})
+
+test('Keeps the http session', async () => {
+  expect(sessions[0]).toBeUndefined()
+  expect(sessions.slice(1).every((session) => session === 'session-1')).toBe(true)
+})
+
+test('Runs in the engine', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', name: 'count', args: { to: 2 } }],
+    'done',
+  ] })
+  engine.addPlugin(stdio)
+  const chunks = []
+  for await (const chunk of engine.generate('mock', [new Message('user', 'prompt')])) {
+    chunks.push(chunk)
+  }
+  expect(engine.requests[0].tools).toStrictEqual(['echo', 'count', 'weather', 'fail', 'hang', 'add_tool'])
+  expect(chunks).toContainEqual(expect.objectContaining({ type: 'tool', name: 'count', status: 'count: 2/2' }))
+  expect(chunks).toContainEqual(expect.objectContaining({ type: 'tool', name: 'count', state: 'completed', call: expect.objectContaining({ result: 'counted to 2' }) }))
+})
+
+test('Reports connection failures', async () => {
+  const plugin = new McpPlugin('broken', { type: 'stdio', command: join(__dirname, 'does-not-exist') })
+  await expect(plugin.getTools()).rejects.toThrow()
+  expect(plugin.client.connected).toBe(false)
+})
+
+test('Reports handshake failures', async () => {
+  const plugin = new McpPlugin('unauthorized', { type: 'http', url: `http://127.0.0.1:${port()}/unauthorized` })
+  await expect(plugin.getTools()).rejects.toThrow('MCP server returned 401 Unauthorized')
+  expect(plugin.client.connected).toBe(false)
+  await expect(plugin.getTools()).rejects.toThrow('MCP server returned 401 Unauthorized')
+})
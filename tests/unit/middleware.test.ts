@@ -0,0 +1,115 @@
+import { expect, test, vi } from 'vitest'
+import { Plugin1 } from '../mocks/plugins'
+import MockEngine from '../../src/providers/mock'
+import OpenAI from '../../src/providers/openai'
+import Anthropic from '../../src/providers/anthropic'
+import Message from '../../src/models/message'
+import { LlmChunk, LlmMiddleware } from '../../src/types/llm'
+
+const thread = [
+  new Message('system', 'instructions'),
+  new Message('user', 'my email is john@example.com'),
+]
+
+const collect = async (stream: AsyncIterable<LlmChunk>): Promise<LlmChunk[]> => {
+  const chunks: LlmChunk[] = []
+  for await (const chunk of stream) {
+    chunks.push(chunk)
+  }
+  return chunks
+}
+
+const redact: LlmMiddleware = {
+  onRequest: (request) => {
+    request.thread = request.thread.map((message) => ({
+      ...message,
+      content: typeof message.content === 'string' ? message.content : message.content.map((c: any) => ({ ...c, text: c.text.replace(/\S+@\S+/g, '[email]') })),
+    }))
+  }
+}
+
+test('Middlewares rewrite requests', async () => {
+  const engine = new MockEngine({ responses: ['response'] })
+  const onRequest = vi.fn(() => undefined)
+  engine.addMiddleware({ onRequest })
+  engine.addMiddleware(redact)
+  engine.addMiddleware({ onRequest: (request) => ({ ...request, thread: [{ role: 'system', content: 'context' }, ...request.thread] }) })
+  await engine.complete('mock', thread)
+  expect(onRequest).toHaveBeenCalledWith(expect.objectContaining({ model: expect.objectContaining({ id: 'mock' }), opts: {} }), { provider: 'mock', model: expect.objectContaining({ id: 'mock' }), opts: {} })
+  expect(engine.requests[0].thread).toStrictEqual([
+    { role: 'system', content: 'context' },
+    { role: 'system', content: 'instructions' },
+    { role: 'user', content: [{ type: 'text', text: 'my email is [email]' }] },
+  ])
+})
+
+test('Middlewares do not alter the conversation', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', name: 'plugin1' }],
+    'response',
+  ] })
+  engine.addPlugin(new Plugin1())
+  engine.addMiddleware({ onRequest: (request) => { request.thread.unshift({ role: 'system', content: 'context' }) } })
+  await collect(engine.generate('mock', thread))
+  expect(engine.requests[0].thread).toHaveLength(3)
+  expect(engine.requests[1].thread).toHaveLength(5)
+  expect(engine.requests[1].thread.filter((m: any) => m.content === 'context')).toHaveLength(1)
+})
+
+test('Middlewares can change the model and options', async () => {
+  const engine = new MockEngine({ responses: ['response'] })
+  engine.addMiddleware({ onRequest: (request) => ({ ...request, model: { ...request.model, id: 'other' }, opts: { ...request.opts, temperature: 0 } }) })
+  await engine.complete('mock', thread, { temperature: 1 })
+  expect(engine.requests[0].model).toBe('other')
+})
+
+test('Middlewares transform chunks', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'reasoning', text: 'thinking' }, { type: 'content', text: 'hello' }, { type: 'content', text: 'world' }],
+  ] })
+  const observed: string[] = []
+  engine.addMiddleware({ onChunk: (chunk) => { observed.push(chunk.type) } })
+  engine.addMiddleware({ onChunk: (chunk) => chunk.type === 'reasoning' ? null : undefined })
+  engine.addMiddleware({ onChunk: async (chunk) => chunk.type === 'content' && chunk.text === 'hello' ? [chunk, { type: 'content', text: ' ', done: false }] : undefined })
+  engine.addMiddleware({ onChunk: (chunk) => chunk.type === 'content' ? { ...chunk, text: chunk.text.toUpperCase() } : chunk })
+  const chunks = await collect(engine.generate('mock', thread))
+  expect(observed).toStrictEqual(['reasoning', 'content', 'content', 'content'])
+  expect(chunks).toStrictEqual([
+    { type: 'content', text: 'HELLO', done: false },
+    { type: 'content', text: ' ', done: false },
+    { type: 'content', text: 'WORLD', done: false },
+    { type: 'content', text: '', done: true },
+  ])
+})
+
+test('Middlewares transform responses', async () => {
+  const engine = new MockEngine({ responses: ['response'] })
+  engine.addMiddleware({ onResponse: (response, context) => ({ ...response, content: `${context.provider}: ${response.content}` }) })
+  const response = await engine.complete('mock', thread)
+  expect(response.content).toBe('mock: response')
+  engine.clearMiddlewares()
+  expect(engine.middlewares).toHaveLength(0)
+})
+
+test('Middlewares apply to OpenAI streams', async () => {
+  const openai = new OpenAI({ apiKey: '123' })
+  const create = vi.fn().mockResolvedValue((async function* () {})())
+  openai.client.chat = { completions: { create } } as any
+  openai.addMiddleware(redact)
+  await collect(openai.generate('model', thread))
+  expect(create.mock.calls[0][0].messages[1]).toStrictEqual({ role: 'user', content: [{ type: 'text', text: 'my email is [email]' }] })
+})
+
+test('Middlewares see the Anthropic system prompt', async () => {
+  const anthropic = new Anthropic({ apiKey: '123' })
+  const create = vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'response' }], stop_reason: 'end_turn', usage: { input_tokens: 1, output_tokens: 1 } })
+  anthropic.client.messages = { create } as any
+  anthropic.addMiddleware({ onRequest: (request) => {
+    expect(request.thread[0]).toStrictEqual({ role: 'system', content: 'instructions' })
+    request.thread[0].content += ' and context'
+  } })
+  const response = await anthropic.complete('claude', thread)
+  expect(response.content).toBe('response')
+  expect(create.mock.calls[0][0].system).toBe('instructions and context')
+  expect(create.mock.calls[0][0].messages).toHaveLength(1)
+})
@@ -0,0 +1,64 @@
+import { expect, test } from 'vitest'
+import { PartialJsonParser, parsePartialJson, repairJson } from '../../src/partial'
+
+test('Parse partial objects', () => {
+  expect(parsePartialJson('')).toBeUndefined()
+  expect(parsePartialJson('Here you go')).toBeUndefined()
+  expect(parsePartialJson('{')).toStrictEqual({})
+  expect(parsePartialJson('{"na')).toStrictEqual({})
+  expect(parsePartialJson('{"name"')).toStrictEqual({})
+  expect(parsePartialJson('{"name":')).toStrictEqual({})
+  expect(parsePartialJson('{"name": "Jo')).toStrictEqual({ name: 'Jo' })
+  expect(parsePartialJson('{"name": "John", "age": 4')).toStrictEqual({ name: 'John', age: 4 })
+  expect(parsePartialJson('{"name": "John", "age": 42,')).toStrictEqual({ name: 'John', age: 42 })
+  expect(parsePartialJson('{"name": "John", "ok": tr')).toStrictEqual({ name: 'John' })
+  expect(parsePartialJson('{"name": "John", "ok": true')).toStrictEqual({ name: 'John', ok: true })
+  expect(parsePartialJson('{"age": -')).toStrictEqual({})
+})
+
+test('Parse partial arrays and nesting', () => {
+  expect(parsePartialJson('[')).toStrictEqual([])
+  expect(parsePartialJson('[1, 2')).toStrictEqual([1, 2])
+  expect(parsePartialJson('{"items": [{"name": "a"}, {"na')).toStrictEqual({ items: [{ name: 'a' }, {}] })
+  expect(parsePartialJson('{"items": [{"name": "a"}, {"name": "b')).toStrictEqual({ items: [{ name: 'a' }, { name: 'b' }] })
+  expect(parsePartialJson('{"items": [[1], [2, [')).toStrictEqual({ items: [[1], [2, []]] })
+})
+
+test('Parse partial strings', () => {
+  expect(parsePartialJson('{"text": "a \\"quote\\" and {braces}')).toStrictEqual({ text: 'a "quote" and {braces}' })
+  expect(parsePartialJson('{"text": "line\\')).toStrictEqual({ text: 'line' })
+  expect(parsePartialJson('{"text": "caf\\u00')).toStrictEqual({ text: 'caf' })
+  expect(parsePartialJson('{"text": "caf\\u00e9')).toStrictEqual({ text: 'café' })
+})
+
+test('Ignore text around the root', () => {
+  expect(parsePartialJson('```json\n{"name": "John"}\n```')).toStrictEqual({ name: 'John' })
+  expect(parsePartialJson('Sure: {"name": "John"} hope it helps {"other": 1}')).toStrictEqual({ name: 'John' })
+})
+
+test('Push text incrementally', () => {
+  const parser = new PartialJsonParser()
+  const json = '{"items": [{"name": "apple", "count": 12}, {"name": "pear", "count": 3}]}'
+  const values: string[] = []
+  for (const c of json) {
+    parser.push(c)
+    const value = JSON.stringify(parser.value)
+    if (value !== values[values.length - 1]) values.push(value)
+  }
+  expect(parser.done).toBe(true)
+  expect(parser.value).toStrictEqual(JSON.parse(json))
+  expect(parser.text).toBe(json)
+  expect(values).toContain('{"items":[{"name":"app"}]}')
+  expect(values).toContain('{"items":[{"name":"apple","count":1}]}')
+  expect(values).toContain('{"items":[{"name":"apple","count":12},{}]}')
+})
+
+test('Repair broken json', () => {
+  expect(repairJson('{"a": 1}')).toStrictEqual({ a: 1 })
+  expect(repairJson('```json\n{"a": 1}\n```')).toStrictEqual({ a: 1 })
+  expect(repairJson('{"a": [1, 2,], "b": 2,}')).toStrictEqual({ a: [1, 2], b: 2 })
+  expect(repairJson('{"a": {"b": [1, 2]')).toStrictEqual({ a: { b: [1, 2] } })
+  expect(repairJson('{"a": "trunc')).toBeUndefined()
+  expect(repairJson('{"a": 1')).toBeUndefined()
+  expect(repairJson('not json')).toBeUndefined()
+})
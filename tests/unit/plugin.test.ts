@@ -1,5 +1,10 @@
-import { expect, test } from 'vitest'
+import { expect, test, vi } from 'vitest'
 import { MultiToolPlugin, Plugin } from '../../src/plugin'
+import { MultiPlugin, Plugin1, Plugin2, PluginDelay, PluginZod } from '../mocks/plugins'
+import MockEngine from '../../src/providers/mock'
+import Message from '../../src/models/message'
+import { LlmChunk } from '../../src/types/llm'
+import { LlmToolArgumentsError } from '../../src/errors'
 
 class TestPlugin extends Plugin {
   getName(): string {
@@ -135,3 +140,259 @@ test('MultiToolPlugin.enableTool() creates empty array on first call', () => {
   expect(Array.isArray(plugin.toolsEnabled)).toBe(true)
   expect(plugin.toolsEnabled).toHaveLength(1)
 })
+
+test('ZodPlugin converts its schema to JSON schema', () => {
+  const plugin = new PluginZod()
+  expect(plugin.getParameters()).toStrictEqual([])
+  expect(plugin.getParametersSchema()).toStrictEqual({
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'What to search' },
+      filters: {
+        type: 'object',
+        properties: {
+          tags: { type: 'array', items: { type: 'string' }, default: [] },
+          since: { type: ['string', 'number'] },
+        },
+        additionalProperties: false,
+      },
+      limit: { type: 'integer', minimum: 1, maximum: 10, default: 5 },
+    },
+    required: ['query', 'filters'],
+    additionalProperties: false,
+  })
+})
+
+test('ZodPlugin is executed with parsed args', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', name: 'pluginZod', args: { query: 'test', filters: { tags: ['a', 'b'] } } }],
+    'done',
+  ] })
+  engine.addPlugin(new PluginZod())
+  const response = await engine.complete('mock', [new Message('user', 'prompt')])
+  expect(response.toolCalls).toStrictEqual([{ name: 'pluginZod', params: { query: 'test', filters: { tags: ['a', 'b'] } }, result: 'test 2 5' }])
+})
+
+test('ZodPlugin invalid args are sent back to the model', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', name: 'pluginZod', args: { query: 'test', filters: {}, limit: 20 } }],
+    'done',
+  ] })
+  const plugin = new PluginZod()
+  const execute = vi.spyOn(plugin, 'execute')
+  engine.addPlugin(plugin)
+  const response = await engine.complete('mock', [new Message('user', 'prompt')])
+  expect(execute).not.toHaveBeenCalled()
+  expect(response.toolCalls![0].result).toStrictEqual({
+    error: 'Invalid arguments for tool pluginZod. Fix them and try again.',
+    issues: ['limit: Number must be less than or equal to 10'],
+  })
+})
+
+test('Invalid args are sent back to the model', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', name: 'plugin2', args: { param1: 1 } }],
+    'done',
+  ] })
+  const plugin = new Plugin2()
+  const execute = vi.spyOn(plugin, 'execute')
+  engine.addPlugin(plugin)
+  const response = await engine.complete('mock', [new Message('user', 'prompt')])
+  expect(execute).not.toHaveBeenCalled()
+  expect(response.toolCalls![0].result).toStrictEqual({
+    error: 'Invalid arguments for tool plugin2. Fix them and try again.',
+    issues: ['param3: Required', 'param1: Expected string, received integer'],
+  })
+})
+
+test('Invalid args are reported as tool errors', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', name: 'plugin2', args: { param1: 1 } }],
+    'done',
+    [{ type: 'tool_call', name: 'plugin2', args: { param1: 2 } }],
+  ] })
+  engine.addPlugin(new Plugin2())
+  const chunks: LlmChunk[] = []
+  for await (const chunk of engine.generate('mock', [new Message('user', 'prompt')])) {
+    chunks.push(chunk)
+  }
+  expect(chunks).toContainEqual(expect.objectContaining({ type: 'tool', name: 'plugin2', state: 'error', status: 'Invalid arguments for tool plugin2. Fix them and try again.' }))
+  const policy = vi.fn().mockResolvedValue('abort')
+  const aborted: LlmChunk[] = []
+  for await (const chunk of engine.generate('mock', [new Message('user', 'prompt')], { toolErrorPolicy: policy })) {
+    aborted.push(chunk)
+  }
+  expect(policy.mock.calls[0][3]).toBeInstanceOf(LlmToolArgumentsError)
+  expect(policy.mock.calls[0][3]).toMatchObject({ tool: 'plugin2', args: '{"param1":2}' })
+  expect(aborted.at(-1)).toStrictEqual({
+    type: 'tool_abort', name: 'plugin2', params: { param1: 2 },
+    reason: { decision: 'abort', reason: 'Invalid arguments for tool plugin2: param3: Required, param1: Expected string, received integer' },
+  })
+})
+
+test('Broken json args are repaired', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', name: 'plugin2', args: '```json\n{ "param1": "a", "param3": ["b",], }\n```' }],
+    [{ type: 'tool_call', name: 'plugin2', args: '{ "param1": "b", "param3": ["c"' }],
+    [{ type: 'tool_call', name: 'plugin2', args: '{ "param1": "trunc' }],
+    'done',
+  ] })
+  const plugin = new Plugin2()
+  const execute = vi.spyOn(plugin, 'execute').mockResolvedValue('ok')
+  engine.addPlugin(plugin)
+  const response = await engine.complete('mock', [new Message('user', 'prompt')])
+  expect(execute).toHaveBeenCalledTimes(2)
+  expect(execute).toHaveBeenNthCalledWith(1, { model: 'mock' }, { param1: 'a', param3: ['b'] })
+  expect(execute).toHaveBeenNthCalledWith(2, { model: 'mock' }, { param1: 'b', param3: ['c'] })
+  expect(response.toolCalls![2].result).toStrictEqual({
+    error: 'Invalid arguments for tool plugin2. Fix them and try again.',
+    issues: ['(root): Invalid JSON: { "param1": "trunc'],
+  })
+})
+
+test('Plugin errors are sent to the model', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', name: 'plugin1', id: 'call_1' }],
+    'sorry',
+  ] })
+  const plugin = new Plugin1()
+  vi.spyOn(plugin, 'execute').mockRejectedValue(new Error('HTTP 503'))
+  engine.addPlugin(plugin)
+  const chunks: LlmChunk[] = []
+  for await (const chunk of engine.generate('mock', [new Message('user', 'prompt')])) {
+    chunks.push(chunk)
+  }
+  expect(chunks.filter((chunk) => chunk.type === 'tool' && chunk.done)).toStrictEqual([{
+    type: 'tool', id: 'call_1', name: 'plugin1', state: 'error', status: 'Tool plugin1 failed: HTTP 503', done: true,
+    call: { params: {}, result: { error: 'Tool plugin1 failed: HTTP 503' } },
+  }])
+  expect(engine.requests[1].thread.slice(-1)).toStrictEqual([
+    { role: 'tool', tool_call_id: 'call_1', name: 'plugin1', content: '{"error":"Tool plugin1 failed: HTTP 503"}' },
+  ])
+  expect(chunks.filter((chunk) => chunk.type === 'content').map((chunk) => chunk.text).join('')).toBe('sorry')
+})
+
+test('Plugin errors retry policy', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', name: 'plugin1' }],
+    'done',
+  ] })
+  const plugin = new Plugin1()
+  const execute = vi.spyOn(plugin, 'execute').mockRejectedValueOnce(new Error('timeout')).mockResolvedValue('ok')
+  engine.addPlugin(plugin)
+  const policy = vi.fn().mockReturnValue('retry')
+  const response = await engine.complete('mock', [new Message('user', 'prompt')], { toolErrorPolicy: policy })
+  expect(execute).toHaveBeenCalledTimes(2)
+  expect(policy).toHaveBeenCalledWith({ model: 'mock' }, 'plugin1', {}, new Error('timeout'), 1)
+  expect(response.toolCalls![0].result).toBe('ok')
+})
+
+test('Plugin errors retries are capped', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', name: 'plugin1' }],
+    'done',
+  ] })
+  const plugin = new Plugin1()
+  const execute = vi.spyOn(plugin, 'execute').mockRejectedValue(new Error('down'))
+  engine.addPlugin(plugin)
+  const response = await engine.complete('mock', [new Message('user', 'prompt')], { toolErrorPolicy: 'retry' })
+  expect(execute).toHaveBeenCalledTimes(3)
+  expect(response.toolCalls![0].result).toStrictEqual({ error: 'Tool plugin1 failed: down' })
+  expect(response.content).toBe('done')
+})
+
+test('Plugin errors abort policy', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', name: 'plugin1' }],
+    'done',
+  ] })
+  const plugin = new Plugin1()
+  vi.spyOn(plugin, 'execute').mockRejectedValue(new Error('fatal'))
+  engine.addPlugin(plugin)
+  const chunks: LlmChunk[] = []
+  for await (const chunk of engine.generate('mock', [new Message('user', 'prompt')], { toolErrorPolicy: 'abort' })) {
+    chunks.push(chunk)
+  }
+  expect(chunks.slice(-1)).toStrictEqual([{
+    type: 'tool_abort', name: 'plugin1', params: {}, reason: { decision: 'abort', reason: 'fatal' },
+  }])
+  expect(engine.requests).toHaveLength(1)
+})
+
+test('Plugin timeout', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', name: 'slow' }],
+    'done',
+  ] })
+  const plugin = new PluginDelay('slow', 200)
+  vi.spyOn(plugin, 'getTimeout').mockReturnValue(20)
+  const execute = vi.spyOn(plugin, 'execute')
+  engine.addPlugin(plugin)
+  const response = await engine.complete('mock', [new Message('user', 'prompt')])
+  expect(execute.mock.calls[0][0].abortSignal!.aborted).toBe(true)
+  expect(response.toolCalls![0].result).toStrictEqual({ error: 'Tool slow failed: Timed out after 20 ms' })
+  expect(response.content).toBe('done')
+})
+
+test('Plugin timeout overridden in options', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', name: 'slow' }],
+    'done',
+  ] })
+  const plugin = new PluginDelay('slow', 50)
+  vi.spyOn(plugin, 'getTimeout').mockReturnValue(10)
+  engine.addPlugin(plugin)
+  const response = await engine.complete('mock', [new Message('user', 'prompt')], { toolTimeout: 1000 })
+  expect(response.toolCalls![0].result).toBe('result slow')
+})
+
+test('Plugin result size limit', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', name: 'plugin1' }],
+    [{ type: 'tool_call', name: 'plugin1', args: { page: 2 } }],
+    'done',
+  ] })
+  const plugin = new Plugin1()
+  vi.spyOn(plugin, 'getMaxResultSize').mockReturnValue(10)
+  vi.spyOn(plugin, 'execute').mockResolvedValueOnce({ items: ['a', 'b', 'c', 'd'] }).mockResolvedValueOnce('short')
+  engine.addPlugin(plugin)
+  const response = await engine.complete('mock', [new Message('user', 'prompt')])
+  expect(response.toolCalls![0].result).toStrictEqual({
+    content: '{"items":[',
+    truncated: 'Result truncated to 10 of 27 characters',
+  })
+  expect(response.toolCalls![1].result).toBe('short')
+})
+
+test('Request plugins replace engine plugins', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', name: 'multi2' }],
+    'done',
+    [{ type: 'tool_call', name: 'multi2' }],
+    'done',
+  ] })
+  engine.addPlugin(new Plugin1())
+  const response = await engine.complete('mock', [new Message('user', 'prompt')], { plugins: [new MultiPlugin()] })
+  expect(engine.requests[0].tools).toStrictEqual(['multi1', 'multi2'])
+  expect(response.toolCalls![0].result).toStrictEqual(['multi2', {}])
+  await engine.complete('mock', [new Message('user', 'prompt')])
+  expect(engine.requests[2].tools).toStrictEqual(['plugin1'])
+  expect(engine.requests[3].thread.slice(-1)[0].content).toBe('{"error":"Tool multi2 does not exist. Check the tool list and try again."}')
+})
+
+test('Allowed and denied tools', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'tool_call', name: 'multi1' }],
+    'done',
+    [{ type: 'tool_call', name: 'multi1' }],
+    'done',
+  ] })
+  engine.addPlugin(new Plugin1())
+  engine.addPlugin(new MultiPlugin())
+  const allowed = await engine.complete('mock', [new Message('user', 'prompt')], { allowedTools: ['plugin1', 'multi1'] })
+  expect(engine.requests[0].tools).toStrictEqual(['plugin1', 'multi1'])
+  expect(allowed.toolCalls![0].result).toStrictEqual(['multi1', {}])
+  const denied = await engine.complete('mock', [new Message('user', 'prompt')], { deniedTools: ['multi1'] })
+  expect(engine.requests[2].tools).toStrictEqual(['plugin1', 'multi2'])
+  expect(denied.toolCalls![0].result).toStrictEqual({ error: 'Tool multi1 does not exist. Check the tool list and try again.' })
+})
@@ -0,0 +1,163 @@
+import { afterEach, expect, test, vi } from 'vitest'
+import { addCosts, clearModelPricing, computeCost, getModelPricing, setModelPricing } from '../../src/pricing'
+import { addUsages } from '../../src/usage'
+import MockEngine from '../../src/providers/mock'
+import Anthropic from '../../src/providers/anthropic'
+import Google from '../../src/providers/google'
+import OpenRouter from '../../src/providers/openrouter'
+import OpenAI from '../../src/providers/openai'
+import Message from '../../src/models/message'
+import { LlmChunk, LlmUsage } from '../../src/types/llm'
+
+const thread = [
+  new Message('system', 'instructions'),
+  new Message('user', 'prompt'),
+]
+
+afterEach(() => {
+  clearModelPricing()
+})
+
+test('Builtin pricing', () => {
+  expect(getModelPricing('openai', 'gpt-4o-mini-2024-07-18')).toStrictEqual({ input: 0.15, output: 0.6, cachedInput: 0.075 })
+  expect(getModelPricing('openai', 'gpt-4o-2024-08-06')).toStrictEqual({ input: 2.5, output: 10, cachedInput: 1.25 })
+  expect(getModelPricing('anthropic', 'claude-sonnet-4-20250514')).toMatchObject({ input: 3, output: 15 })
+  expect(getModelPricing('openai', 'unknown')).toBeUndefined()
+  expect(getModelPricing('unknown', 'gpt-4o')).toBeUndefined()
+})
+
+test('Pricing overrides', () => {
+  setModelPricing('openai', 'gpt-4o*', { input: 1, output: 2 })
+  expect(getModelPricing('openai', 'gpt-4o')).toStrictEqual({ input: 1, output: 2 })
+  expect(getModelPricing('openai', 'gpt-4.1')).toMatchObject({ input: 2, output: 8 })
+  setModelPricing('custom', 'model', { input: 3, output: 4 })
+  expect(getModelPricing('custom', 'model')).toStrictEqual({ input: 3, output: 4 })
+  setModelPricing('openai', 'gpt-4o*', null)
+  expect(getModelPricing('openai', 'gpt-4o')).toMatchObject({ input: 2.5, output: 10 })
+})
+
+test('Compute cost', () => {
+  const usage: LlmUsage = {
+    prompt_tokens: 1_000_000,
+    completion_tokens: 500_000,
+    prompt_tokens_details: { cached_tokens: 200_000, audio_tokens: 100_000 },
+    completion_tokens_details: { reasoning_tokens: 100_000, audio_tokens: 50_000 },
+  }
+  expect(computeCost(usage, { input: 2, output: 8, cachedInput: 0.5, reasoning: 10, audioInput: 40, audioOutput: 80 })).toStrictEqual({
+    input: 1.4,
+    cachedInput: 0.1,
+    output: 2.8,
+    reasoning: 1,
+    audio: 8,
+    total: 13.3,
+  })
+})
+
+test('Compute cost fallback rates', () => {
+  const usage: LlmUsage = {
+    prompt_tokens: 1_000_000,
+    completion_tokens: 1_000_000,
+    prompt_tokens_details: { cached_tokens: 500_000 },
+    completion_tokens_details: { reasoning_tokens: 250_000 },
+  }
+  expect(computeCost(usage, { input: 1, output: 4 })).toStrictEqual({
+    input: 0.5, cachedInput: 0.5, output: 3, reasoning: 1, audio: 0, total: 5,
+  })
+})
+
+test('Compute cost usage conventions', () => {
+  const usage: LlmUsage = {
+    prompt_tokens: 1_000_000,
+    completion_tokens: 1_000_000,
+    prompt_tokens_details: { cached_tokens: 1_000_000 },
+    completion_tokens_details: { reasoning_tokens: 1_000_000 },
+  }
+  const pricing = { input: 1, output: 2 }
+  expect(computeCost(usage, pricing).total).toBe(3)
+  expect(computeCost(usage, pricing, { cachedInPrompt: false }).total).toBe(4)
+  expect(computeCost(usage, pricing, { reasoningInCompletion: false }).total).toBe(5)
+})
+
+test('Provider usage conventions', () => {
+  const usage: LlmUsage = {
+    prompt_tokens: 1_000_000,
+    completion_tokens: 1_000_000,
+    prompt_tokens_details: { cached_tokens: 1_000_000 },
+    completion_tokens_details: { reasoning_tokens: 1_000_000 },
+  }
+  const anthropic = new Anthropic({ apiKey: 'key', pricing: { '*': { input: 1, output: 2 } } })
+  expect(anthropic['addUsageCost'](anthropic.buildModel('claude'), usage).cost!.total).toBe(4)
+  const google = new Google({ apiKey: 'key', pricing: { '*': { input: 1, output: 2 } } })
+  expect(google['addUsageCost'](google.buildModel('gemini'), usage).cost!.total).toBe(5)
+})
+
+test('Add costs', () => {
+  const cost = { input: 1, cachedInput: 2, output: 3, reasoning: 4, audio: 5, total: 15 }
+  expect(addCosts(cost, undefined)).toStrictEqual(cost)
+  expect(addCosts(cost, cost)).toStrictEqual({ input: 2, cachedInput: 4, output: 6, reasoning: 8, audio: 10, total: 30 })
+  expect(addUsages({ prompt_tokens: 1, completion_tokens: 1, cost }, { prompt_tokens: 1, completion_tokens: 1 }).cost).toStrictEqual(cost)
+  expect(addUsages({ prompt_tokens: 1, completion_tokens: 1 }, { prompt_tokens: 1, completion_tokens: 1 }).cost).toBeUndefined()
+})
+
+test('Engine pricing', () => {
+  setModelPricing('mock', 'mock', { input: 1, output: 2 })
+  expect(new MockEngine().getModelPricing('mock')).toStrictEqual({ input: 1, output: 2 })
+  expect(new MockEngine({ pricing: { 'mo*': { input: 3, output: 4 } } }).getModelPricing('mock')).toStrictEqual({ input: 3, output: 4 })
+  expect(new MockEngine().getModelPricing('other')).toBeUndefined()
+})
+
+test('OpenRouter pricing from metadata', () => {
+  const engine = new OpenRouter({ apiKey: 'key' })
+  const model = {
+    ...engine.buildModel('openai/gpt-4o'),
+    meta: { id: 'openai/gpt-4o', pricing: { prompt: '0.0000025', completion: '0.00001', request: '0', image: '0', web_search: '0', internal_reasoning: '0' } },
+  }
+  expect(engine.getModelPricing(model)).toStrictEqual({ input: 2.5, output: 10 })
+  model.meta.pricing.internal_reasoning = '0.00002'
+  expect(engine.getModelPricing(model)).toStrictEqual({ input: 2.5, output: 10, reasoning: 20 })
+  model.meta.pricing.input_cache_read = '0.00000125'
+  expect(engine.getModelPricing(model)).toStrictEqual({ input: 2.5, output: 10, cachedInput: 1.25, reasoning: 20 })
+  expect(engine.getModelPricing('openai/gpt-4o')).toBeUndefined()
+  setModelPricing('openrouter', 'openai/*', { input: 1, output: 1 })
+  expect(engine.getModelPricing(model)).toStrictEqual({ input: 1, output: 1 })
+})
+
+test('OpenRouter pricing from the model list', async () => {
+  const engine = new OpenRouter({ apiKey: 'key' })
+  vi.spyOn(OpenAI.prototype, 'getModels').mockResolvedValueOnce([
+    { id: 'anthropic/claude-sonnet-4', pricing: { prompt: '0.000003', completion: '0.000015', request: '0', image: '0', web_search: '0', internal_reasoning: '0', input_cache_read: '0.0000003' } },
+  ])
+  expect(engine.getModelPricing('anthropic/claude-sonnet-4')).toBeUndefined()
+  await new OpenRouter({ apiKey: 'key' }).getModels()
+  expect(engine.getModelPricing('anthropic/claude-sonnet-4')).toStrictEqual({ input: 3, output: 15, cachedInput: 0.3 })
+  expect(engine.getModelPricing(engine.buildModel('anthropic/claude-sonnet-4'))).toStrictEqual({ input: 3, output: 15, cachedInput: 0.3 })
+})
+
+test('Completion cost', async () => {
+  const engine = new MockEngine({ pricing: { mock: { input: 1, output: 2 } }, responses: [
+    [{ type: 'tool_call', name: 'plugin1' }, { type: 'usage', prompt_tokens: 1000, completion_tokens: 100 }],
+    [{ type: 'content', text: 'done' }, { type: 'usage', prompt_tokens: 2000, completion_tokens: 200 }],
+  ] })
+  const response = await engine.complete('mock', thread, { usage: true })
+  expect(response.usage!.cost).toStrictEqual({ input: 0.003, cachedInput: 0, output: 0.0006, reasoning: 0, audio: 0, total: 0.0036 })
+})
+
+test('Completion without pricing', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'content', text: 'done' }, { type: 'usage', prompt_tokens: 2000, completion_tokens: 200 }],
+  ] })
+  const response = await engine.complete('mock', thread, { usage: true })
+  expect(response.usage!.cost).toBeUndefined()
+})
+
+test('Streaming cost', async () => {
+  const engine = new MockEngine({ pricing: { mock: { input: 1, output: 2 } }, responses: [
+    [{ type: 'content', text: 'done' }, { type: 'usage', prompt_tokens: 1000, completion_tokens: 500 }],
+  ] })
+  const chunks: LlmChunk[] = []
+  for await (const chunk of engine.generate('mock', thread, { usage: true })) {
+    chunks.push(chunk)
+  }
+  const usage = chunks.find((chunk) => chunk.type === 'usage')
+  expect(usage).toMatchObject({ type: 'usage', usage: { prompt_tokens: 1000, completion_tokens: 500, cost: { input: 0.001, output: 0.001, total: 0.002 } } })
+})
@@ -0,0 +1,57 @@
+import { expect, test, vi } from 'vitest'
+import { getErrorStatus, getRetryAfter, getRetryDelay, getRetryReason, sleep } from '../../src/retry'
+
+test('Error status', () => {
+  expect(getErrorStatus({ status: 429 })).toBe(429)
+  expect(getErrorStatus({ statusCode: 500 })).toBe(500)
+  expect(getErrorStatus({ status_code: 404 })).toBe(404)
+  expect(getErrorStatus({ rawResponse: { status: 503 } })).toBe(503)
+  expect(getErrorStatus(new Error('error'))).toBeUndefined()
+})
+
+test('Retry after', () => {
+  expect(getRetryAfter({ headers: { 'retry-after': '4' } })).toBe(4000)
+  expect(getRetryAfter({ headers: new Headers({ 'retry-after-ms': '1500' }) })).toBe(1500)
+  expect(getRetryAfter({ rawResponse: { headers: new Headers({ 'retry-after': '2' }) } })).toBe(2000)
+  const date = new Date(Date.now() + 10000).toUTCString()
+  expect(getRetryAfter({ headers: { 'retry-after': date } })).toBeGreaterThan(8000)
+  expect(getRetryAfter({ headers: { 'retry-after': 'soon' } })).toBeUndefined()
+  expect(getRetryAfter({})).toBeUndefined()
+})
+
+test('Retry reason', () => {
+  expect(getRetryReason({ status: 429 })).toBe('rate_limit')
+  expect(getRetryReason({ status: 500 })).toBe('server_error')
+  expect(getRetryReason({ status: 529 })).toBe('server_error')
+  expect(getRetryReason({ error: { type: 'overloaded_error' } })).toBe('server_error')
+  expect(getRetryReason(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe('connection')
+  expect(getRetryReason(new TypeError('fetch failed'))).toBe('connection')
+  expect(getRetryReason(new Error('wrapped', { cause: { code: 'ETIMEDOUT' } }))).toBe('connection')
+  expect(getRetryReason({ name: 'APIConnectionError' })).toBe('connection')
+  expect(getRetryReason({ status: 400 })).toBeNull()
+  expect(getRetryReason({ status: 401 })).toBeNull()
+  expect(getRetryReason({ name: 'AbortError' })).toBeNull()
+  expect(getRetryReason(new Error('error'))).toBeNull()
+})
+
+test('Retry delay', () => {
+  expect(getRetryDelay(1, 1000, 30000, 4000)).toBe(4000)
+  expect(getRetryDelay(1, 1000, 30000, 3600000)).toBe(30000)
+  for (let i = 0; i < 10; i++) {
+    const delay = getRetryDelay(3, 1000, 30000)
+    expect(delay).toBeGreaterThanOrEqual(2000)
+    expect(delay).toBeLessThanOrEqual(4000)
+  }
+  expect(getRetryDelay(10, 1000, 30000)).toBeLessThanOrEqual(30000)
+})
+
+test('Sleep', async () => {
+  const abortController = new AbortController()
+  const remove = vi.spyOn(abortController.signal, 'removeEventListener')
+  await sleep(1, abortController.signal)
+  expect(remove).toHaveBeenCalledWith('abort', expect.any(Function))
+  abortController.abort()
+  const start = Date.now()
+  await sleep(10000, abortController.signal)
+  expect(Date.now() - start).toBeLessThan(1000)
+})
@@ -0,0 +1,53 @@
+import { expect, test } from 'vitest'
+import { validateJsonSchema } from '../../src/schema'
+
+const schema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 2 },
+    count: { type: 'integer', minimum: 0, maximum: 10 },
+    mode: { type: 'string', enum: ['fast', 'slow'] },
+    tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+    owner: {
+      type: 'object',
+      properties: { id: { anyOf: [{ type: 'string' }, { type: 'number' }] } },
+      required: ['id'],
+      additionalProperties: false,
+    },
+  },
+  required: ['name'],
+}
+
+test('Valid values have no issues', () => {
+  expect(validateJsonSchema({ name: 'ab' }, schema)).toStrictEqual([])
+  expect(validateJsonSchema({ name: 'ab', count: 3, mode: 'fast', tags: ['a'], owner: { id: 1 } }, schema)).toStrictEqual([])
+  expect(validateJsonSchema({ name: 'ab', extra: true }, schema)).toStrictEqual([])
+  expect(validateJsonSchema('anything', null)).toStrictEqual([])
+})
+
+test('Invalid values are reported with their path', () => {
+  expect(validateJsonSchema([], schema)).toStrictEqual(['(root): Expected object, received array'])
+  expect(validateJsonSchema({}, schema)).toStrictEqual(['name: Required'])
+  expect(validateJsonSchema({ name: 'a', count: 1.5 }, schema)).toStrictEqual([
+    'name: Must contain at least 2 character(s)',
+    'count: Expected integer, received number',
+  ])
+  expect(validateJsonSchema({ name: 'ab', count: 11, mode: 'medium' }, schema)).toStrictEqual([
+    'count: Must be less than or equal to 10',
+    'mode: Expected one of "fast", "slow", received "medium"',
+  ])
+  expect(validateJsonSchema({ name: 'ab', tags: ['a', 2, 'c'] }, schema)).toStrictEqual([
+    'tags: Must contain at most 2 item(s)',
+    'tags.1: Expected string, received integer',
+  ])
+  expect(validateJsonSchema({ name: 'ab', owner: { id: true, other: 1 } }, schema)).toStrictEqual([
+    'owner.id: Does not match any of the allowed schemas',
+    'owner.other: Unrecognized property',
+  ])
+})
+
+test('Nullable and type unions', () => {
+  expect(validateJsonSchema(null, { type: 'string', nullable: true })).toStrictEqual([])
+  expect(validateJsonSchema(null, { type: ['string', 'null'] })).toStrictEqual([])
+  expect(validateJsonSchema(1, { type: ['string', 'null'] })).toStrictEqual(['(root): Expected string or null, received integer'])
+})
@@ -0,0 +1,125 @@
+
+import { expect, expectTypeOf, test } from 'vitest'
+import { z } from 'zod'
+import { getStructuredOutputPrompt, getStructuredOutputRepairPrompt, parseStructuredOutput } from '../../src/structured'
+import { LlmStructuredOutputError } from '../../src/errors'
+import MockEngine from '../../src/providers/mock'
+import Message from '../../src/models/message'
+import { LlmChunk } from '../../src/types/llm'
+
+const thread = [
+  new Message('system', 'instructions'),
+  new Message('user', 'prompt'),
+]
+
+const structure = z.object({
+  name: z.string(),
+  age: z.number().int(),
+})
+
+test('Parse structured output', () => {
+  expect(parseStructuredOutput('{"name":"John","age":42}', structure)).toStrictEqual({ success: true, data: { name: 'John', age: 42 } })
+  expect(parseStructuredOutput('```json\n{"name":"John","age":42}\n```', structure)).toStrictEqual({ success: true, data: { name: 'John', age: 42 } })
+  expect(parseStructuredOutput('{"name":"John"', structure)).toStrictEqual({ success: false, issues: [expect.stringMatching(/^Invalid JSON: /)] })
+  expect(parseStructuredOutput(undefined, structure)).toMatchObject({ success: false })
+  expect(parseStructuredOutput('{"name":"John","age":"42"}', structure)).toStrictEqual({ success: false, issues: ['age: Expected number, received string'] })
+  expect(parseStructuredOutput('[]', structure)).toStrictEqual({ success: false, issues: ['(root): Expected object, received array'] })
+})
+
+test('Repair prompt', () => {
+  expect(getStructuredOutputRepairPrompt(['age: Required'])).toContain('- age: Required')
+})
+
+test('Parsed structured output', async () => {
+  const engine = new MockEngine({ responses: ['{"name":"John","age":42}'] })
+  const response = await engine.complete('mock', thread, { structuredOutput: { name: 'person', structure } })
+  expect(response.content).toBe('{"name":"John","age":42}')
+  expect(response.parsed).toStrictEqual({ name: 'John', age: 42 })
+  expectTypeOf(response.parsed).toEqualTypeOf<{ name: string, age: number }|undefined>()
+})
+
+test('Structured output repair', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'content', text: '{"name":"John"}' }, { type: 'usage', prompt_tokens: 10, completion_tokens: 5 }],
+    [{ type: 'content', text: '{"name":"John","age":42}' }, { type: 'usage', prompt_tokens: 30, completion_tokens: 6 }],
+  ] })
+  const response = await engine.complete('mock', thread, { usage: true, structuredOutput: { name: 'person', structure } })
+  expect(response.parsed).toStrictEqual({ name: 'John', age: 42 })
+  expect(response.usage).toMatchObject({ prompt_tokens: 40, completion_tokens: 11 })
+  expect(engine.requests[1].thread.slice(2)).toStrictEqual([
+    { role: 'assistant', content: '{"name":"John"}' },
+    { role: 'user', content: [{ type: 'text', text: expect.stringContaining('- age: Required') }] },
+  ])
+})
+
+test('Structured output still invalid', async () => {
+  const engine = new MockEngine({ responses: ['not json', '{"name":"John"}', '{}'] })
+  const promise = engine.complete('mock', thread, { structuredOutput: { name: 'person', structure, maxRepairs: 1 } })
+  await expect(promise).rejects.toBeInstanceOf(LlmStructuredOutputError)
+  await expect(promise).rejects.toMatchObject({ provider: 'mock', model: 'mock', content: '{"name":"John"}', issues: ['age: Required'] })
+  expect(engine.requests).toHaveLength(2)
+})
+
+test('Structured output without repair', async () => {
+  const engine = new MockEngine({ responses: ['not json'] })
+  await expect(engine.complete('mock', thread, { structuredOutput: { name: 'person', structure, maxRepairs: 0 } })).rejects.toThrow(LlmStructuredOutputError)
+  expect(engine.requests).toHaveLength(1)
+})
+
+test('Structured output schema in instructions', async () => {
+  class PromptEngine extends MockEngine {
+    getStructuredOutputMode() { return 'prompt' as const }
+  }
+  const engine = new PromptEngine({ responses: ['{"name":"John","age":42}', '{"name":"John","age":42}'] })
+  const response = await engine.complete('mock', thread, { structuredOutput: { name: 'person', structure } })
+  expect(response.parsed).toStrictEqual({ name: 'John', age: 42 })
+  expect(engine.requests[0].thread[0]).toStrictEqual({ role: 'system', content: `instructions\n\n${getStructuredOutputPrompt(structure)}` })
+  await engine.complete('mock', thread.slice(1), { structuredOutput: { name: 'person', structure } })
+  expect(engine.requests[1].thread[0]).toStrictEqual({ role: 'system', content: getStructuredOutputPrompt(structure) })
+  expect(getStructuredOutputPrompt(structure)).toContain('"required":["name","age"]')
+})
+
+test('Streamed structured output', async () => {
+  const engine = new MockEngine({ responses: [[
+    { type: 'content', text: '{"name":' },
+    { type: 'content', text: '"Jo' },
+    { type: 'content', text: 'hn","age":4' },
+    { type: 'content', text: '2}' },
+  ]] })
+  const chunks: LlmChunk[] = []
+  for await (const chunk of engine.generate('mock', thread, { structuredOutput: { name: 'person', structure } })) {
+    chunks.push(chunk)
+  }
+  expect(chunks.filter((chunk) => chunk.type === 'partial_object')).toStrictEqual([
+    { type: 'partial_object', object: {}, done: false },
+    { type: 'partial_object', object: { name: 'Jo' }, done: false },
+    { type: 'partial_object', object: { name: 'John', age: 4 }, done: false },
+    { type: 'partial_object', object: { name: 'John', age: 42 }, done: false },
+    { type: 'partial_object', object: { name: 'John', age: 42 }, done: true },
+  ])
+  expect(chunks[chunks.length - 1]).toStrictEqual({ type: 'partial_object', object: { name: 'John', age: 42 }, done: true })
+})
+
+test('Streamed structured output after tool calls', async () => {
+  const engine = new MockEngine({ responses: [
+    [{ type: 'content', text: 'Let me check' }, { type: 'tool_call', name: 'lookup', args: {} }],
+    '{"name":"John","age":42}',
+  ] })
+  const chunks: LlmChunk[] = []
+  for await (const chunk of engine.generate('mock', thread, { structuredOutput: { name: 'person', structure } })) {
+    chunks.push(chunk)
+  }
+  expect(chunks[chunks.length - 1]).toStrictEqual({ type: 'partial_object', object: { name: 'John', age: 42 }, done: true })
+})
+
+test('Streamed structured output invalid', async () => {
+  const engine = new MockEngine({ responses: ['{"name":"John"}'] })
+  const chunks: LlmChunk[] = []
+  const consume = async () => {
+    for await (const chunk of engine.generate('mock', thread, { structuredOutput: { name: 'person', structure } })) {
+      chunks.push(chunk)
+    }
+  }
+  await expect(consume()).rejects.toMatchObject({ name: 'LlmStructuredOutputError', issues: ['age: Required'] })
+  expect(chunks).toContainEqual({ type: 'partial_object', object: { name: 'John' }, done: false })
+})
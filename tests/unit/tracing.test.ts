@@ -0,0 +1,128 @@
+import { expect, test } from 'vitest'
+import { Plugin1 } from '../mocks/plugins'
+import MockEngine from '../../src/providers/mock'
+import Message from '../../src/models/message'
+import { LlmChunk, LlmMockResponse } from '../../src/index'
+import { LlmSpan, LlmSpanOptions, LlmTracer } from '../../src/types/llm'
+
+class TestSpan implements LlmSpan {
+  name: string
+  parent?: TestSpan
+  attributes: Record<string, any>
+  status?: { code: number, message?: string }
+  exception?: any
+  ended = false
+  constructor(name: string, options: LlmSpanOptions) {
+    this.name = name
+    this.parent = options.parent as TestSpan
+    this.attributes = { ...options.attributes }
+  }
+  setAttribute(key: string, value: any) { this.attributes[key] = value }
+  setStatus(status: { code: number, message?: string }) { this.status = status }
+  recordException(exception: any) { this.exception = exception }
+  end() { this.ended = true }
+}
+
+class TestTracer implements LlmTracer {
+  spans: TestSpan[] = []
+  startSpan(name: string, options: LlmSpanOptions): TestSpan {
+    const span = new TestSpan(name, options)
+    this.spans.push(span)
+    return span
+  }
+}
+
+const thread = [
+  new Message('system', 'instructions'),
+  new Message('user', 'prompt'),
+]
+
+const responses: LlmMockResponse[] = [
+  [{ type: 'tool_call', name: 'plugin1' }, { type: 'usage', prompt_tokens: 10, completion_tokens: 2 }],
+  [{ type: 'content', text: 'done' }, { type: 'usage', prompt_tokens: 20, completion_tokens: 3 }],
+]
+
+const createEngine = (tracer: LlmTracer, responses: LlmMockResponse[]) => {
+  const engine = new MockEngine({ tracer, responses, retryDelay: 1 })
+  engine.addPlugin(new Plugin1())
+  return engine
+}
+
+const collect = async (stream: AsyncIterable<LlmChunk>): Promise<LlmChunk[]> => {
+  const chunks: LlmChunk[] = []
+  for await (const chunk of stream) {
+    chunks.push(chunk)
+  }
+  return chunks
+}
+
+test('Traces generate', async () => {
+  const tracer = new TestTracer()
+  await collect(createEngine(tracer, responses).generate('mock', thread, { usage: true }))
+  expect(tracer.spans.map((s) => s.name)).toStrictEqual(['generate mock', 'chat mock', 'execute_tool plugin1', 'chat mock'])
+  const [root, request1, tool, request2] = tracer.spans
+  expect(root.parent).toBeUndefined()
+  expect(root.attributes).toMatchObject({
+    'gen_ai.system': 'mock',
+    'gen_ai.operation.name': 'chat',
+    'gen_ai.request.model': 'mock',
+    'gen_ai.usage.input_tokens': 30,
+    'gen_ai.usage.output_tokens': 5,
+    'llm.time_to_first_chunk_ms': expect.any(Number),
+  })
+  expect(request1.parent).toBe(root)
+  expect(request1.attributes['llm.time_to_first_chunk_ms']).toBeGreaterThanOrEqual(0)
+  expect(request2.parent).toBe(root)
+  expect(request2.attributes['llm.time_to_first_chunk_ms']).toBeGreaterThanOrEqual(0)
+  expect(tool.parent).toBe(root)
+  expect(tool.attributes).toMatchObject({ 'gen_ai.operation.name': 'execute_tool', 'gen_ai.tool.name': 'plugin1' })
+  for (const span of tracer.spans) {
+    expect(span.ended).toBe(true)
+    expect(span.status).toStrictEqual({ code: 1 })
+  }
+})
+
+test('Traces complete', async () => {
+  const tracer = new TestTracer()
+  await createEngine(tracer, responses).complete('mock', thread, { usage: true })
+  expect(tracer.spans.map((s) => s.name)).toStrictEqual(['complete mock', 'chat mock', 'execute_tool plugin1', 'chat mock'])
+  const [root, ...children] = tracer.spans
+  expect(root.attributes).toMatchObject({ 'gen_ai.usage.input_tokens': 30, 'gen_ai.usage.output_tokens': 5 })
+  expect(children.every((span) => span.parent === root)).toBe(true)
+  expect(tracer.spans.every((span) => span.ended && span.status?.code === 1)).toBe(true)
+})
+
+test('Traces errors', async () => {
+  const tracer = new TestTracer()
+  const error = Object.assign(new Error('bad request'), { status: 400 })
+  await expect(collect(createEngine(tracer, [[{ type: 'error', error }]]).generate('mock', thread))).rejects.toThrow('bad request')
+  expect(tracer.spans.map((s) => s.name)).toStrictEqual(['generate mock', 'chat mock'])
+  for (const span of tracer.spans) {
+    expect(span.ended).toBe(true)
+    expect(span.status).toStrictEqual({ code: 2, message: 'bad request' })
+    expect(span.attributes['error.type']).toBe('LlmError')
+  }
+})
+
+test('Traces retries', async () => {
+  const tracer = new TestTracer()
+  const error = Object.assign(new Error('rate limited'), { status: 429 })
+  await createEngine(tracer, [[{ type: 'error', error }], 'done']).complete('mock', thread)
+  expect(tracer.spans.map((s) => s.name)).toStrictEqual(['complete mock', 'chat mock'])
+  expect(tracer.spans[1].attributes['llm.retries']).toBe(1)
+})
+
+test('Uses the parent span', async () => {
+  const tracer = new TestTracer()
+  const parentSpan = tracer.startSpan('agent', {})
+  await createEngine(tracer, ['done']).complete('mock', thread, { parentSpan })
+  expect(tracer.spans[1].parent).toBe(parentSpan)
+  expect(parentSpan.ended).toBe(false)
+})
+
+test('Does not trace without tracer', async () => {
+  const engine = new MockEngine({ responses: ['done'] })
+  const opts = {}
+  await engine.complete('mock', thread, opts)
+  expect(opts).toStrictEqual({})
+})
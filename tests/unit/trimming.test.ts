@@ -0,0 +1,127 @@
+import { expect, test, vi } from 'vitest'
+import { dropOldestTurns, keepLastTurns, splitTurns, summarizeMiddle } from '../../src/trimming'
+import { countMessagesTokens, estimateTokens } from '../../src/tokens'
+import { ChatModel } from '../../src/types'
+import { LlmContextTrimmingContext } from '../../src/types/llm'
+import Attachment from '../../src/models/attachment'
+import Message from '../../src/models/message'
+
+const model: ChatModel = { id: 'model', name: 'model', capabilities: { tools: true, vision: true, reasoning: false, caching: false } }
+
+// each message costs 10 tokens with this tokenizer
+const context = (maxTokens: number): LlmContextTrimmingContext => ({
+  model, maxTokens, countTokens: (thread: Message[]) => thread.length * 10
+})
+
+const thread = [
+  new Message('system', 'instructions'),
+  new Message('user', 'prompt1'),
+  new Message('assistant', 'response1'),
+  new Message('user', 'prompt2'),
+  new Message('assistant', 'tool call'),
+  new Message('tool', 'tool result'),
+  new Message('assistant', 'response2'),
+  new Message('user', 'prompt3'),
+  new Message('assistant', 'response3'),
+  new Message('user', 'prompt4'),
+]
+
+const contents = (messages: Message[]) => messages.map((m) => m.content)
+
+test('Estimates tokens', () => {
+  expect(estimateTokens('')).toBe(0)
+  expect(estimateTokens('abcd')).toBe(1)
+  expect(estimateTokens('hello world!')).toBe(3)
+  expect(estimateTokens('你好世界')).toBe(4)
+  expect(estimateTokens('a😀')).toBe(2)
+})
+
+test('Counts thread tokens', () => {
+  const tokenizer = vi.fn((text: string) => text.length)
+  expect(countMessagesTokens(model, [ new Message('user', 'prompt') ], tokenizer)).toBe(3 + 4 + 6)
+  const message = new Message('user', 'prompt')
+  message.attach(new Attachment('attachment', 'text/plain'))
+  message.attach(new Attachment('image', 'image/png'))
+  expect(countMessagesTokens(model, [ message ], tokenizer)).toBe(3 + 4 + 6 + 10 + 765)
+  expect(countMessagesTokens({ ...model, capabilities: { ...model.capabilities, vision: false } }, [ message ], tokenizer)).toBe(3 + 4 + 6 + 10)
+})
+
+test('Splits thread in turns', () => {
+  const { system, turns } = splitTurns(thread)
+  expect(contents(system)).toStrictEqual(['instructions'])
+  expect(turns.map(contents)).toStrictEqual([
+    ['prompt1', 'response1'],
+    ['prompt2', 'tool call', 'tool result', 'response2'],
+    ['prompt3', 'response3'],
+    ['prompt4'],
+  ])
+})
+
+test('Drops oldest turns', () => {
+  const strategy = dropOldestTurns()
+  expect(strategy(thread, context(100))).toStrictEqual(thread)
+  expect(contents(strategy(thread, context(80)) as Message[])).toStrictEqual([
+    'instructions', 'prompt2', 'tool call', 'tool result', 'response2', 'prompt3', 'response3', 'prompt4'
+  ])
+  expect(contents(strategy(thread, context(50)) as Message[])).toStrictEqual([
+    'instructions', 'prompt3', 'response3', 'prompt4'
+  ])
+  expect(contents(strategy(thread, context(10)) as Message[])).toStrictEqual([
+    'instructions', 'prompt4'
+  ])
+})
+
+test('Keeps last turns', () => {
+  expect(contents(keepLastTurns(2)(thread, context(100)) as Message[])).toStrictEqual([
+    'instructions', 'prompt3', 'response3', 'prompt4'
+  ])
+  expect(contents(keepLastTurns(3)(thread, context(50)) as Message[])).toStrictEqual([
+    'instructions', 'prompt3', 'response3', 'prompt4'
+  ])
+})
+
+test('Summarizes the middle of the thread', async () => {
+  const summarize = vi.fn(async () => 'summary')
+  const trimmed = await summarizeMiddle(summarize, { summaryTokens: 0 })(thread, context(60))
+  expect(summarize).toHaveBeenCalledWith(thread.slice(3, 7), 'user: prompt2\n\nassistant: tool call\n\ntool: tool result\n\nassistant: response2')
+  expect(contents(trimmed)).toStrictEqual([
+    'instructions\n\nSummary of the earlier conversation:\nsummary',
+    'prompt1', 'response1', 'prompt3', 'response3', 'prompt4'
+  ])
+  expect(trimmed[0].role).toBe('system')
+  expect(thread[0].content).toBe('instructions')
+})
+
+test('Summarizes what the model sees', async () => {
+  class ToolMessage extends Message {
+    get contentForModel(): string {
+      return `${this.content} (with tool calls)`
+    }
+  }
+  const prompt = new Message('user', 'prompt2')
+  prompt.attach(new Attachment('attachment', 'text/plain'))
+  prompt.attach(new Attachment('image', 'image/png'))
+  const system = new ToolMessage('system', 'instructions')
+  const summarize = vi.fn(async () => 'summary')
+  const trimmed = await summarizeMiddle(summarize, { summaryTokens: 0 })([
+    system, ...thread.slice(1, 3), prompt, new ToolMessage('assistant', 'response2'), ...thread.slice(7)
+  ], context(60))
+  expect(summarize).toHaveBeenCalledWith(expect.any(Array), 'user: prompt2\n\nattachment\n\nassistant: response2 (with tool calls)')
+  expect(trimmed[0].content).toBe('instructions (with tool calls)\n\nSummary of the earlier conversation:\nsummary')
+})
+
+test('Summarizes without system message', async () => {
+  const trimmed = await summarizeMiddle(async () => 'summary', { summaryTokens: 0 })(thread.slice(1), context(60))
+  expect(trimmed[0].role).toBe('system')
+  expect(contents(trimmed)).toStrictEqual([
+    'Summary of the earlier conversation:\nsummary',
+    'prompt1', 'response1', 'prompt3', 'response3', 'prompt4'
+  ])
+})
+
+test('Does not summarize short threads', async () => {
+  const summarize = vi.fn(async () => 'summary')
+  const trimmed = await summarizeMiddle(summarize)(thread.slice(0, 4), context(30))
+  expect(summarize).not.toHaveBeenCalled()
+  expect(contents(trimmed)).toStrictEqual(['instructions', 'prompt2'])
+})